@@ -0,0 +1,130 @@
+// ============================================================================
+// 05-BASE-REPOSITORY: An Abstract Repository and an In-Memory Implementation
+// ============================================================================
+// DEMO: Abstract classes as contracts, generics with constraints
+// ============================================================================
+
+// Imported by 05-classes-and-modules.ts and the 12-end-to-end app.
+
+// --- THE CONTRACT ---
+
+// Numeric ids for hand-written seed data; strings for generated ids (ULIDs, UUIDs)
+type EntityId = number | string;
+
+interface Entity {
+  id: EntityId;
+}
+
+// T["id"] ties every method to the entity's own id type:
+// a repository of string-keyed orders won't accept findById(42)
+abstract class BaseRepository<T extends Entity> {
+  abstract findById(id: T["id"]): Promise<T | null>;
+  abstract findAll(): Promise<T[]>;
+  abstract save(entity: T): Promise<T>;  // insert or replace
+  abstract saveIf(entity: T, check: (current: T | null) => boolean): Promise<boolean>;
+  abstract update(id: T["id"], changes: Partial<Omit<T, "id">>): Promise<T | null>;
+  abstract delete(id: T["id"]): Promise<boolean>;
+  abstract nextId(): Promise<number>;
+
+  // Concrete methods shared by all repositories
+  async findByIdOrFail(id: T["id"]): Promise<T> {
+    const entity = await this.findById(id);
+    if (entity === null) {
+      throw new Error(`Entity with id ${id} not found`);
+    }
+    return entity;
+  }
+
+  async findWhere(predicate: (entity: T) => boolean): Promise<T[]> {
+    const all = await this.findAll();
+    return all.filter(predicate);
+  }
+
+  // Same idea as filterByProp in 09-generics-lite.ts
+  async findBy<K extends keyof T>(key: K, value: T[K]): Promise<T[]> {
+    return this.findWhere((entity) => entity[key] === value);
+  }
+
+  async count(predicate?: (entity: T) => boolean): Promise<number> {
+    const matches = predicate ? await this.findWhere(predicate) : await this.findAll();
+    return matches.length;
+  }
+}
+
+// repository.findBy("emial", "a@b.c");
+// ❌ Error: Argument of type '"emial"' is not assignable to parameter of type 'keyof User'
+
+// --- IN-MEMORY IMPLEMENTATION ---
+
+/**
+ * Stores clones, so callers can't mutate stored entities behind the
+ * repository's back - every change has to go through save/update.
+ */
+class InMemoryRepository<T extends Entity> extends BaseRepository<T> {
+  protected readonly entities = new Map<T["id"], T>();
+  private lastId = 0;
+
+  constructor(initial: T[] = []) {
+    super();
+    for (const entity of initial) {
+      this.store(entity);
+    }
+  }
+
+  protected store(entity: T): T {
+    this.entities.set(entity.id, structuredClone(entity));
+    if (typeof entity.id === "number") {
+      this.lastId = Math.max(this.lastId, entity.id);
+    }
+    return structuredClone(entity);
+  }
+
+  async findById(id: T["id"]): Promise<T | null> {
+    const entity = this.entities.get(id);
+    return entity ? structuredClone(entity) : null;
+  }
+
+  async findAll(): Promise<T[]> {
+    return [...this.entities.values()].map((entity) => structuredClone(entity));
+  }
+
+  async save(entity: T): Promise<T> {
+    return this.store(entity);
+  }
+
+  /**
+   * Compare-and-save: `check` sees the stored entity and the write happens
+   * in the same synchronous step, so no other save can slip in between.
+   */
+  async saveIf(entity: T, check: (current: T | null) => boolean): Promise<boolean> {
+    const current = this.entities.get(entity.id);
+    if (!check(current ? structuredClone(current) : null)) {
+      return false;
+    }
+    this.store(entity);
+    return true;
+  }
+
+  async update(id: T["id"], changes: Partial<Omit<T, "id">>): Promise<T | null> {
+    const existing = this.entities.get(id);
+    if (!existing) {
+      return null;
+    }
+    return this.store({ ...existing, ...changes, id });
+  }
+
+  async delete(id: T["id"]): Promise<boolean> {
+    return this.entities.delete(id);
+  }
+
+  /**
+   * Next free numeric id. Ids are handed out synchronously, so concurrent
+   * callers never share one. String-keyed entities use an IdGenerator instead.
+   */
+  async nextId(): Promise<number> {
+    this.lastId += 1;
+    return this.lastId;
+  }
+}
+
+export { BaseRepository, InMemoryRepository, type Entity, type EntityId };
@@ -4,6 +4,13 @@
 // DEMO: Typed fields, constructors, visibility modifiers, module types
 // ============================================================================
 
+import { pathToFileURL } from "node:url";
+import { BaseRepository, InMemoryRepository } from "./05-base-repository.js";
+
+// Demo output only when run directly - importing createUser prints nothing
+const runDirectly =
+  process.argv[1] !== undefined && import.meta.url === pathToFileURL(process.argv[1]).href;
+
 // --- TYPED CLASS WITH VISIBILITY MODIFIERS ---
 
 interface User {
@@ -53,7 +60,9 @@ class UserService {
 // --- CONSTRUCTOR TYPE CHECKING ---
 
 const service1 = new UserService("https://api.example.com");
-console.log(service1);  // ✅
+if (runDirectly) {
+  console.log(service1);  // ✅
+}
 
 // const service2 = new UserService();
 // ❌ Error: Expected 1-2 arguments, but got 0
@@ -98,8 +107,10 @@ class Product {
 }
 
 const product = new Product("Widget", 29.99);
-console.log(product.getDiscountedPrice(10));  // 26.991 ✅
-console.log(product.getSummary());  // "Widget: $29.99 (In Stock)" ✅
+if (runDirectly) {
+  console.log(product.getDiscountedPrice(10));  // 26.991 ✅
+  console.log(product.getSummary());  // "Widget: $29.99 (In Stock)" ✅
+}
 
 // --- ES MODULE EXPORTS WITH TYPES ---
 
@@ -135,33 +146,29 @@ export function createUser(request: CreateUserRequest): CreateUserResponse {
 
 // --- ABSTRACT CLASSES ---
 
-abstract class BaseRepository<T> {
-  abstract findById(id: number): Promise<T | null>;
-  abstract save(entity: T): Promise<T>;
-  
-  // Concrete method shared by all repositories
-  async findByIdOrFail(id: number): Promise<T> {
-    const entity = await this.findById(id);
-    if (entity === null) {
-      throw new Error(`Entity with id ${id} not found`);
-    }
-    return entity;
-  }
-}
+// BaseRepository<T> lives in 05-base-repository.ts and declares the contract:
+// findById, findAll, save, saveIf, update, delete, nextId + shared query helpers.
 
-// Must implement abstract methods
-class UserRepository extends BaseRepository<User> {
-  async findById(id: number): Promise<User | null> {
-    // Implementation here
-    return null;
-  }
+// class BrokenRepository extends BaseRepository<User> {}
+// ❌ Error: Non-abstract class 'BrokenRepository' does not implement
+//    inherited abstract member 'findById' from class 'BaseRepository<User>'
 
-  async save(user: User): Promise<User> {
-    // Implementation here
-    return user;
+// Extending a concrete implementation inherits all of it
+class UserRepository extends InMemoryRepository<User> {
+  async findByEmail(email: string): Promise<User | null> {
+    const [match] = await this.findBy("email", email);
+    return match ?? null;
   }
 }
 
+// Callers can depend on the abstract contract, not the implementation
+const userRepository: BaseRepository<User> = new UserRepository([
+  { id: 1, name: "Alice", email: "alice@example.com" },
+]);
+if (runDirectly) {
+  userRepository.findById(1).then((user) => console.log(user?.name));  // "Alice" ✅
+}
+
 // ============================================================================
 // KEY BENEFITS:
 // 1. Fields must be declared with types
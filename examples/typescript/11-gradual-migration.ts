@@ -4,6 +4,12 @@
 // DEMO: Typing legacy code, any as escape hatch, type assertions, .d.ts
 // ============================================================================
 
+import { pathToFileURL } from "node:url";
+
+// Demo output only when run directly - the 12-end-to-end app imports formatCurrency
+const runDirectly =
+  process.argv[1] !== undefined && import.meta.url === pathToFileURL(process.argv[1]).href;
+
 // --- STEP 1: Define Interfaces for Options ---
 
 interface CurrencyOptions {
@@ -19,17 +25,21 @@ function formatCurrency(amount: number, options?: CurrencyOptions): string {
   const decimals = options?.decimals ?? 2;
   const showSymbol = options?.showSymbol !== false;
   
-  const formatted = amount.toFixed(decimals);
-  
-  if (showSymbol) {
-    return `$${formatted}`;
-  }
-  return formatted;
+  // Intl knows each locale's symbol placement and separators: "1.234,56 €"
+  return new Intl.NumberFormat(locale, {
+    style: showSymbol ? "currency" : "decimal",
+    currency,
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  }).format(amount);
 }
 
 // Now callers get autocomplete and validation!
-console.log(formatCurrency(99.99));  // "$99.99" ✅
-console.log(formatCurrency(99.99, { decimals: 0 }));  // "$100" ✅
+if (runDirectly) {
+  console.log(formatCurrency(99.99));  // "$99.99" ✅
+  console.log(formatCurrency(99.99, { decimals: 0 }));  // "$100" ✅
+  console.log(formatCurrency(99.99, { locale: "de-DE", currency: "EUR" }));  // "99,99 €" ✅
+}
 // formatCurrency("99.99");  // ❌ Error: string not assignable to number
 // formatCurrency(99.99, { decmals: 0 });  // ❌ Error: 'decmals' does not exist
 
@@ -206,7 +216,9 @@ const config: AppConfig = {
 };
 
 // Type-safe config access
-console.log(config.api.timeout);  // ✅ Autocomplete!
+if (runDirectly) {
+  console.log(config.api.timeout);  // ✅ Autocomplete!
+}
 // config.api.timout  // ❌ Error: Property 'timout' does not exist
 
 // --- STEP 6: Using 'any' as Escape Hatch ---
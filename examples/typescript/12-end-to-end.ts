@@ -4,41 +4,212 @@
 // DEMO: Same order processing app, but with types catching all bugs
 // ============================================================================
 
+import { createServer } from "node:http";
+import { pathToFileURL } from "node:url";
+import { InMemoryRepository } from "./05-base-repository.js";
+import { JsonFileRepository, type JsonCodec } from "./12-end-to-end/json-file-repository.js";
+import {
+  transitionOrder,
+  describeStatusError,
+  type StatusChange,
+  type UpdateOrderStatusResult,
+} from "./12-end-to-end/order-lifecycle.js";
+import {
+  money,
+  zero,
+  addMoney,
+  subtractMoney,
+  multiplyMoney,
+  formatMoney,
+  type CurrencyCode,
+  type Money,
+} from "./12-end-to-end/money.js";
+import {
+  convertMoney,
+  defaultExchangeRates,
+  getExchangeRate,
+  type ExchangeRate,
+} from "./12-end-to-end/exchange-rates.js";
+import { DataLoader } from "./12-end-to-end/data-loader.js";
+import { renderOrder, type OrderFormat } from "./12-end-to-end/renderers.js";
+import {
+  queryOrders,
+  type OrderQuery,
+  type OrderQueryResult,
+} from "./12-end-to-end/order-query.js";
+import { createOrderEventBus, type OrderEventName, type OrderEvents } from "./12-end-to-end/order-events.js";
+import {
+  buildSalesReport,
+  renderSalesReport,
+  type SalesReport,
+  type SalesReportOptions,
+} from "./12-end-to-end/sales-report.js";
+import { FileTransport, OutboxDispatcher, type OutboxMessage, type OutgoingEmail } from "./12-end-to-end/outbox.js";
+import { buildOrderNotification, buildReminderNotification } from "./12-end-to-end/order-notifications.js";
+import { FakeClock, hours, systemClock, type Clock } from "./12-end-to-end/clock.js";
+import { PendingOrderScheduler } from "./12-end-to-end/order-expiry.js";
+import { JsonLinesEventLog } from "./12-end-to-end/event-log.js";
+import {
+  EventSourcedOrderRepository,
+  ordersByStatus,
+  type OrderEvent,
+  type OrderHeader,
+  type OrderLogEntry,
+  type OrderSnapshot,
+} from "./12-end-to-end/order-event-store.js";
+import {
+  WebhookDispatcher,
+  verifyWebhook,
+  type WebhookDelivery,
+  type WebhookEventType,
+  type WebhookRequest,
+  type WebhookSubscription,
+} from "./12-end-to-end/webhooks.js";
+import { IdempotencyStore, type IdempotencyRecord } from "./12-end-to-end/idempotency.js";
+import { createIdGenerator, isIdStrategy } from "./12-end-to-end/id-generators.js";
+import { Inventory, type InsufficientStock } from "./12-end-to-end/inventory.js";
+import {
+  isValidQuantity,
+  repeatsOnRetry,
+  describeCreateOrderProblem,
+  type CreateOrderProblem,
+  type NonEmptyArray,
+  type OutOfStock,
+} from "./12-end-to-end/order-errors.js";
+import {
+  PricingEngine,
+  type AppliedDiscount,
+  type PricingContext,
+  type PricingResult,
+  type PricingRule,
+} from "./12-end-to-end/pricing-rules.js";
+import {
+  FakePaymentGateway,
+  PaymentClient,
+  unpaid,
+  type FakeAuthorization,
+  type OrderPayment,
+  type PaymentResult,
+  type PaymentTransaction,
+  type PaymentUpdate,
+} from "./12-end-to-end/payments.js";
+import { ShippingCalculator, type ShippingQuote } from "./12-end-to-end/shipping.js";
+import {
+  addCartLine,
+  setCartLineQuantity,
+  mergeCartLines,
+  cartExpiresAt,
+  isCartExpired,
+  findPriceChanges,
+  type Cart,
+  type CartError,
+  type CartLine,
+  type CartOptions,
+  type CartResult,
+  type CartView,
+  type CheckoutCartResult,
+} from "./12-end-to-end/carts.js";
+import {
+  calculateTax,
+  defaultTaxRates,
+  type JurisdictionRates,
+  type TaxBreakdown,
+  type TaxCategory,
+  type TaxableLine,
+} from "./12-end-to-end/tax.js";
+import {
+  checkRefundItems,
+  checkRefundAmounts,
+  describeRefundError,
+  orderAmounts,
+  refundAmount,
+  refundKind,
+  refundedLines,
+  removeRefundedUnits,
+  type OrderRefund,
+  type RefundError,
+  type RefundItem,
+  type RefundOrderItemsResult,
+} from "./12-end-to-end/refunds.js";
+
 // --- TYPE DEFINITIONS AT BOUNDARIES ---
 
 type UserTier = "basic" | "premium" | "enterprise";
 
+interface Address {
+  id: string;  // unique per user, e.g. "home"
+  recipient: string;
+  line1: string;
+  line2?: string;
+  city: string;
+  postalCode: string;
+  country: string;  // ISO 3166-1 alpha-2, e.g. "US"
+  jurisdiction: string;  // tax jurisdiction code, e.g. "US-NY" or "DE"
+}
+
 interface User {
   id: number;
   name: string;
   email: string;
   tier: UserTier;
+  addresses: NonEmptyArray<Address>;  // a user always has somewhere to ship to
+  defaultAddressId: string;
+  currency: CurrencyCode;  // orders are charged in this currency by default
+  locale: string;  // for formatting, e.g. "de-DE" → "1.234,56 €"
 }
 
 interface Product {
   id: number;
   name: string;
-  price: number;
-  inStock: boolean;
+  price: Money;  // integer cents - no float drift
+  currency: CurrencyCode;  // the currency `price` is in
+  taxCategory: TaxCategory;
+  weightGrams: number;  // shipping weight of one unit
 }
 
 interface OrderItem {
   product: Product;
   quantity: number;
-  total: number;
+  unitPrice: Money;  // product price converted to the order's currency
+  total: Money;
+  discount: Money;  // sum of this line's share of every discount
+  discounts: AppliedDiscount[];
 }
 
 type OrderStatus = "pending" | "processing" | "shipped" | "delivered" | "cancelled";
 
+type OrderId = string;  // "42", a ULID or a UUID, depending on ORDER_ID_STRATEGY
+
+// Copied onto the order when it is placed, so a refund re-prices what is
+// left by the rules and rates the customer was charged under - not by
+// whatever the config says today
+interface OrderPriceBasis {
+  rules: PricingRule[];  // the rules that fired, as they were then
+  taxRates: JurisdictionRates | null;  // null: an old order whose jurisdiction has since been removed
+}
+
 interface Order {
-  id: number;
+  id: OrderId;
+  version: number;  // starts at 1, bumped by every change - see updateOrderStatus
   user: User;
   items: OrderItem[];
-  subtotal: number;
-  discount: number;
-  tax: number;
-  total: number;
+  currency: CurrencyCode;  // every Money on the order is in this currency
+  locale: string;
+  exchangeRates: ExchangeRate[];  // rates used to convert catalog prices; empty if none
+  subtotal: Money;
+  discount: Money;
+  discounts: AppliedDiscount[];  // one entry per pricing rule that fired
+  shippingAddress: Address;  // a copy: later address book edits don't move the parcel
+  shipping: ShippingQuote;
+  jurisdiction: string;
+  tax: Money;  // includes tax on shipping
+  taxBreakdown: TaxBreakdown;
+  total: Money;
+  pricedWith: OrderPriceBasis;
   status: OrderStatus;
+  statusHistory: StatusChange[];
+  payment: OrderPayment;  // authorized when placed, captured before it can ship
+  refunds: OrderRefund[];  // append-only; the amounts above are net of all of them
   createdAt: Date;
 }
 
@@ -47,49 +218,714 @@ interface CreateOrderItem {
   quantity: number;
 }
 
+interface CreateOrderOptions {
+  couponCodes?: string[];
+  shippingAddressId?: string;  // one of the user's addresses; defaults to their default
+  shippingMethodId?: string;  // default "standard"
+  jurisdiction?: string;  // tax jurisdiction; defaults to the shipping address's
+  currency?: CurrencyCode;  // charge currency; defaults to the user's
+  expectedTotal?: Money;  // refuse with TOTAL_CHANGED if the total differs (e.g. from the cart view)
+  validation?: "fail-fast" | "collect-all";  // default "fail-fast"
+  loaders?: OrderLoaders;  // share lookups across calls; default: fresh per call
+  idempotencyKey?: string;  // retries with the same key return the first result
+}
+
+interface UpdateOrderStatusOptions {
+  reason?: string;
+  expectedVersion?: number;  // the version the caller last saw; stale → VERSION_CONFLICT
+}
+
+type RefundOrderItemsOptions = UpdateOrderStatusOptions;
+
 // --- "DATABASE" ---
 
-const users: User[] = [
-  { id: 1, name: "Alice", email: "alice@example.com", tier: "premium" },
-  { id: 2, name: "Bob", email: "bob@example.com", tier: "basic" },
-  { id: 3, name: "Carol", email: "carol@example.com", tier: "premium" },
-];
+const users = new InMemoryRepository<User>([
+  {
+    id: 1,
+    name: "Alice",
+    email: "alice@example.com",
+    tier: "premium",
+    addresses: [
+      { id: "home", recipient: "Alice", line1: "12 Hudson St", city: "New York", postalCode: "10013", country: "US", jurisdiction: "US-NY" },
+      { id: "office", recipient: "Alice", line1: "500 Market St", line2: "Floor 4", city: "San Francisco", postalCode: "94105", country: "US", jurisdiction: "US-CA" },
+    ],
+    defaultAddressId: "home",
+    currency: "USD",
+    locale: "en-US",
+  },
+  {
+    id: 2,
+    name: "Bob",
+    email: "bob@example.com",
+    tier: "basic",
+    addresses: [
+      { id: "home", recipient: "Bob", line1: "88 Alder St", city: "Portland", postalCode: "97204", country: "US", jurisdiction: "US-OR" },
+    ],
+    defaultAddressId: "home",
+    currency: "USD",
+    locale: "en-US",
+  },
+  {
+    id: 3,
+    name: "Carol",
+    email: "carol@example.com",
+    tier: "premium",
+    addresses: [
+      { id: "home", recipient: "Carol", line1: "Torstraße 1", city: "Berlin", postalCode: "10119", country: "DE", jurisdiction: "DE" },
+    ],
+    defaultAddressId: "home",
+    currency: "EUR",
+    locale: "de-DE",
+  },
+]);
+
+const products = new InMemoryRepository<Product>([
+  { id: 101, name: "Widget", price: money(2999), currency: "USD", taxCategory: "standard", weightGrams: 250 },
+  { id: 102, name: "Gadget", price: money(4999), currency: "USD", taxCategory: "standard", weightGrams: 1200 },
+  { id: 103, name: "Gizmo", price: money(1999), currency: "EUR", taxCategory: "reduced", weightGrams: 400 },  // imported
+]);
+
+// Stock levels live in the Inventory, not on the Product. These are the
+// levels before any order; syncStock() takes off what orders hold or shipped.
+const inventory = new Inventory([
+  { productId: 101, onHand: 25 },
+  { productId: 102, onHand: 10 },
+  { productId: 103, onHand: 0 },
+]);
+
+// Record<OrderStatus, ...>: a new status has to say what it does to stock
+const stockHeldAs: Record<OrderStatus, "reserved" | "shipped" | "released"> = {
+  pending: "reserved",
+  processing: "reserved",
+  shipped: "shipped",
+  delivered: "shipped",
+  cancelled: "released",
+};
+
+/**
+ * Stock isn't saved on its own - it follows from the orders, which hold
+ * their units (the reservation is keyed by order id) until they ship or
+ * are cancelled. The CLI and the server both write orders, so the
+ * inventory is brought up to date with the order log before every use.
+ */
+function syncStock(all: readonly Order[]): void {
+  const held = all
+    .filter((order) => stockHeldAs[order.status] === "reserved")
+    .map((order) => ({ id: order.id, lines: stockLinesOf(order.items) }));
+  // Returned units don't go back on the shelf, so they count as shipped
+  const shipped = all
+    .filter((order) => stockHeldAs[order.status] === "shipped")
+    .flatMap((order) => [
+      ...stockLinesOf(order.items),
+      ...order.refunds.filter((refund) => refund.kind === "return").flatMap((refund) => refund.lines),
+    ]);
+  // An order still being placed isn't in the log yet: keep its reservation
+  const recorded = new Set(all.map((order) => order.id));
+  inventory.sync(held, shipped, (id) => recorded.has(id));
+}
+
+async function catchUpStock(): Promise<void> {
+  syncStock(await orders.findAll());
+}
+
+// Discounts are data, not code: add or expire rules without touching createOrder
+const pricingEngine = new PricingEngine([
+  {
+    kind: "volume",
+    id: "widget-volume",
+    label: "Widget volume break",
+    priority: 10,
+    stacking: "stack",
+    productId: 101,
+    breaks: [
+      { minQuantity: 5, percentOff: 5 },
+      { minQuantity: 10, percentOff: 10 },
+    ],
+  },
+  {
+    kind: "buy-x-get-y",
+    id: "gizmo-3-for-2",
+    label: "Gizmo 3 for 2",
+    priority: 10,
+    stacking: "stack",
+    productId: 103,
+    buy: 2,
+    get: 1,
+  },
+  {
+    kind: "coupon",
+    id: "welcome-5",
+    label: "Coupon WELCOME5",
+    priority: 20,
+    stacking: "stack",
+    code: "WELCOME5",
+    discount: { type: "amount", amount: money(500), currency: "USD" },
+  },
+  {
+    kind: "coupon",
+    id: "spring-sale",
+    label: "Spring sale",
+    priority: 20,
+    stacking: "stack",
+    code: "SPRING",
+    discount: { type: "percent", percent: 15 },
+    validFrom: new Date("2026-03-01T00:00:00Z"),
+    validUntil: new Date("2026-06-01T00:00:00Z"),
+  },
+  {
+    kind: "tier",
+    id: "tier-discount",
+    label: "Loyalty discount",
+    priority: 100,
+    stacking: "stack",
+    percentOff: { premium: 10, enterprise: 20 },
+  },
+]);
+
+// Shipping methods are data as well. Thresholds apply to the goods after
+// discounts and before tax; express never ships free.
+const shippingCalculator = new ShippingCalculator(
+  [
+    {
+      kind: "weight",
+      id: "standard",
+      label: "Standard",
+      currency: "USD",
+      freeShippingEligible: true,
+      bands: [
+        { maxGrams: 500, price: money(499) },
+        { maxGrams: 2000, price: money(899) },
+        { maxGrams: 10000, price: money(1499) },
+      ],
+    },
+    {
+      kind: "per-item",
+      id: "express",
+      label: "Express",
+      currency: "USD",
+      countries: ["US"],
+      freeShippingEligible: false,
+      firstItem: money(999),
+      additionalItem: money(299),
+    },
+  ],
+  {
+    basic: { minimum: money(7500), currency: "USD" },
+    premium: { minimum: money(3500), currency: "USD" },
+    enterprise: { minimum: zero(), currency: "USD" },
+  }
+);
+
+// Orders go to a JSON file, so they survive a process restart.
+// JSON turns Dates into strings, so the codec turns them back.
+// Files written before ids were strings (and before `version`) still load.
+// Files written before multi-currency support were all in USD, and
+// files written before shipping support had no shipping at all, and
+// files written before payments were never paid through us.
+// Refunds came with their own records; older files have none. Orders
+// placed before the price basis was kept get today's rules and rates.
+type StoredOrderItem = Omit<OrderItem, "product" | "unitPrice"> & {
+  product: Omit<Product, "currency"> & { currency?: CurrencyCode };
+  unitPrice?: Money;
+};
+
+type StoredPayment = Omit<OrderPayment, "transactions"> & {
+  transactions: (Omit<PaymentTransaction, "at"> & { at: string })[];
+};
+
+function decodePayment(stored: StoredPayment): OrderPayment {
+  return { ...stored, transactions: stored.transactions.map((t) => ({ ...t, at: new Date(t.at) })) };
+}
+
+type StoredPricingRule = {
+  [K in PricingRule["kind"]]: Omit<Extract<PricingRule, { kind: K }>, "validFrom" | "validUntil"> & {
+    validFrom?: string;
+    validUntil?: string;
+  };
+}[PricingRule["kind"]];
+
+type StoredPriceBasis = Omit<OrderPriceBasis, "rules"> & { rules: StoredPricingRule[] };
+
+function decodePriceBasis(stored: StoredPriceBasis | undefined, jurisdiction: string): OrderPriceBasis {
+  if (stored === undefined) {
+    return { rules: [...pricingEngine.listRules()], taxRates: defaultTaxRates.jurisdictions[jurisdiction] ?? null };
+  }
+  return {
+    ...stored,
+    rules: stored.rules.map((rule) => ({
+      ...rule,
+      validFrom: rule.validFrom === undefined ? undefined : new Date(rule.validFrom),
+      validUntil: rule.validUntil === undefined ? undefined : new Date(rule.validUntil),
+    })),
+  };
+}
+
+type StoredStatusChange = Omit<StatusChange, "at"> & { at: string };
+type StoredRefund = Omit<OrderRefund, "at"> & { at: string };
+
+type StoredOrder = Omit<
+  Order,
+  | "id"
+  | "version"
+  | "items"
+  | "currency"
+  | "locale"
+  | "exchangeRates"
+  | "shippingAddress"
+  | "shipping"
+  | "taxBreakdown"
+  | "createdAt"
+  | "statusHistory"
+  | "payment"
+  | "refunds"
+  | "pricedWith"
+> & {
+  id: OrderId | number;
+  version?: number;
+  items: StoredOrderItem[];
+  currency?: CurrencyCode;
+  locale?: string;
+  exchangeRates?: ExchangeRate[];
+  shippingAddress?: Address;
+  shipping?: ShippingQuote;
+  taxBreakdown: Omit<TaxBreakdown, "shipping"> & Partial<Pick<TaxBreakdown, "shipping">>;
+  createdAt: string;
+  statusHistory: StoredStatusChange[];
+  payment?: StoredPayment;
+  refunds?: StoredRefund[];
+  pricedWith?: StoredPriceBasis;
+};
+
+const orderCodec: JsonCodec<Order> = {
+  encode: (order) => order,
+  decode: (raw) => {
+    const stored = raw as StoredOrder;
+    return {
+      ...stored,
+      id: String(stored.id),
+      version: stored.version ?? 1,
+      items: stored.items.map((item) => ({
+        ...item,
+        product: { ...item.product, currency: item.product.currency ?? "USD" },
+        unitPrice: item.unitPrice ?? item.product.price,
+      })),
+      currency: stored.currency ?? "USD",
+      locale: stored.locale ?? "en-US",
+      exchangeRates: stored.exchangeRates ?? [],
+      shippingAddress: stored.shippingAddress ?? {
+        id: "unknown",
+        recipient: stored.user.name,
+        line1: "(not recorded)",
+        city: "",
+        postalCode: "",
+        country: "",
+        jurisdiction: stored.jurisdiction,
+      },
+      shipping: stored.shipping ?? {
+        methodId: "none",
+        label: "Not recorded",
+        weightGrams: 0,
+        cost: zero(),
+        freeShipping: false,
+      },
+      taxBreakdown: {
+        ...stored.taxBreakdown,
+        shipping: stored.taxBreakdown.shipping ?? { rule: "exempt", rate: 0, net: zero(), tax: zero() },
+      },
+      createdAt: new Date(stored.createdAt),
+      statusHistory: stored.statusHistory.map((change) => ({ ...change, at: new Date(change.at) })),
+      payment: stored.payment ? decodePayment(stored.payment) : unpaid(stored.currency ?? "USD"),
+      refunds: (stored.refunds ?? []).map((refund) => ({ ...refund, at: new Date(refund.at) })),
+      pricedWith: decodePriceBasis(stored.pricedWith, stored.jurisdiction),
+    };
+  },
+};
+
+// Order and cart code reads the time from here, never from `new Date()`, so the demo
+// (or a test) can setClock(new FakeClock()) and step through a day at once
+let clock: Clock = systemClock;
+
+function setClock(next: Clock): void {
+  clock = next;
+}
+
+// Log entries as JSON: every Date inside them is still a string
+type StoredOrderLogEntry = Pick<OrderLogEntry, "orderId" | "version"> & { recordedAt: string } & (
+  | {
+      type: "OrderCreated";
+      order: Omit<OrderHeader, "createdAt" | "payment" | "pricedWith"> & {
+        createdAt: string;
+        payment: StoredPayment;
+        pricedWith?: StoredPriceBasis;
+      };
+    }
+  | { type: "StatusChanged"; change: StoredStatusChange }
+  | { type: "PaymentUpdated"; payment: StoredPayment }
+  | { type: "ItemsRefunded"; refund: StoredRefund; pricing: OrderPricing }
+  | { type: "OrderImported"; order: StoredOrder }
+  | Extract<OrderEvent, { type: "ItemAdded" | "DiscountApplied" | "OrderDeleted" | "NotificationQueued" }>
+);
+
+const orderLogCodec: JsonCodec<OrderLogEntry> = {
+  encode: (entry) => entry,
+  decode: (raw) => {
+    const entry = raw as StoredOrderLogEntry;
+    const recordedAt = new Date(entry.recordedAt);
+    switch (entry.type) {
+      case "OrderCreated": {
+        const { createdAt, payment, pricedWith, jurisdiction } = entry.order;
+        const order = {
+          ...entry.order,
+          createdAt: new Date(createdAt),
+          payment: decodePayment(payment),
+          pricedWith: decodePriceBasis(pricedWith, jurisdiction),
+        };
+        return { ...entry, recordedAt, order };
+      }
+      case "StatusChanged":
+        return { ...entry, recordedAt, change: { ...entry.change, at: new Date(entry.change.at) } };
+      case "PaymentUpdated":
+        return { ...entry, recordedAt, payment: decodePayment(entry.payment) };
+      case "ItemsRefunded":
+        return { ...entry, recordedAt, refund: { ...entry.refund, at: new Date(entry.refund.at) } };
+      case "OrderImported":
+        return { ...entry, recordedAt, order: orderCodec.decode(entry.order) };
+      case "ItemAdded":
+      case "DiscountApplied":
+      case "OrderDeleted":
+      case "NotificationQueued":
+        return { ...entry, recordedAt };
+    }
+  },
+};
+
+const orderSnapshotCodec: JsonCodec<OrderSnapshot> = {
+  encode: (snapshot) => snapshot,
+  decode: (raw) => {
+    const stored = raw as Omit<OrderSnapshot, "order"> & { order: StoredOrder };
+    return { ...stored, order: orderCodec.decode(stored.order) };
+  },
+};
+
+const NOTIFICATION_FROM = process.env.NOTIFICATION_FROM ?? "orders@example.com";
+
+// The customer emails for each new status change - see relayNotifications()
+function orderNotifications(previous: Order | null, next: Order): OutgoingEmail[] {
+  return next.statusHistory
+    .slice(previous?.statusHistory.length ?? 0)
+    .map((change) => buildOrderNotification(next, change, NOTIFICATION_FROM))
+    .filter((email) => email !== null);
+}
+
+// Orders are stored as the log of what happened to them (ORDER_EVENTS_FILE);
+// reads replay it from the latest snapshot on. Orders saved in ORDERS_FILE
+// before the log existed are imported into it once.
+const orders = new EventSourcedOrderRepository(
+  new JsonLinesEventLog<OrderLogEntry>(process.env.ORDER_EVENTS_FILE ?? ".data/order-events.jsonl", orderLogCodec),
+  new JsonFileRepository<OrderSnapshot>(process.env.ORDER_SNAPSHOTS_FILE ?? ".data/order-snapshots.json", orderSnapshotCodec),
+  {
+    clock: { now: () => clock.now() },
+    importFrom: new JsonFileRepository<Order>(process.env.ORDERS_FILE ?? ".data/orders.json", orderCodec),
+    notify: orderNotifications,
+  }
+);
+
+// Carts are saved per user in their own file, and expire after a week
+// without changes. Prices are never stored, only recomputed on read.
+const CART_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+type StoredCart = Omit<Cart, "lines" | "createdAt" | "updatedAt"> & {
+  lines: (Omit<CartLine, "addedAt"> & { addedAt: string })[];
+  createdAt: string;
+  updatedAt: string;
+};
 
-const products: Product[] = [
-  { id: 101, name: "Widget", price: 29.99, inStock: true },
-  { id: 102, name: "Gadget", price: 49.99, inStock: true },
-  { id: 103, name: "Gizmo", price: 19.99, inStock: false },
-];
+const cartCodec: JsonCodec<Cart> = {
+  encode: (cart) => cart,
+  decode: (raw) => {
+    const stored = raw as StoredCart;
+    return {
+      ...stored,
+      lines: mergeCartLines(stored.lines.map((line) => ({ ...line, addedAt: new Date(line.addedAt) }))),
+      createdAt: new Date(stored.createdAt),
+      updatedAt: new Date(stored.updatedAt),
+    };
+  },
+};
+
+const carts = new JsonFileRepository<Cart>(
+  process.env.CARTS_FILE ?? ".data/carts.json",
+  cartCodec
+);
+
+// Pick with ORDER_ID_STRATEGY=sequence|ulid|uuid. Sequence ids resume after
+// the highest one in the order log, deleted orders included; ULIDs and
+// UUIDs need no coordination at all.
+const orderIdStrategy = process.env.ORDER_ID_STRATEGY ?? "sequence";
+if (!isIdStrategy(orderIdStrategy)) {
+  throw new Error(`Unknown ORDER_ID_STRATEGY "${orderIdStrategy}"`);
+}
+const orderIds = createIdGenerator(orderIdStrategy, {
+  nextNumber: () => orders.nextId(),
+  clock: { now: () => clock.now() },
+});
+
+// Remember idempotency keys for a day, in a file so a retry from another
+// process or after a restart still finds them. Only final answers are kept:
+// a retry after running out of stock or a payment timeout tries again.
+type StoredIdempotencyRecord = Omit<IdempotencyRecord<CreateOrderResult>, "result"> & {
+  result: { success: true; order: unknown } | CreateOrderError;
+};
+
+const idempotencyStore = new IdempotencyStore<CreateOrderResult>({
+  retentionMs: 24 * 60 * 60 * 1000,
+  records: new JsonFileRepository<IdempotencyRecord<CreateOrderResult>>(
+    process.env.IDEMPOTENCY_FILE ?? ".data/idempotency-keys.json",
+    {
+      encode: (record) => record,
+      decode: (raw) => {
+        const stored = raw as StoredIdempotencyRecord;
+        const result: CreateOrderResult = stored.result.success
+          ? { success: true, order: orderCodec.decode(stored.result.order) }
+          : stored.result;
+        return { ...stored, result };
+      },
+    }
+  ),
+  remember: (result) => result.success || result.errors.every(repeatsOnRetry),
+  clock: { now: () => clock.now() },
+});
+
+// The card is authorized when the order is placed and captured before it
+// ships. The fake gateway stands in for a real processor: any
+// PaymentGateway plugs in here without touching the order code.
+const paymentGateway = new FakePaymentGateway(
+  new JsonFileRepository<FakeAuthorization>(process.env.PAYMENTS_FILE ?? ".data/payments.json", {
+    encode: (authorization) => authorization,
+    decode: (raw) => raw as FakeAuthorization,
+  })
+);
+const payments = new PaymentClient(paymentGateway, {
+  timeoutMs: Number(process.env.PAYMENT_TIMEOUT_MS ?? 5000),
+  now: () => clock.now(),
+});
+
+// Inventory, notifications, analytics... subscribe here instead of
+// editing createOrder / updateOrderStatus
+const orderEvents = createOrderEventBus();
+
+// Customer emails go through an outbox: saved to a file first, then sent by
+// a background dispatcher. Ids are deterministic and the transport treats
+// them as idempotency keys, so retries and recovery never send twice.
+type StoredOutboxMessage = Omit<OutboxMessage, "nextAttemptAt" | "createdAt" | "sentAt"> & {
+  nextAttemptAt: string;
+  createdAt: string;
+  sentAt?: string;
+};
+
+const outboxCodec: JsonCodec<OutboxMessage> = {
+  encode: (message) => message,
+  decode: (raw) => {
+    const stored = raw as StoredOutboxMessage;
+    return {
+      ...stored,
+      nextAttemptAt: new Date(stored.nextAttemptAt),
+      createdAt: new Date(stored.createdAt),
+      sentAt: stored.sentAt === undefined ? undefined : new Date(stored.sentAt),
+    };
+  },
+};
+
+const notificationOutbox = new OutboxDispatcher(
+  new JsonFileRepository<OutboxMessage>(process.env.OUTBOX_FILE ?? ".data/outbox.json", outboxCodec),
+  new FileTransport(process.env.MAIL_DIR ?? ".data/mail"),
+  { now: () => clock.now().getTime(), collect: () => relayNotifications() }
+);
+
+// Hand the emails over right away; each dispatch pass relays again too
+orderEvents.subscribe("OrderCreated", async () => {
+  await relayNotifications();
+});
+orderEvents.subscribe("OrderStatusChanged", async () => {
+  await relayNotifications();
+});
+
+// Partner systems subscribe to order events over HTTP. Subscriptions and
+// the delivery log are files like everything else; deliveries are signed
+// with the subscription's secret and retried with backoff.
+type StoredWebhookSubscription = Omit<WebhookSubscription, "createdAt"> & { createdAt: string };
+
+type StoredWebhookDelivery = Omit<WebhookDelivery, "log" | "nextAttemptAt" | "createdAt" | "deliveredAt"> & {
+  log: (Omit<WebhookDelivery["log"][number], "at"> & { at: string })[];
+  nextAttemptAt: string;
+  createdAt: string;
+  deliveredAt?: string;
+};
+
+const webhooks = new WebhookDispatcher(
+  new JsonFileRepository<WebhookSubscription>(process.env.WEBHOOKS_FILE ?? ".data/webhooks.json", {
+    encode: (subscription) => subscription,
+    decode: (raw) => {
+      const stored = raw as StoredWebhookSubscription;
+      return { ...stored, createdAt: new Date(stored.createdAt) };
+    },
+  }),
+  new JsonFileRepository<WebhookDelivery>(process.env.WEBHOOK_DELIVERIES_FILE ?? ".data/webhook-deliveries.json", {
+    encode: (delivery) => delivery,
+    decode: (raw) => {
+      const stored = raw as StoredWebhookDelivery;
+      return {
+        ...stored,
+        log: stored.log.map((attempt) => ({ ...attempt, at: new Date(attempt.at) })),
+        nextAttemptAt: new Date(stored.nextAttemptAt),
+        createdAt: new Date(stored.createdAt),
+        deliveredAt: stored.deliveredAt === undefined ? undefined : new Date(stored.deliveredAt),
+      };
+    },
+  }),
+  { clock: { now: () => clock.now() } }
+);
+
+// Record<OrderEventName, ...>: a new domain event doesn't compile until it
+// has a public webhook name
+const webhookEventFor: Record<OrderEventName, WebhookEventType> = {
+  OrderCreated: "order.created",
+  OrderStatusChanged: "order.status_changed",
+  OrderShipped: "order.shipped",
+  OrderDelivered: "order.delivered",
+  OrderCancelled: "order.cancelled",
+  OrderItemsRefunded: "order.items_refunded",
+};
+
+// What partners are sent about an order: ids, status and totals. Names,
+// emails, addresses and free-text reasons stay with us - a partner that
+// needs more fetches the order through the API.
+interface WebhookOrder {
+  id: OrderId;
+  userId: number;
+  version: number;
+  status: OrderStatus;
+  currency: CurrencyCode;
+  subtotal: Money;
+  discount: Money;
+  shipping: Money;
+  tax: Money;
+  total: Money;
+}
+
+function toWebhookOrder(order: Order): WebhookOrder {
+  return {
+    id: order.id,
+    userId: order.user.id,
+    version: order.version,
+    status: order.status,
+    currency: order.currency,
+    subtotal: order.subtotal,
+    discount: order.discount,
+    shipping: order.shipping.cost,
+    tax: order.tax,
+    total: order.total,
+  };
+}
+
+// Whatever the event adds to the order, minus anything personal
+function webhookDetails(payload: OrderEvents[OrderEventName]): Record<string, unknown> {
+  if ("from" in payload) {
+    return { from: payload.from, to: payload.to };
+  }
+  if ("refund" in payload) {
+    return { refundId: payload.refund.id, amount: payload.refund.amount };
+  }
+  return {};
+}
+
+// Each save bumps the version, so version + type names the change uniquely
+for (const name of Object.keys(webhookEventFor) as OrderEventName[]) {
+  orderEvents.subscribe(name, async (payload) => {
+    const type = webhookEventFor[name];
+    const { order } = payload;
+    await webhooks.publish({
+      id: `order-${order.id}-v${order.version}-${type}`,
+      type,
+      occurredAt: clock.now(),
+      data: { ...webhookDetails(payload), order: toWebhookOrder(order) },
+    });
+  });
+}
 
-const orders: Order[] = [];
+// A pending order whose card hold is missing or has run out (holds last a
+// week) waits on the customer: after PENDING_ORDER_TTL_MS (default a day)
+// of that it is cancelled, which gives back its stock. The customer is
+// reminded four hours before. Orders only waiting to be captured by us are
+// left alone.
+const pendingOrders = new PendingOrderScheduler(
+  orders,
+  {
+    remind: (order, { expiresAt, reminder }) =>
+      notificationOutbox.enqueue(buildReminderNotification(order, expiresAt, reminder, NOTIFICATION_FROM)),
+    expire: async (order) => {
+      // expectedVersion: if it was paid or changed since we looked, leave it be
+      const result = await updateOrderStatus(order.id, "cancelled", {
+        reason: "Not paid in time",
+        expectedVersion: order.version,
+      });
+      return result.success;
+    },
+  },
+  {
+    clock: { now: () => clock.now() },
+    expireAfterMs: Number(process.env.PENDING_ORDER_TTL_MS ?? hours(24)),
+    remindBeforeMs: [hours(4)],
+  }
+);
 
 // --- API FUNCTIONS (Simulated) ---
 
 async function fetchUser(userId: number): Promise<User | null> {
   await new Promise((resolve) => setTimeout(resolve, 100));
-  return users.find((u) => u.id === userId) ?? null;
+  return users.findById(userId);
 }
 
 async function fetchProduct(productId: number): Promise<Product | null> {
   await new Promise((resolve) => setTimeout(resolve, 100));
-  return products.find((p) => p.id === productId) ?? null;
+  return products.findById(productId);
 }
 
-// --- ORDER PROCESSING ---
+// Bulk versions: one simulated round trip no matter how many ids
+async function fetchUsers(userIds: readonly number[]): Promise<(User | null)[]> {
+  await new Promise((resolve) => setTimeout(resolve, 100));
+  return Promise.all(userIds.map((id) => users.findById(id)));
+}
 
-function calculateDiscount(user: User, subtotal: number): number {
-  // TypeScript catches: user.teir ❌ Property 'teir' does not exist
-  if (user.tier === "premium") {  // ✅ Correct property name
-    return subtotal * 0.1;
-  }
-  if (user.tier === "enterprise") {
-    return subtotal * 0.2;
-  }
-  return 0;
+async function fetchProducts(productIds: readonly number[]): Promise<(Product | null)[]> {
+  await new Promise((resolve) => setTimeout(resolve, 100));
+  return Promise.all(productIds.map((id) => products.findById(id)));
+}
+
+interface OrderLoaders {
+  users: DataLoader<number, User>;
+  products: DataLoader<number, Product>;
+}
+
+function createOrderLoaders(): OrderLoaders {
+  return {
+    users: new DataLoader(fetchUsers),
+    products: new DataLoader(fetchProducts),
+  };
 }
 
-function calculateTax(subtotal: number): number {
-  return subtotal * 0.08;
+async function listUsers(): Promise<User[]> {
+  return users.findAll();
+}
+
+async function listProducts(): Promise<(Product & { available: number })[]> {
+  const all = await products.findAll();
+  await catchUpStock();
+  return all.map((product) => ({ ...product, available: inventory.available(product.id) }));
+}
+
+async function fetchOrder(orderId: OrderId): Promise<Order | null> {
+  return orders.findById(orderId);
 }
 
 // --- RESULT TYPE FOR ERROR HANDLING ---
@@ -101,108 +937,1015 @@ interface CreateOrderSuccess {
 
 interface CreateOrderError {
   success: false;
-  error: string;
+  errors: NonEmptyArray<CreateOrderProblem>;  // branch on errors[0].code, not on English
 }
 
 type CreateOrderResult = CreateOrderSuccess | CreateOrderError;
 
+function createOrderFailure(problems: CreateOrderProblem[], collectAll: boolean): CreateOrderError {
+  const [first, ...rest] = problems;
+  if (first === undefined) {
+    throw new Error("createOrderFailure needs at least one problem");
+  }
+  return { success: false, errors: collectAll ? [first, ...rest] : [first] };
+}
+
+// --- ORDER PROCESSING ---
+
 async function createOrder(
   userId: number,
-  items: CreateOrderItem[]
+  items: CreateOrderItem[],
+  options: CreateOrderOptions = {}
 ): Promise<CreateOrderResult> {
-  // Fetch user with proper null handling
-  const user = await fetchUser(userId);
+  const { idempotencyKey } = options;
+  if (idempotencyKey === undefined) {
+    return placeOrder(userId, items, options);
+  }
+  
+  // Everything that changes the outcome - but not `loaders`, which only changes speed
+  const fingerprint = JSON.stringify({
+    userId,
+    items: items.map((item) => [item.productId, item.quantity]),
+    couponCodes: options.couponCodes ?? [],
+    shippingAddressId: options.shippingAddressId ?? null,
+    shippingMethodId: options.shippingMethodId ?? null,
+    jurisdiction: options.jurisdiction ?? null,
+    currency: options.currency ?? null,
+    expectedTotal: options.expectedTotal ?? null,
+    validation: options.validation ?? "fail-fast",
+  });
+  
+  const outcome = await idempotencyStore.run(idempotencyKey, fingerprint, () =>
+    placeOrder(userId, items, options)
+  );
+  
+  if (outcome.status === "conflict") {
+    return { success: false, errors: [{ code: "IDEMPOTENCY_CONFLICT", idempotencyKey }] };
+  }
+  return outcome.result;
+}
+
+// Everything an order has before it is placed: priced, but no id, no
+// status, no stock held and no payment yet
+type OrderDraft = Omit<
+  Order,
+  "id" | "version" | "status" | "statusHistory" | "payment" | "refunds" | "createdAt"
+>;
+
+type DraftOrderResult = { success: true; draft: OrderDraft } | CreateOrderError;
+
+function toOutOfStock(items: OrderItem[], shortage: InsufficientStock): OutOfStock {
+  return {
+    code: "OUT_OF_STOCK",
+    ...shortage,
+    productName: items.find((line) => line.product.id === shortage.productId)?.product.name ?? "",
+  };
+}
+
+function stockLinesOf(items: OrderItem[]): { productId: number; quantity: number }[] {
+  return items.map((line) => ({ productId: line.product.id, quantity: line.quantity }));
+}
+
+/** Run the discount rules over `lines`, recording each line's share on it. */
+function applyDiscounts(
+  lines: OrderItem[],
+  context: Omit<PricingContext, "lines">,
+  engine: PricingEngine = pricingEngine
+): PricingResult {
+  const pricing = engine.price({ ...context, lines });
+  lines.forEach((line, index) => {
+    line.discounts = pricing.lineDiscounts[index];
+    line.discount = addMoney(...line.discounts.map((d) => d.amount));
+  });
+  return pricing;
+}
+
+function taxableLines(lines: OrderItem[]): TaxableLine[] {
+  return lines.map((line) => ({
+    productId: line.product.id,
+    category: line.product.taxCategory,
+    amount: subtractMoney(line.total, line.discount),
+  }));
+}
+
+function orderTotal(discounted: Money, shippingCost: Money, breakdown: TaxBreakdown): Money {
+  const charged = addMoney(discounted, shippingCost);
+  // Tax-inclusive prices already contain the tax, so only add it on top otherwise
+  return breakdown.pricesIncludeTax ? charged : addMoney(charged, breakdown.totalTax);
+}
+
+/**
+ * Validate and price an order without placing it: nothing is reserved or
+ * saved. Carts use this to show a live total; placeOrder builds on it.
+ */
+async function draftOrder(
+  userId: number,
+  items: CreateOrderItem[],
+  options: CreateOrderOptions = {}
+): Promise<DraftOrderResult> {
+  // "fail-fast" reports the first problem; "collect-all" reports every one
+  const collectAll = options.validation === "collect-all";
+  const problems: CreateOrderProblem[] = [];
+  
+  // Cheap input checks first - no lookups needed
+  if (items.length === 0) {
+    problems.push({ code: "EMPTY_ORDER" });
+  }
+  items.forEach((item, itemIndex) => {
+    if (!isValidQuantity(item.quantity)) {
+      problems.push({ code: "INVALID_QUANTITY", itemIndex, productId: item.productId, quantity: item.quantity });
+    }
+  });
+  if (!collectAll && problems.length > 0) return createOrderFailure(problems, collectAll);
+  
+  // User and every product load in parallel: one batched round trip each,
+  // with duplicate product ids fetched once
+  const loaders = options.loaders ?? createOrderLoaders();
+  const [user, fetchedProducts] = await Promise.all([
+    loaders.users.load(userId),
+    loaders.products.loadMany(items.map((item) => item.productId)),
+  ]);
   
+  // Proper null handling
   if (user === null) {
-    return { success: false, error: `User ${userId} not found` };
+    problems.push({ code: "USER_NOT_FOUND", userId });
+    if (!collectAll) return createOrderFailure(problems, collectAll);
   }
   
-  // TypeScript knows user is User here (not null)
-  console.log(`Creating order for ${user.name}...`);
+  // Ship to the chosen address, or the user's default
+  let shippingAddress: Address | undefined;
+  if (user !== null) {
+    const addressId = options.shippingAddressId ?? user.defaultAddressId;
+    shippingAddress = user.addresses.find((address) => address.id === addressId);
+    if (shippingAddress === undefined) {
+      problems.push({ code: "ADDRESS_NOT_FOUND", userId, addressId });
+      if (!collectAll) return createOrderFailure(problems, collectAll);
+    }
+  }
+  
+  const shippingMethodId = options.shippingMethodId ?? "standard";
+  if (shippingCalculator.getMethod(shippingMethodId) === undefined) {
+    problems.push({ code: "SHIPPING_METHOD_NOT_FOUND", shippingMethodId });
+    if (!collectAll) return createOrderFailure(problems, collectAll);
+  }
+  
+  // Everything on the order is charged in one currency. Without a user the
+  // order fails anyway, so the fallback only keeps the loop simple.
+  const currency = options.currency ?? user?.currency ?? defaultExchangeRates.base;
+  const exchangeRates = new Map<CurrencyCode, ExchangeRate>();
+  const toOrderCurrency = (amount: Money, from: CurrencyCode): Money => {
+    const rate = getExchangeRate(defaultExchangeRates, from, currency);
+    if (rate.from !== rate.to) exchangeRates.set(from, rate);
+    return convertMoney(amount, rate);
+  };
   
   // Process items
-  let subtotal = 0;
+  let subtotal = zero();
   const orderItems: OrderItem[] = [];
   
-  for (const item of items) {
-    const product = await fetchProduct(item.productId);
+  for (const [itemIndex, item] of items.entries()) {
+    const product = fetchedProducts[itemIndex];
     
-    // Proper null and stock checking
+    // Proper null checking (stock is checked once all lines are known)
     if (product === null) {
-      return { success: false, error: `Product ${item.productId} not found` };
+      problems.push({ code: "PRODUCT_NOT_FOUND", itemIndex, productId: item.productId });
+      if (!collectAll) return createOrderFailure(problems, collectAll);
+      continue;
     }
     
-    if (!product.inStock) {
-      return { success: false, error: `Product ${product.name} is out of stock` };
+    if (!isValidQuantity(item.quantity)) {
+      continue;  // already reported above
     }
     
-    const itemTotal = product.price * item.quantity;
-    subtotal += itemTotal;
+    // Convert the unit price once, then multiply: every unit costs the same
+    const unitPrice = toOrderCurrency(product.price, product.currency);
+    const itemTotal = multiplyMoney(unitPrice, item.quantity);
+    subtotal = addMoney(subtotal, itemTotal);
     
     orderItems.push({
       product,
       quantity: item.quantity,  // ✅ Correct property from typed input
+      unitPrice,
       total: itemTotal,
+      discount: zero(),
+      discounts: [],
     });
   }
   
-  // Calculate totals
-  const discount = calculateDiscount(user, subtotal);
-  const tax = calculateTax(subtotal - discount);
-  const total = subtotal - discount + tax;
+  const jurisdiction = options.jurisdiction ?? shippingAddress?.jurisdiction;
+  if (jurisdiction !== undefined && !(jurisdiction in defaultTaxRates.jurisdictions)) {
+    problems.push({ code: "UNKNOWN_JURISDICTION", jurisdiction });
+  }
+  
+  // Already failing: report stock problems too, but don't reserve anything
+  if (problems.length > 0 || user === null || shippingAddress === undefined || jurisdiction === undefined) {
+    await catchUpStock();
+    problems.push(...inventory.check(stockLinesOf(orderItems)).map((s) => toOutOfStock(orderItems, s)));
+    return createOrderFailure(problems, collectAll);
+  }
+  
+  // Calculate totals - the pricing engine records which rules fired
+  const pricing = applyDiscounts(orderItems, {
+    user,  // TypeScript knows user is User here (not null)
+    couponCodes: options.couponCodes ?? [],
+    now: clock.now(),
+    convert: toOrderCurrency,  // fixed-amount coupons are priced in their own currency
+  });
+  
+  const discount = pricing.totalDiscount;
+  const discounted = subtractMoney(subtotal, discount);
+  
+  // Free-shipping thresholds look at what the goods cost after discounts
+  const quoted = shippingCalculator.quote(shippingMethodId, {
+    lines: orderItems,
+    address: shippingAddress,
+    tier: user.tier,
+    merchandiseTotal: discounted,
+    convert: toOrderCurrency,
+  });
+  
+  if (!quoted.success) {
+    return { success: false, errors: [quoted.error] };
+  }
+  
+  const shipping = quoted.quote;
+  
+  // Tax each line by the ship-to jurisdiction and the product's tax category;
+  // shipping by the jurisdiction's shipping rule
+  const taxed = calculateTax(defaultTaxRates, jurisdiction, taxableLines(orderItems), shipping.cost);
+  
+  if (!taxed.success) {
+    return { success: false, errors: [taxed.error] };
+  }
+  
+  const tax = taxed.breakdown.totalTax;
+  const total = orderTotal(discounted, shipping.cost, taxed.breakdown);
+  // const total = subtotal - discount + shipping.cost + tax;
+  // ❌ Error: Type 'number' is not assignable to type 'Money'
+  
+  return {
+    success: true,
+    draft: {
+      user,
+      items: orderItems,
+      currency,
+      locale: user.locale,  // a German customer paying in USD still reads "1.234,56 $"
+      exchangeRates: [...exchangeRates.values()],
+      subtotal,
+      discount,
+      discounts: pricing.discounts,
+      shippingAddress,
+      shipping,
+      jurisdiction,
+      tax,
+      taxBreakdown: taxed.breakdown,
+      total,
+      pricedWith: {
+        rules: pricingEngine.listRules().filter((rule) => pricing.discounts.some((d) => d.ruleId === rule.id)),
+        taxRates: defaultTaxRates.jurisdictions[jurisdiction],
+      },
+    },
+  };
+}
+
+async function placeOrder(
+  userId: number,
+  items: CreateOrderItem[],
+  options: CreateOrderOptions
+): Promise<CreateOrderResult> {
+  const collectAll = options.validation === "collect-all";
+  const drafted = await draftOrder(userId, items, options);
+  if (!drafted.success) {
+    return drafted;
+  }
+  const { draft } = drafted;
+  
+  // Priced differently from what the caller agreed to: let them look again
+  const { expectedTotal } = options;
+  if (expectedTotal !== undefined && draft.total !== expectedTotal) {
+    return {
+      success: false,
+      errors: [{ code: "TOTAL_CHANGED", currency: draft.currency, expectedTotal, actualTotal: draft.total }],
+    };
+  }
+  
+  const orderId = await orderIds.next();
+  
+  // Reserve stock for every line at once, under the order's id. reserve()
+  // is synchronous, so a concurrent createOrder cannot claim the same
+  // units in between.
+  await catchUpStock();
+  const reserved = inventory.reserve(orderId, stockLinesOf(draft.items));
+  
+  if (!reserved.success) {
+    return createOrderFailure(reserved.shortages.map((s) => toOutOfStock(draft.items, s)), collectAll);
+  }
+  
+  // Hold the money before the order exists: a refused card leaves no order
+  // behind and gives the stock back
+  const authorized = await payments.authorize(orderId, draft.total, draft.currency);
+  if (!authorized.success) {
+    inventory.release(reserved.reservation.id);
+    // Authorizing only ever fails with a decline or a timeout
+    const { error } = authorized;
+    if (error.code === "PAYMENT_TIMEOUT") {
+      // The hold may have gone through and only the answer was late: a
+      // retry gets a new order id, so release this one now or it stays on the card
+      await payments.voidUnanswered(orderId, authorized.payment);
+    }
+    return {
+      success: false,
+      errors: [error.code === "PAYMENT_DECLINED" ? { code: "PAYMENT_DECLINED", reason: error.reason } : { code: "PAYMENT_TIMEOUT" }],
+    };
+  }
   
   // Create order with proper typing
+  const createdAt = clock.now();
   const order: Order = {
-    id: orders.length + 1,
-    user,
-    items: orderItems,
-    subtotal,
-    discount,
-    tax,
-    total,
+    ...draft,
+    id: orderId,
+    version: 1,
     status: "pending",  // ✅ Must be valid OrderStatus
-    createdAt: new Date(),
+    statusHistory: [{ from: null, to: "pending", at: createdAt, reason: "Order created" }],
+    payment: authorized.payment,
+    refunds: [],
+    createdAt,
   };
   
-  orders.push(order);
+  // Another process (the CLI next to the server) may have placed an order
+  // with this id since it was handed out, or taken the same units. The
+  // check runs on the log as it is when the order is appended, so refuse
+  // rather than overwrite that order or sell its stock twice.
+  let shortages: InsufficientStock[] = [];
+  let saved = false;
+  try {
+    saved = await orders.saveIf(order, (current, all) => {
+      if (current !== null) return false;
+      syncStock(all);
+      shortages = inventory.shortages(reserved.reservation.id);
+      return shortages.length === 0;
+    });
+  } finally {
+    if (!saved) {
+      inventory.release(reserved.reservation.id);  // don't strand the stock
+      await payments.void(orderId, authorized.payment);  // ...or the money
+    }
+  }
+  if (!saved) {
+    if (shortages.length > 0) {
+      return createOrderFailure(shortages.map((s) => toOutOfStock(draft.items, s)), collectAll);
+    }
+    throw new Error(`Order id ${orderId} was taken by another process - please retry`);
+  }
+  
+  await orderEvents.publish("OrderCreated", { order });
   return { success: true, order };
 }
 
 // --- ORDER STATUS UPDATE ---
 
-function updateOrderStatus(orderId: number, newStatus: OrderStatus): Order | null {
-  const order = orders.find((o) => o.id === orderId);
+function versionConflict(
+  orderId: OrderId,
+  expectedVersion: number,
+  actualVersion: number | null
+): UpdateOrderStatusResult {
+  return { success: false, error: { code: "VERSION_CONFLICT", orderId, expectedVersion, actualVersion } };
+}
+
+async function updateOrderStatus(
+  orderId: OrderId,
+  newStatus: OrderStatus,
+  options: UpdateOrderStatusOptions = {}
+): Promise<UpdateOrderStatusResult> {
+  const { reason, expectedVersion } = options;
+  const order = await orders.findById(orderId);
   
   if (!order) {
-    return null;
+    return { success: false, error: { code: "ORDER_NOT_FOUND", orderId } };
+  }
+  
+  // The caller decided based on an older copy: don't silently overwrite
+  if (expectedVersion !== undefined && order.version !== expectedVersion) {
+    return versionConflict(orderId, expectedVersion, order.version);
   }
   
   // newStatus is typed! Only valid statuses allowed.
-  // updateOrderStatus(1, "banana") ❌ Error!
-  order.status = newStatus;  // ✅ Correct property name enforced
+  // updateOrderStatus("1", "banana") ❌ Error!
+  // The lifecycle table then rejects illegal moves like "delivered" → "pending"
+  const from = order.status;
+  const loadedVersion = order.version;
+  const result = transitionOrder(order, newStatus, reason, clock.now());
   
-  return order;
+  if (result.success) {
+    // Compare-and-save: if another update landed since findById, ours loses
+    // instead of clobbering it (and the payment is not released twice)
+    order.version = loadedVersion + 1;
+    const saved = await orders.saveIf(order, (current) => current?.version === loadedVersion);
+    if (!saved) {
+      const current = await orders.findById(orderId);
+      return versionConflict(orderId, expectedVersion ?? loadedVersion, current?.version ?? null);
+    }
+    
+    // Stock follows the saved status: the next catchUpStock() gives a
+    // cancelled order's units back, or takes a shipped one's off the shelf
+    let updated = order;
+    if (newStatus === "cancelled") {
+      // The order stays cancelled even if the gateway fails; the payment
+      // then shows what is still held, and releasePayment can be retried
+      const released = await releasePayment(orderId);
+      if (released.success) {
+        updated = released.order;
+      }
+    }
+    
+    await orderEvents.publish("OrderStatusChanged", { order: updated, from, to: newStatus, reason });
+    if (newStatus === "shipped") {
+      await orderEvents.publish("OrderShipped", { order: updated });
+    } else if (newStatus === "delivered") {
+      await orderEvents.publish("OrderDelivered", { order: updated });
+    } else if (newStatus === "cancelled") {
+      await orderEvents.publish("OrderCancelled", { order: updated, reason });
+    }
+    return { success: true, order: updated };
+  }
+  
+  return result;
 }
 
-// --- RENDER OUTPUT ---
+// --- PAYMENTS ---
+
+const paymentLocks = new Map<OrderId, Promise<unknown>>();
+
+// One payment operation per order at a time, so two captures can't both
+// see the same amount still to capture
+function withPaymentLock<T>(orderId: OrderId, task: () => Promise<T>): Promise<T> {
+  const run = (paymentLocks.get(orderId) ?? Promise.resolve()).then(task);
+  const settled = run.catch(() => undefined);
+  paymentLocks.set(orderId, settled);
+  void settled.then(() => {
+    if (paymentLocks.get(orderId) === settled) paymentLocks.delete(orderId);
+  });
+  return run;
+}
+
+// The gateway has already acted, so the record must not lose to a
+// concurrent status change: re-read and re-apply until it lands. Only
+// payment code writes `payment`, and the lock keeps that to one at a time.
+async function savePayment(order: Order, payment: OrderPayment): Promise<Order> {
+  let current: Order | null = order;
+  while (current !== null) {
+    const loadedVersion = current.version;
+    const updated: Order = { ...current, payment, version: loadedVersion + 1 };
+    if (await orders.saveIf(updated, (stored) => stored?.version === loadedVersion)) {
+      return updated;
+    }
+    current = await orders.findById(order.id);
+  }
+  throw new Error(`Order ${order.id} was deleted while recording its payment`);
+}
+
+async function changePayment(
+  orderId: OrderId,
+  change: (order: Order) => Promise<PaymentUpdate>
+): Promise<PaymentResult> {
+  return withPaymentLock(orderId, async () => {
+    const order = await orders.findById(orderId);
+    if (!order) {
+      return { success: false, error: { code: "ORDER_NOT_FOUND", orderId } };
+    }
+    
+    const update = await change(order);
+    // Declined and timed-out attempts are recorded too; only requests
+    // refused before reaching the gateway leave the order untouched
+    const saved = update.payment === order.payment ? order : await savePayment(order, update.payment);
+    return update.success
+      ? { success: true, order: saved }
+      : { success: false, error: { ...update.error, orderId } };
+  });
+}
+
+/** Take `amount` of the held money (default: all of it). Needed before shipping. */
+async function capturePayment(orderId: OrderId, amount?: Money): Promise<PaymentResult> {
+  return changePayment(orderId, (order) => payments.capture(orderId, order.payment, amount));
+}
 
-function renderOrderSummary(order: Order): void {
-  console.log("\n========== ORDER SUMMARY ==========");
-  console.log(`Order #${order.id}`);
-  console.log(`Customer: ${order.user.name} (${order.user.email})`);  // ✅ Correct!
-  console.log(`Status: ${order.status}`);
+/** Give back `amount` of the captured money (default: all of it). */
+async function refundPayment(orderId: OrderId, amount?: Money): Promise<PaymentResult> {
+  return changePayment(orderId, (order) => payments.refund(orderId, order.payment, amount));
+}
+
+/**
+ * Give `amount` back (default: everything): first by dropping what is
+ * still held, then by refunding what was captured. A no-op if neither.
+ */
+async function releasePayment(orderId: OrderId, amount?: Money): Promise<PaymentResult> {
+  return changePayment(orderId, async (order) => {
+    let { payment } = order;
+    const held =
+      payment.status === "authorized" || payment.status === "partially-captured"
+        ? subtractMoney(payment.authorized, payment.captured)
+        : zero();
+    const refundable = subtractMoney(payment.captured, payment.refunded);
+    let left = amount ?? addMoney(held, refundable);
+    
+    const toVoid = left < held ? left : held;
+    if (toVoid > 0) {
+      const voided = await payments.void(orderId, payment, toVoid);
+      if (!voided.success) return voided;
+      payment = voided.payment;
+      left = subtractMoney(left, toVoid);
+    }
+    
+    const toRefund = left < refundable ? left : refundable;
+    return toRefund > 0 ? payments.refund(orderId, payment, toRefund) : { success: true, payment };
+  });
+}
+
+// --- REFUNDS ---
+
+type OrderPricing = Pick<
+  Order,
+  "items" | "subtotal" | "discount" | "discounts" | "shipping" | "tax" | "taxBreakdown" | "total"
+>;
+
+type RepriceResult =
+  | { success: true; pricing: OrderPricing }
+  | { success: false; error: Extract<RefundError, { code: "UNKNOWN_JURISDICTION" }> };
+
+/**
+ * Price what is left of an order the way it was priced when placed: the
+ * recorded unit prices, exchange rates, tax rates and the rules that
+ * fired then, as of `createdAt`. Shipping stays as quoted - the parcel
+ * still goes out - unless nothing is left to ship.
+ */
+function repriceOrder(order: Order, items: OrderItem[]): RepriceResult {
+  const { rules, taxRates } = order.pricedWith;
+  if (taxRates === null) {
+    return { success: false, error: { code: "UNKNOWN_JURISDICTION", orderId: order.id, jurisdiction: order.jurisdiction } };
+  }
+  
+  const lines: OrderItem[] = items.map((item) => ({
+    ...item,
+    total: multiplyMoney(item.unitPrice, item.quantity),
+    discount: zero(),
+    discounts: [],
+  }));
+  
+  const fired = order.discounts.map((d) => d.ruleId);
+  const couponCodes = rules.flatMap((rule) => (rule.kind === "coupon" && fired.includes(rule.id) ? [rule.code] : []));
+  const pricing = applyDiscounts(
+    lines,
+    {
+      user: order.user,
+      couponCodes,
+      now: order.createdAt,
+      convert: (amount, from) =>
+        from === order.currency
+          ? amount
+          : convertMoney(
+              amount,
+              order.exchangeRates.find((rate) => rate.from === from) ??
+                getExchangeRate(defaultExchangeRates, from, order.currency)
+            ),
+      ruleIds: fired,
+    },
+    new PricingEngine(rules)
+  );
+  
+  const subtotal = addMoney(...lines.map((line) => line.total));
+  const discounted = subtractMoney(subtotal, pricing.totalDiscount);
+  const shipping = lines.length > 0 ? order.shipping : { ...order.shipping, cost: zero() };
+  const rateTable = { jurisdictions: { [order.jurisdiction]: taxRates } };
+  const taxed = calculateTax(rateTable, order.jurisdiction, taxableLines(lines), shipping.cost);
+  if (!taxed.success) {
+    return { success: false, error: { ...taxed.error, orderId: order.id } };
+  }
+  
+  return {
+    success: true,
+    pricing: {
+      items: lines,
+      subtotal,
+      discount: pricing.totalDiscount,
+      discounts: pricing.discounts,
+      shipping,
+      tax: taxed.breakdown.totalTax,
+      taxBreakdown: taxed.breakdown,
+      total: orderTotal(discounted, shipping.cost, taxed.breakdown),
+    },
+  };
+}
+
+/**
+ * Take `items` (product + quantity) off an order and give the difference
+ * back. Before shipping the units go back to stock ("cancellation");
+ * after, they were sent back ("return"). Discounts and tax are recomputed
+ * for what is left, and the change is kept as an immutable OrderRefund.
+ */
+async function refundOrderItems(
+  orderId: OrderId,
+  items: RefundItem[],
+  options: RefundOrderItemsOptions = {}
+): Promise<RefundOrderItemsResult> {
+  const { reason, expectedVersion } = options;
+  const order = await orders.findById(orderId);
+  
+  if (!order) {
+    return { success: false, error: { code: "ORDER_NOT_FOUND", orderId } };
+  }
+  if (expectedVersion !== undefined && order.version !== expectedVersion) {
+    return {
+      success: false,
+      error: { code: "VERSION_CONFLICT", orderId, expectedVersion, actualVersion: order.version },
+    };
+  }
+  
+  const kind = refundKind(order.status);
+  if (kind === null) {
+    return { success: false, error: { code: "ORDER_NOT_REFUNDABLE", orderId, status: order.status } };
+  }
+  const invalid = checkRefundItems(order, items);
+  if (invalid !== null) {
+    return { success: false, error: invalid };
+  }
   
-  console.log("\nItems:");
-  for (const item of order.items) {
-    // TypeScript knows item.quantity exists and is a number
-    console.log(`  - ${item.product.name} x${item.quantity} = $${item.total.toFixed(2)}`);
+  const remaining = removeRefundedUnits(order.items, items);
+  if (kind === "cancellation" && remaining.length === 0) {
+    return { success: false, error: { code: "CANCELS_WHOLE_ORDER", orderId } };
   }
   
-  console.log(`\nSubtotal: $${order.subtotal.toFixed(2)}`);
-  console.log(`Discount: -$${order.discount.toFixed(2)}`);
-  console.log(`Tax: $${order.tax.toFixed(2)}`);
-  console.log(`Total: $${order.total.toFixed(2)}`);
-  console.log("====================================\n");
+  const repriced = repriceOrder(order, remaining);
+  if (!repriced.success) {
+    return { success: false, error: repriced.error };
+  }
+  
+  const before = orderAmounts(order);
+  const updated: Order = { ...order, ...repriced.pricing, version: order.version + 1 };
+  const after = orderAmounts(updated);
+  const raised = checkRefundAmounts(order, before, after);
+  if (raised !== null) {
+    return { success: false, error: raised };
+  }
+  const refund: OrderRefund = {
+    id: order.refunds.length + 1,
+    kind,
+    lines: refundedLines(order, items),
+    reason,
+    before,
+    after,
+    amount: refundAmount(before, after),
+    at: clock.now(),
+  };
+  updated.refunds = [...order.refunds, refund];
+  
+  // Cancelled units stop being held once this is saved: stock follows the order's items
+  const saved = await orders.saveIf(updated, (current) => current?.version === order.version);
+  if (!saved) {
+    const current = await orders.findById(orderId);
+    return {
+      success: false,
+      error: {
+        code: "VERSION_CONFLICT",
+        orderId,
+        expectedVersion: expectedVersion ?? order.version,
+        actualVersion: current?.version ?? null,
+      },
+    };
+  }
+  
+  // Money last, like a whole-order cancellation: if the gateway fails the
+  // refund stays recorded and the payment shows what is still to give back
+  let result = updated;
+  if (refund.amount > 0) {
+    const released = await releasePayment(orderId, refund.amount);
+    if (released.success) {
+      result = released.order;
+    }
+  }
+  
+  await orderEvents.publish("OrderItemsRefunded", { order: result, refund });
+  return { success: true, order: result, refund };
+}
+
+// --- CARTS ---
+
+function cartFailure(error: CartError): { success: false; error: CartError } {
+  return { success: false, error };
+}
+
+/** The stored cart plus a live price: today's products, rules and stock. */
+async function viewCart(cart: Cart): Promise<CartView> {
+  const loaders = createOrderLoaders();
+  const items = cart.lines.map(({ productId, quantity }) => ({ productId, quantity }));
+  const [current, pricing] = await Promise.all([
+    loaders.products.loadMany(cart.lines.map((line) => line.productId)),
+    draftOrder(cart.id, items, {
+      couponCodes: cart.couponCodes,
+      shippingAddressId: cart.shippingAddressId,
+      shippingMethodId: cart.shippingMethodId,
+      currency: cart.currency,
+      validation: "collect-all",
+      loaders,  // the products load once for both
+    }),
+  ]);
+  // Stock is only held at checkout, so this is a warning, not a promise
+  await catchUpStock();
+  const shortages = pricing.success
+    ? inventory.check(stockLinesOf(pricing.draft.items)).map((s) => toOutOfStock(pricing.draft.items, s))
+    : [];
+  return {
+    cart,
+    expiresAt: cartExpiresAt(cart, CART_TTL_MS),
+    priceChanges: findPriceChanges(cart.lines, current),
+    shortages,
+    pricing,
+  };
+}
+
+/**
+ * Load-change-save with compare-and-save. Cart edits don't depend on what
+ * the shopper saw, so on a conflict the change is simply re-applied to the
+ * fresh cart (a few times) instead of being reported.
+ */
+async function changeCart(
+  userId: number,
+  change: (cart: Cart) => CartError | null
+): Promise<CartResult> {
+  if ((await fetchUser(userId)) === null) {
+    return cartFailure({ code: "USER_NOT_FOUND", userId });
+  }
+  
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const now = clock.now();
+    const stored = await carts.findById(userId);
+    const storedVersion = stored?.version ?? null;
+    // An expired cart is replaced by a fresh one rather than revived
+    const cart: Cart =
+      stored !== null && !isCartExpired(stored, CART_TTL_MS, now)
+        ? stored
+        : { id: userId, version: 0, status: "open", lines: [], createdAt: now, updatedAt: now };
+    
+    if (cart.status !== "open") {
+      return cartFailure({ code: "CART_LOCKED", userId });
+    }
+    
+    const error = change(cart);
+    if (error !== null) {
+      return cartFailure(error);
+    }
+    
+    cart.version += 1;
+    cart.updatedAt = now;
+    if (await carts.saveIf(cart, (current) => (current?.version ?? null) === storedVersion)) {
+      return { success: true, view: await viewCart(cart) };
+    }
+  }
+  return cartFailure({ code: "CART_VERSION_CONFLICT", userId });
+}
+
+async function getCart(userId: number): Promise<CartResult> {
+  const cart = await carts.findById(userId);
+  if (cart === null) {
+    return cartFailure({ code: "CART_NOT_FOUND", userId });
+  }
+  if (isCartExpired(cart, CART_TTL_MS, clock.now())) {
+    await carts.delete(userId);
+    return cartFailure({ code: "CART_EXPIRED", userId, expiredAt: cartExpiresAt(cart, CART_TTL_MS) });
+  }
+  return { success: true, view: await viewCart(cart) };
+}
+
+async function addToCart(userId: number, productId: number, quantity: number): Promise<CartResult> {
+  if (!isValidQuantity(quantity)) {
+    return cartFailure({ code: "INVALID_QUANTITY", productId, quantity });
+  }
+  const product = await fetchProduct(productId);
+  if (product === null) {
+    return cartFailure({ code: "PRODUCT_NOT_FOUND", productId });
+  }
+  return changeCart(userId, (cart) => {
+    cart.lines = addCartLine(cart.lines, product, quantity, clock.now());
+    return null;
+  });
+}
+
+/** Set a line's quantity; 0 removes it. */
+async function updateCartItem(userId: number, productId: number, quantity: number): Promise<CartResult> {
+  if (quantity !== 0 && !isValidQuantity(quantity)) {
+    return cartFailure({ code: "INVALID_QUANTITY", productId, quantity });
+  }
+  return changeCart(userId, (cart) => {
+    const lines = setCartLineQuantity(cart.lines, productId, quantity);
+    if (lines === null) {
+      return { code: "CART_ITEM_NOT_FOUND", userId, productId };
+    }
+    cart.lines = lines;
+    return null;
+  });
+}
+
+async function removeFromCart(userId: number, productId: number): Promise<CartResult> {
+  return updateCartItem(userId, productId, 0);
+}
+
+/** Coupons, address, shipping method and currency; undefined leaves a choice as it is. */
+async function setCartOptions(userId: number, options: CartOptions): Promise<CartResult> {
+  return changeCart(userId, (cart) => {
+    cart.couponCodes = options.couponCodes ?? cart.couponCodes;
+    cart.shippingAddressId = options.shippingAddressId ?? cart.shippingAddressId;
+    cart.shippingMethodId = options.shippingMethodId ?? cart.shippingMethodId;
+    cart.currency = options.currency ?? cart.currency;
+    return null;
+  });
+}
+
+interface CheckoutCartOptions {
+  expectedTotal?: Money;  // the total the shopper was shown; a different one → TOTAL_CHANGED
+}
+
+/**
+ * Turn the cart into an order, all or nothing:
+ * 1. lock it (compare-and-save), so edits and a second checkout are refused
+ * 2. place the order from the locked lines
+ * 3. on success delete the cart; on failure unlock it unchanged
+ */
+async function checkoutCart(userId: number, options: CheckoutCartOptions = {}): Promise<CheckoutCartResult> {
+  const cart = await carts.findById(userId);
+  if (cart === null) {
+    return cartFailure({ code: "CART_NOT_FOUND", userId });
+  }
+  if (isCartExpired(cart, CART_TTL_MS, clock.now())) {
+    await carts.delete(userId);
+    return cartFailure({ code: "CART_EXPIRED", userId, expiredAt: cartExpiresAt(cart, CART_TTL_MS) });
+  }
+  if (cart.status !== "open") {
+    return cartFailure({ code: "CART_LOCKED", userId });
+  }
+  
+  const locked: Cart = { ...cart, status: "checking-out", version: cart.version + 1 };
+  if (!(await carts.saveIf(locked, (current) => current?.version === cart.version))) {
+    const current = await carts.findById(userId);
+    return cartFailure({ code: current?.status === "checking-out" ? "CART_LOCKED" : "CART_VERSION_CONFLICT", userId });
+  }
+  const unlock = () =>
+    carts.saveIf(
+      { ...cart, version: locked.version + 1 },
+      (current) => current?.version === locked.version
+    );
+  
+  let result: CreateOrderResult;
+  try {
+    result = await createOrder(
+      userId,
+      cart.lines.map(({ productId, quantity }) => ({ productId, quantity })),
+      {
+        couponCodes: cart.couponCodes,
+        shippingAddressId: cart.shippingAddressId,
+        shippingMethodId: cart.shippingMethodId,
+        currency: cart.currency,
+        expectedTotal: options.expectedTotal,
+        validation: "collect-all",
+      }
+    );
+  } catch (error) {
+    await unlock();
+    throw error;
+  }
+  
+  if (!result.success) {
+    await unlock();
+    return cartFailure({ code: "CHECKOUT_FAILED", userId, problems: result.errors });
+  }
+  
+  await carts.delete(userId);
+  return { success: true, order: result.order };
+}
+
+/**
+ * Drop every expired cart. Also clears carts stuck in "checking-out" by a
+ * crash, since those stop being touched too. Returns how many were removed.
+ */
+async function purgeExpiredCarts(now: Date = clock.now()): Promise<number> {
+  const expired = await carts.findWhere((cart) => isCartExpired(cart, CART_TTL_MS, now));
+  await Promise.all(expired.map((cart) => carts.delete(cart.id)));
+  return expired.length;
+}
+
+// --- NOTIFICATIONS ---
+
+// How far this process has relayed the order log into the outbox. It
+// starts at the top on every start: emails already there are skipped by id.
+let relayedTo = 0;
+
+/**
+ * Copy the emails recorded in the order log into the outbox. They are
+ * logged in the same append as the change that sends them, so a crash
+ * right after saving an order can't lose its email: whichever process
+ * relays next - the server's dispatcher, or `outbox dispatch` - picks it
+ * up. Returns how many were new to the outbox.
+ */
+async function relayNotifications(): Promise<number> {
+  const from = relayedTo;
+  const entries = await orders.entriesFrom(from);
+  const queued = new Set((await notificationOutbox.list()).map((message) => message.id));
+  let relayed = 0;
+  for (const entry of entries) {
+    if (entry.type === "NotificationQueued" && !queued.has(entry.email.id) && (await notificationOutbox.enqueue(entry.email))) {
+      relayed += 1;
+    }
+  }
+  relayedTo = Math.max(relayedTo, from + entries.length);
+  return relayed;
+}
+
+/** Relay whatever the log holds that the outbox doesn't, then deliver in the background. */
+async function startNotifications(): Promise<void> {
+  await relayNotifications();
+  notificationOutbox.start();
+}
+
+// --- ORDER QUERIES ---
+
+// Dashboards: filter by user/status/date/total, sort by any scalar field,
+// and page with a stable cursor
+async function findOrders(query: OrderQuery = {}): Promise<OrderQueryResult> {
+  return queryOrders(await orders.findAll(), query);
+}
+
+// --- REPORTING ---
+
+// Revenue, AOV, discounts and units per product / tier / period, compared
+// with the period before - see sales-report.ts
+async function getSalesReport(options: SalesReportOptions = {}): Promise<SalesReport> {
+  return buildSalesReport(await orders.findAll(), { clock, ...options });
+}
+
+// --- AUDIT ---
+
+// Every change to an order is an event in the log, so nothing is ever
+// overwritten - see order-event-store.ts
+async function getOrderHistory(orderId: OrderId): Promise<OrderLogEntry[]> {
+  return orders.history(orderId);
+}
+
+// The order as it was after `version` changes, rebuilt by replay
+async function getOrderAtVersion(orderId: OrderId, version: number): Promise<Order | null> {
+  return orders.replay(orderId, version);
+}
+
+// A read model kept up to date from the log, not a scan of every order
+async function getOrdersByStatus(): Promise<Record<OrderStatus, OrderId[]>> {
+  return orders.project(ordersByStatus);
+}
+
+// --- RENDER OUTPUT ---
+
+// Text, Markdown, HTML, JSON and CSV all share one view model
+function renderOrderSummary(order: Order, format: OrderFormat = "text"): void {
+  console.log(`\n${renderOrder(order, format)}\n`);
+}
+
+// --- DEMO WEBHOOK RECEIVER ---
+
+interface DemoReceiver {
+  url: string;
+  secret: string;          // set once subscribed
+  received: string[];      // event types, in arrival order
+  last?: WebhookRequest;
+  close(): Promise<void>;
+}
+
+// Stands in for a partner: checks each signature (on our clock, which the
+// demo fakes) and answers its very first request with a 503
+async function startDemoReceiver(): Promise<DemoReceiver> {
+  let failNext = true;
+  const server = createServer(async (request, response) => {
+    let body = "";
+    for await (const chunk of request) body += chunk;
+    const webhook: WebhookRequest = { body, headers: request.headers };
+    const verified = verifyWebhook(webhook, receiver.secret, { now: clock.now() });
+    if (!verified.valid) {
+      response.writeHead(401).end(verified.reason);
+    } else if (failNext) {
+      failNext = false;
+      response.writeHead(503).end();
+    } else {
+      receiver.last = webhook;
+      receiver.received.push((JSON.parse(body) as { type: string }).type);
+      response.writeHead(204).end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const address = server.address();
+  const port = typeof address === "object" && address !== null ? address.port : 0;
+
+  const receiver: DemoReceiver = {
+    url: `http://127.0.0.1:${port}/hooks/orders`,
+    secret: "",
+    received: [],
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+  return receiver;
 }
 
 // --- MAIN APP FLOW ---
@@ -210,37 +1953,287 @@ function renderOrderSummary(order: Order): void {
 async function main(): Promise<void> {
   console.log("Starting order processing...\n");
   
+  // A tiny "analytics" subscriber - payload types come from the event name.
+  // Orders come in several currencies, so revenue is reported in USD.
+  let revenue: Money<"USD"> = zero();
+  const stopTracking = orderEvents.subscribe("OrderCreated", ({ order }) => {
+    console.log(`[event] Created order #${order.id} for ${order.user.name} (${order.currency})`);
+    const rate = getExchangeRate(defaultExchangeRates, order.currency, "USD");
+    revenue = addMoney(revenue, convertMoney(order.total, rate));
+    // revenue = addMoney(revenue, order.total);
+    // ❌ Error: Argument of type 'Money<"USD">' is not assignable to parameter of type 'Money<CurrencyCode>'
+  });
+  orderEvents.subscribe("OrderStatusChanged", ({ order, from, to }) => {
+    console.log(`[event] Order #${order.id}: ${from} → ${to}`);
+  });
+  
+  // A partner wants to hear about new, shipped and cancelled orders
+  const partner = await startDemoReceiver();
+  const subscribed = await webhooks.subscribe({
+    url: partner.url,
+    events: ["order.created", "order.shipped", "order.cancelled"],
+  });
+  if (subscribed.success) {
+    partner.secret = subscribed.subscription.secret;
+  }
+  // webhooks.subscribe({ url: partner.url, events: ["order.shiped"] });
+  // ...compiles (events come from outside), but returns UNKNOWN_WEBHOOK_EVENT
+  
   // Create an order with proper typed inputs
-  const result = await createOrder(1, [
-    { productId: 101, quantity: 2 },
-    { productId: 102, quantity: 1 },
-  ]);
+  const result = await createOrder(
+    1,
+    [
+      { productId: 101, quantity: 5 },
+      { productId: 102, quantity: 1 },
+    ],
+    { couponCodes: ["WELCOME5"], shippingAddressId: "office", shippingMethodId: "express" }
+  );
   
   // Handle success/error cases
   if (result.success) {
-    renderOrderSummary(result.order);
+    // Walk the order through its lifecycle
+    await updateOrderStatus(result.order.id, "processing", { reason: "Picking items" });
+    
+    // The card was only authorized so far - nothing ships before it's captured
+    const early = await updateOrderStatus(result.order.id, "shipped");
+    if (!early.success) {
+      console.log("Expected error:", describeStatusError(early.error));
+    }
     
-    // Update status with valid value
-    updateOrderStatus(result.order.id, "shipped");
+    // The gateway captures only part at first; the second call takes the rest
+    paymentGateway.simulate("capture", { type: "partial", amount: money(5000) });
+    const partial = await capturePayment(result.order.id);
+    if (partial.success) {
+      const { payment, currency } = partial.order;
+      console.log(`Payment ${payment.status}: ${formatMoney(payment.captured, currency)} of ${formatMoney(payment.authorized, currency)}`);
+    }
+    await capturePayment(result.order.id);
+    await updateOrderStatus(result.order.id, "shipped", { reason: "Handed to carrier" });
     
     // updateOrderStatus(result.order.id, "banana");
     // ❌ Error: Argument of type '"banana"' is not assignable to parameter of type 'OrderStatus'
+    
+    // Valid status, illegal move: caught at runtime with a typed error
+    const rollback = await updateOrderStatus(result.order.id, "pending");
+    if (!rollback.success) {
+      console.log("Expected error:", describeStatusError(rollback.error));
+    }
+    
+    // A caller still holding version 1 (from before those updates) is refused
+    const stale = await updateOrderStatus(result.order.id, "cancelled", { expectedVersion: 1 });
+    if (!stale.success) {
+      console.log("Expected error:", describeStatusError(stale.error));
+    }
+
+    // Two Widgets come back: discounts and tax are recomputed for the three kept
+    const returned = await refundOrderItems(result.order.id, [{ productId: 101, quantity: 2 }], { reason: "Arrived damaged" });
+    if (returned.success) {
+      const { order, refund } = returned;
+      console.log(`Refund #${refund.id}: ${formatMoney(refund.amount, order.currency)} back, payment ${order.payment.status}`);
+    }
+    const tooMany = await refundOrderItems(result.order.id, [{ productId: 101, quantity: 4 }]);
+    if (!tooMany.success) {
+      console.log("Expected error:", describeRefundError(tooMany.error));
+    }
+
+    const saved = await fetchOrder(result.order.id);
+    if (saved !== null) {
+      renderOrderSummary(saved);
+      renderOrderSummary(saved, "csv");
+      // renderOrderSummary(saved, "pdf");
+      // ❌ Error: Argument of type '"pdf"' is not assignable to parameter of type 'OrderFormat'
+
+      // Nothing above overwrote the order: it is replayed from its events,
+      // so the state it was placed in is still there
+      const history = await getOrderHistory(saved.id);
+      console.log(`History: ${history.map((entry) => `v${entry.version} ${entry.type}`).join(", ")}`);
+      const placed = await getOrderAtVersion(saved.id, 1);
+      if (placed !== null) {
+        console.log(
+          `At v1: ${placed.status}, ${formatMoney(placed.total, placed.currency)}; ` +
+            `at v${saved.version}: ${saved.status}, ${formatMoney(saved.total, saved.currency)}`
+        );
+      }
+
+      // A change that isn't one of the order events is refused, not saved silently
+      try {
+        await orders.save({ ...saved, total: zero(), version: saved.version + 1 });
+      } catch (error) {
+        console.log("Expected error:", (error as Error).message);
+      }
+    }
+    console.log(`Orders on file: ${await orders.count()}`);
   } else {
-    console.log("Order failed:", result.error);
+    console.log("Order failed:", result.errors.map(describeCreateOrderProblem));
+  }
+  
+  // A client retrying after a timeout gets the same order, not a second one
+  const firstTry = createOrder(3, [{ productId: 102, quantity: 1 }], { idempotencyKey: "carol-1" });
+  const retry = createOrder(3, [{ productId: 102, quantity: 1 }], { idempotencyKey: "carol-1" });
+  const [first, second] = await Promise.all([firstTry, retry]);
+  if (first.success && second.success) {
+    console.log(`Retry returned the same order: ${first.order.id === second.order.id}`);
+    const { total, currency, locale } = first.order;
+    console.log(`Carol pays in ${currency}: ${formatMoney(total, currency, locale)}`);
+  }
+  
+  // ...but reusing the key for a different order is rejected
+  const reused = await createOrder(3, [{ productId: 101, quantity: 1 }], { idempotencyKey: "carol-1" });
+  if (!reused.success) {
+    console.log("Expected error:", describeCreateOrderProblem(reused.errors[0]));
+  }
+  
+  // A declined card leaves no order behind and no stock held
+  paymentGateway.simulate("authorize", { type: "decline", reason: "insufficient_funds" });
+  const declined = await createOrder(2, [{ productId: 102, quantity: 1 }]);
+  if (!declined.success) {
+    console.log("Expected error:", describeCreateOrderProblem(declined.errors[0]));
+  }
+  
+  // Bob shops with a cart first: adding Widgets twice merges into one line
+  await addToCart(2, 101, 1);
+  await addToCart(2, 102, 1);
+  const bobsCart = await addToCart(2, 101, 2);
+  if (bobsCart.success && bobsCart.view.pricing.success) {
+    const { draft } = bobsCart.view.pricing;
+    const lines = draft.items.map((line) => `${line.product.name} x${line.quantity}`).join(", ");
+    console.log(`Bob's cart: ${lines} = ${formatMoney(draft.total, draft.currency)}`);
+    
+    // The catalog changes while the cart sits there...
+    await products.update(101, { price: money(3299) });
+    const later = await getCart(2);
+    if (later.success && later.view.pricing.success) {
+      for (const change of later.view.priceChanges) {
+        const was = formatMoney(change.previous.price, change.previous.currency);
+        const now = formatMoney(change.current.price, change.current.currency);
+        console.log(`Price changed since added: ${change.productName} ${was} → ${now}`);
+      }
+      
+      // ...so checking out at the total Bob saw first is refused, and the cart stays
+      const outdated = await checkoutCart(2, { expectedTotal: draft.total });
+      if (!outdated.success && outdated.error.code === "CHECKOUT_FAILED") {
+        console.log("Expected error:", describeCreateOrderProblem(outdated.error.problems[0]));
+      }
+      
+      const placed = await checkoutCart(2, { expectedTotal: later.view.pricing.draft.total });
+      if (placed.success) {
+        const gone = await getCart(2);
+        console.log(`Cart became order #${placed.order.id}; cart left: ${gone.success ? "yes" : "no"}`);
+      }
+    }
+    await products.update(101, { price: money(2999) });
+  }
+  
+  stopTracking();
+  console.log(`Revenue tracked from events: ${formatMoney(revenue, "USD")}`);
+  
+  // Typed queries over everything on file, newest first, two per page
+  const recent = await findOrders({
+    statuses: ["pending", "processing", "shipped"],
+    sort: { field: "createdAt", direction: "desc" },
+    limit: 2,
+  });
+  if (recent.success) {
+    const ids = recent.page.orders.map((order) => `#${order.id}`).join(", ");
+    console.log(`Recent orders: ${ids} (${recent.page.total} total)`);
+  }
+  // findOrders({ sort: { field: "user" } });
+  // ❌ Error: Type '"user"' is not assignable to type 'OrderSortField'
+  
+  // Asking for more than we have reports requested vs available
+  const tooMany = await createOrder(2, [{ productId: 101, quantity: 30 }]);
+  if (!tooMany.success && tooMany.errors[0].code === "OUT_OF_STOCK") {
+    const { requested, available } = tooMany.errors[0];  // narrowed by `code`
+    console.log(`Expected error: only ${available} of ${requested} available`);
   }
   
   // Handling non-existent user - error is caught gracefully
   const badResult = await createOrder(999, [{ productId: 101, quantity: 1 }]);
   if (!badResult.success) {
-    console.log("Expected error:", badResult.error);
+    console.log("Expected error:", describeCreateOrderProblem(badResult.errors[0]));
+  }
+  
+  // Collect every problem in one pass instead of stopping at the first
+  const messy = await createOrder(
+    999,
+    [
+      { productId: 101, quantity: 0 },
+      { productId: 404, quantity: 1 },
+      { productId: 102, quantity: 1.5 },
+      { productId: 103, quantity: 1 },
+    ],
+    { validation: "collect-all" }
+  );
+  if (!messy.success) {
+    console.log("Expected errors:");
+    for (const problem of messy.errors) {
+      console.log(`  [${problem.code}] ${describeCreateOrderProblem(problem)}`);
+    }
   }
   
+  // The orders still pending hold money on their cards and only wait for
+  // us to capture it, so a day later on a fake clock nobody is chased...
+  const fakeClock = new FakeClock();
+  setClock(fakeClock);
+  fakeClock.advance(hours(24) + 1);
+  const waitingOnUs = await pendingOrders.runDue();
+  // ...but the holds run out after a week. Then the customer is reminded
+  // to pay, and a day after the hold ended the order is cancelled.
+  fakeClock.advance(hours(6 * 24 + 20));
+  const reminders = await pendingOrders.runDue();
+  fakeClock.advance(hours(4));
+  const expired = await pendingOrders.runDue();
+  console.log(
+    `Stale orders: ${waitingOnUs.reminded + waitingOnUs.expired} chased while authorized; ` +
+      `once the holds ran out, ${reminders.reminded} reminded, then ${expired.expired} cancelled`
+  );
+  // setClock(Date.now);
+  // ❌ Error: Argument of type '() => number' is not assignable to parameter of type 'Clock'
+  
+  // Counts per status come from a projection of the log; the stats show how
+  // much of it had to be replayed at startup (run the demo twice)
+  const byStatus = await getOrdersByStatus();
+  console.log(`Orders by status: ${Object.entries(byStatus).map(([status, ids]) => `${status} ${ids.length}`).join(", ")}`);
+  const { events, replayed, snapshots } = await orders.replayStats();
+  console.log(`Order log: ${events} events at startup, ${replayed} replayed, ${snapshots} snapshots`);
+  
+  // Every matching event above queued a signed POST to the partner. Its
+  // first answer is a 503, so that delivery is retried after a backoff.
+  const firstRound = await webhooks.deliverDue();
+  fakeClock.advance(1000);
+  const secondRound = await webhooks.deliverDue();
+  console.log(
+    `Webhooks: ${firstRound.delivered} delivered, ${firstRound.retried} retried, then ${secondRound.delivered} more delivered`
+  );
+  console.log(`Partner received: ${partner.received.join(", ")}`);
+  if (partner.last !== undefined) {
+    // A captured request replayed later, or with its body edited, is refused
+    const replayed = verifyWebhook(partner.last, partner.secret, { now: new Date(clock.now().getTime() + hours(1)) });
+    const edited = JSON.stringify({ ...JSON.parse(partner.last.body), type: "order.delivered" });
+    const tampered = verifyWebhook({ ...partner.last, body: edited }, partner.secret, { now: clock.now() });
+    console.log(`Replayed: ${replayed.valid ? "accepted" : replayed.reason}, tampered: ${tampered.valid ? "accepted" : tampered.reason}`);
+  }
+  await partner.close();
+  
+  // Every order change above queued an email; the dispatcher delivers them
+  // (as .eml files in MAIL_DIR) and retries any that fail
+  const mail = await notificationOutbox.dispatchDue();
+  console.log(`Emails sent: ${mail.sent}, waiting to retry: ${mail.retried}, dead-lettered: ${mail.deadLettered}`);
+  
+  // Everything on file, by month, in USD
+  const report = await getSalesReport({ granularity: "month", currency: "USD" });
+  console.log(`\n${renderSalesReport(report)}\n`);
+  
   // Wrong types are caught at compile time:
   // await createOrder("one", [{ productId: "101", quantity: "2" }]);
   // ❌ Error: Argument of type 'string' is not assignable to parameter of type 'number'
 }
 
-main();
+// Run the demo only when this file is executed directly - the CLI and
+// other modules import createOrder & co. without side effects
+if (process.argv[1] !== undefined && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main();
+}
 
 // --- REFACTORING DEMO ---
 // Try this: Rename 'email' to 'emailAddress' in the User interface
@@ -256,9 +2249,30 @@ main();
 // WHAT TYPESCRIPT CAUGHT:
 // ✅ user.teir typo → must use user.tier
 // ✅ Null user not handled → forced explicit check
-// ✅ Null/out-of-stock product → forced explicit checks
+// ✅ Error strings → structured CreateOrderProblem codes
+// ✅ Zero, negative and fractional quantities → INVALID_QUANTITY
+// ✅ Null product → forced explicit check
+// ✅ Retried requests → idempotency keys, no duplicate orders
+// ✅ No visibility into sales → typed revenue / AOV / units reports in text, CSV and JSON
+// ✅ Customers never hear back → durable email outbox with retries and dead letters
+// ✅ Orders overwritten in place → append-only event log, replay from snapshots, orders-by-status projection
+// ✅ In-memory status changes → HMAC-signed, timestamped webhooks with retries and a delivery log
+// ✅ Pending forever → reminders and auto-cancel, timed by an injectable Clock
+// ✅ All-or-nothing cancellation → per-item refunds, re-priced, kept as readonly records
+// ✅ Unpaid orders shipped → authorize on create, capture before "shipped", typed gateway failures
+// ✅ Commit-on-call createOrder → carts priced live, locked and converted atomically
+// ✅ orders.length + 1 ids → pluggable sequence / ULID / UUID generators
+// ✅ Last-write-wins updates → versioned compare-and-save, typed VERSION_CONFLICT
+// ✅ Sequential lookups → batched, de-duplicated DataLoader
+// ✅ inStock flag → numeric stock with atomic reservations
 // ✅ item.quanity typo → must use item.quantity
 // ✅ Invalid status values → only valid OrderStatus allowed
+// ✅ Flat 8% tax → per-jurisdiction, per-category tax breakdown
+// ✅ One jurisdiction per user → address book, pluggable shipping methods, taxed shipping
+// ✅ Hard-coded tier discounts → typed pricing rules engine
+// ✅ Float money math → branded integer-cent Money
+// ✅ Hard-coded "$" → Money<Currency>, converted at a recorded exchange rate
+// ✅ Illegal status transitions → typed INVALID_TRANSITION error
 // ✅ order.staus typo → must use order.status
 // ✅ order.user.emial typo → must use order.user.email
 // ✅ Wrong argument types → compile-time errors
@@ -271,12 +2285,63 @@ main();
 
 export {
   type User,
+  type UserTier,
+  type Address,
   type Product,
+  type OrderItem,
   type Order,
   type OrderStatus,
+  type OrderId,
+  type CreateOrderItem,
+  type CreateOrderOptions,
+  type UpdateOrderStatusOptions,
+  type OrderLoaders,
+  type CreateOrderError,
   type CreateOrderResult,
+  type OrderDraft,
+  type OrderPricing,
+  type DraftOrderResult,
+  type CheckoutCartOptions,
+  type UpdateOrderStatusResult,
+  type PaymentResult,
+  type RefundOrderItemsOptions,
+  type OrderQuery,
+  type OrderFormat,
+  type SalesReport,
+  type SalesReportOptions,
+  fetchUser,
+  fetchProduct,
+  fetchOrder,
+  listUsers,
+  listProducts,
+  findOrders,
+  getSalesReport,
+  getOrderHistory,
+  getOrderAtVersion,
+  getOrdersByStatus,
+  orderEvents,
+  notificationOutbox,
+  relayNotifications,
+  startNotifications,
+  pendingOrders,
+  webhooks,
+  paymentGateway,
+  setClock,
+  createOrderLoaders,
   createOrder,
+  draftOrder,
   updateOrderStatus,
+  capturePayment,
+  refundPayment,
+  releasePayment,
+  refundOrderItems,
+  getCart,
+  addToCart,
+  updateCartItem,
+  removeFromCart,
+  setCartOptions,
+  checkoutCart,
+  purgeExpiredCarts,
   renderOrderSummary,
 };
 
@@ -0,0 +1,64 @@
+// ============================================================================
+// 12-END-TO-END / CARTS TESTS: Line Edits, Expiry and Price Changes
+// ============================================================================
+// Run with `npm test`. Pure functions over cart lines; checking a cart out
+// is covered with the rest of the workflow in orders.test.ts.
+// ============================================================================
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { addCartLine, findPriceChanges, isCartExpired, mergeCartLines, setCartLineQuantity, type Cart } from "./carts.js";
+import { money } from "./money.js";
+import { gadget, placedAt, widget } from "./test-fixtures.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const lines = addCartLine(addCartLine([], widget, 2, placedAt), gadget, 1, placedAt);
+
+// --- LINES ---
+
+test("adding a product already in the cart adds to its line, keeping the first price seen", () => {
+  const repriced = { ...widget, price: money(3499) };
+  const added = addCartLine(lines, repriced, 3, new Date(placedAt.getTime() + HOUR_MS));
+
+  assert.equal(added.length, 2);
+  assert.deepEqual(added[0], { productId: widget.id, quantity: 5, priceWhenAdded: money(2999), currencyWhenAdded: "USD", addedAt: placedAt });
+});
+
+test("setting a quantity of 0 removes the line; a product not in the cart is null", () => {
+  assert.deepEqual(setCartLineQuantity(lines, widget.id, 0)?.map((line) => line.productId), [gadget.id]);
+  assert.equal(setCartLineQuantity(lines, 999, 1), null);
+});
+
+test("merging folds repeated products into one line", () => {
+  assert.deepEqual(
+    mergeCartLines([...lines, { ...lines[0], quantity: 1 }]).map((line) => [line.productId, line.quantity]),
+    [
+      [widget.id, 3],
+      [gadget.id, 1],
+    ]
+  );
+});
+
+// --- DERIVED STATE ---
+
+test("a cart expires exactly its time to live after the last change", () => {
+  const cart: Cart = { id: 1, version: 1, status: "open", lines, createdAt: placedAt, updatedAt: placedAt };
+
+  assert.equal(isCartExpired(cart, HOUR_MS, new Date(placedAt.getTime() + HOUR_MS - 1)), false);
+  assert.equal(isCartExpired(cart, HOUR_MS, new Date(placedAt.getTime() + HOUR_MS)), true);
+});
+
+test("price changes name the products that moved, and skip ones that are gone", () => {
+  const changes = findPriceChanges(lines, [{ ...widget, price: money(2499) }, null]);
+
+  assert.deepEqual(changes, [
+    {
+      productId: widget.id,
+      productName: "Widget",
+      previous: { price: money(2999), currency: "USD" },
+      current: { price: money(2499), currency: "USD" },
+    },
+  ]);
+  assert.deepEqual(findPriceChanges(lines, [widget, gadget]), []);
+});
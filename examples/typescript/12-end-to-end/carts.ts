@@ -0,0 +1,245 @@
+// ============================================================================
+// 12-END-TO-END / CARTS: Shopping Carts and Draft Orders
+// ============================================================================
+// DEMO: A cart stores intent (what and how many), never prices - those are
+//       recomputed on every read, so the shopper always sees today's total
+// ============================================================================
+
+import type { CreateOrderOptions, DraftOrderResult, Order, Product } from "../12-end-to-end.js";
+import type { CurrencyCode, Money } from "./money.js";
+import type { NonEmptyArray, CreateOrderProblem, OutOfStock, UserNotFound } from "./order-errors.js";
+
+// --- TYPES ---
+
+interface CartLine {
+  productId: number;
+  quantity: number;
+  priceWhenAdded: Money;  // catalog price when first added - only to spot changes
+  currencyWhenAdded: CurrencyCode;
+  addedAt: Date;
+}
+
+// "checking-out" locks the cart while it turns into an order
+type CartStatus = "open" | "checking-out";
+
+// Checkout choices the shopper can make before placing the order
+type CartOptions = Pick<CreateOrderOptions, "couponCodes" | "shippingAddressId" | "shippingMethodId" | "currency">;
+
+interface Cart extends CartOptions {
+  id: number;  // the owner's user id: one cart per user
+  version: number;  // bumped by every change, like Order.version
+  status: CartStatus;
+  lines: CartLine[];  // at most one line per product
+  createdAt: Date;
+  updatedAt: Date;  // last shopper activity - expiry counts from here
+}
+
+interface CartPriceChange {
+  productId: number;
+  productName: string;
+  previous: { price: Money; currency: CurrencyCode };
+  current: { price: Money; currency: CurrencyCode };
+}
+
+// What the shopper sees: the stored cart plus everything derived from it
+interface CartView {
+  cart: Cart;
+  expiresAt: Date;
+  priceChanges: CartPriceChange[];  // catalog prices that moved since items were added
+  shortages: OutOfStock[];  // lines that could not be reserved right now
+  pricing: DraftOrderResult;  // the order this cart would become, priced live
+}
+
+// --- ERRORS ---
+
+interface CartNotFound {
+  code: "CART_NOT_FOUND";
+  userId: number;
+}
+
+interface CartExpired {
+  code: "CART_EXPIRED";
+  userId: number;
+  expiredAt: Date;
+}
+
+interface CartItemNotFound {
+  code: "CART_ITEM_NOT_FOUND";
+  userId: number;
+  productId: number;
+}
+
+interface CartProductNotFound {
+  code: "PRODUCT_NOT_FOUND";
+  productId: number;
+}
+
+interface CartInvalidQuantity {
+  code: "INVALID_QUANTITY";
+  productId: number;
+  quantity: number;
+}
+
+// Someone is already checking this cart out
+interface CartLocked {
+  code: "CART_LOCKED";
+  userId: number;
+}
+
+// The cart changed between reading it and writing it back
+interface CartVersionConflict {
+  code: "CART_VERSION_CONFLICT";
+  userId: number;
+}
+
+// The order itself was refused; the cart is left as it was
+interface CheckoutFailed {
+  code: "CHECKOUT_FAILED";
+  userId: number;
+  problems: NonEmptyArray<CreateOrderProblem>;
+}
+
+type CartError =
+  | UserNotFound
+  | CartNotFound
+  | CartExpired
+  | CartItemNotFound
+  | CartProductNotFound
+  | CartInvalidQuantity
+  | CartLocked
+  | CartVersionConflict
+  | CheckoutFailed;
+
+type CartErrorCode = CartError["code"];
+
+type CartResult =
+  | { success: true; view: CartView }
+  | { success: false; error: CartError };
+
+type CheckoutCartResult =
+  | { success: true; order: Order }
+  | { success: false; error: CartError };
+
+// --- LINE OPERATIONS ---
+
+// Pure functions over CartLine[]: easy to reason about, and a failed
+// compare-and-save can simply run them again on the fresh cart.
+
+/** Adding a product that is already in the cart adds to that line. */
+function addCartLine(lines: CartLine[], product: Product, quantity: number, at: Date): CartLine[] {
+  const existing = lines.find((line) => line.productId === product.id);
+  if (existing) {
+    return lines.map((line) =>
+      line === existing ? { ...line, quantity: line.quantity + quantity } : line
+    );
+  }
+  return [
+    ...lines,
+    {
+      productId: product.id,
+      quantity,
+      priceWhenAdded: product.price,
+      currencyWhenAdded: product.currency,
+      addedAt: at,
+    },
+  ];
+}
+
+/** Quantity 0 removes the line. Null if the product is not in the cart. */
+function setCartLineQuantity(lines: CartLine[], productId: number, quantity: number): CartLine[] | null {
+  if (!lines.some((line) => line.productId === productId)) {
+    return null;
+  }
+  return quantity === 0
+    ? lines.filter((line) => line.productId !== productId)
+    : lines.map((line) => (line.productId === productId ? { ...line, quantity } : line));
+}
+
+/** Folds repeated products into one line, keeping the earliest price seen. */
+function mergeCartLines(lines: CartLine[]): CartLine[] {
+  const merged = new Map<number, CartLine>();
+  for (const line of lines) {
+    const existing = merged.get(line.productId);
+    merged.set(
+      line.productId,
+      existing ? { ...existing, quantity: existing.quantity + line.quantity } : { ...line }
+    );
+  }
+  return [...merged.values()];
+}
+
+// --- DERIVED STATE ---
+
+function cartExpiresAt(cart: Cart, ttlMs: number): Date {
+  return new Date(cart.updatedAt.getTime() + ttlMs);
+}
+
+function isCartExpired(cart: Cart, ttlMs: number, now: Date): boolean {
+  return cartExpiresAt(cart, ttlMs) <= now;
+}
+
+/** `products[i]` is the current catalog entry for `lines[i]` (null if it is gone). */
+function findPriceChanges(lines: CartLine[], products: (Product | null)[]): CartPriceChange[] {
+  return lines.flatMap((line, index) => {
+    const product = products[index];
+    if (
+      product === null ||
+      (product.price === line.priceWhenAdded && product.currency === line.currencyWhenAdded)
+    ) {
+      return [];
+    }
+    return [
+      {
+        productId: line.productId,
+        productName: product.name,
+        previous: { price: line.priceWhenAdded, currency: line.currencyWhenAdded },
+        current: { price: product.price, currency: product.currency },
+      },
+    ];
+  });
+}
+
+// --- MESSAGES ---
+
+function describeCartError(error: CartError): string {
+  switch (error.code) {
+    case "USER_NOT_FOUND":
+      return `User ${error.userId} not found`;
+    case "CART_NOT_FOUND":
+      return `User ${error.userId} has no cart`;
+    case "CART_EXPIRED":
+      return `The cart of user ${error.userId} expired at ${error.expiredAt.toISOString()}`;
+    case "CART_ITEM_NOT_FOUND":
+      return `Product ${error.productId} is not in the cart of user ${error.userId}`;
+    case "PRODUCT_NOT_FOUND":
+      return `Product ${error.productId} not found`;
+    case "INVALID_QUANTITY":
+      return `Product ${error.productId}: quantity must be a whole number of at least 1, got ${error.quantity}`;
+    case "CART_LOCKED":
+      return `The cart of user ${error.userId} is being checked out`;
+    case "CART_VERSION_CONFLICT":
+      return `The cart of user ${error.userId} was changed by someone else - review it and try again`;
+    case "CHECKOUT_FAILED":
+      return `Checkout failed for user ${error.userId} (${error.problems.map((p) => p.code).join(", ")})`;
+  }
+}
+
+export {
+  addCartLine,
+  setCartLineQuantity,
+  mergeCartLines,
+  cartExpiresAt,
+  isCartExpired,
+  findPriceChanges,
+  describeCartError,
+  type Cart,
+  type CartLine,
+  type CartStatus,
+  type CartOptions,
+  type CartPriceChange,
+  type CartView,
+  type CartError,
+  type CartErrorCode,
+  type CartResult,
+  type CheckoutCartResult,
+};
@@ -0,0 +1,72 @@
+// ============================================================================
+// 12-END-TO-END / CLI TESTS: Exit Codes and Messages for Bad Input
+// ============================================================================
+// Run with `npm test`. runCli takes its output streams as a parameter, so the
+// commands run in this process against a fresh temp dir's `.data/`.
+// ============================================================================
+
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, test } from "node:test";
+
+const dataDir = await mkdtemp(join(tmpdir(), "cli-test-"));
+process.chdir(dataDir);
+
+const { runCli, createOrderExitCodes, statusExitCodes } = await import("./cli.js");
+
+after(() => rm(dataDir, { recursive: true, force: true }));
+
+async function run(...argv: string[]): Promise<{ code: number; stdout: string[]; stderr: string[] }> {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const code = await runCli(argv, { stdout: (text) => stdout.push(text), stderr: (text) => stderr.push(text) });
+  return { code, stdout, stderr };
+}
+
+// --- USAGE ---
+
+test("unknown commands, malformed values and unknown flags are usage errors", async () => {
+  const unknown = await run("orders", "teleport");
+  assert.equal(unknown.code, 2);
+  assert.match(unknown.stderr[0] ?? "", /^Unknown command "orders teleport"/);
+
+  assert.match((await run("orders", "create", "--user", "1", "--item", "101*2")).stderr[0] ?? "", /--item must look like/);
+  assert.equal((await run("orders", "create", "--user", "one")).code, 2);
+  assert.equal((await run("orders", "list", "--colour", "red")).code, 2);
+  assert.equal((await run("orders", "set-status", "1", "lost")).code, 2);
+});
+
+// --- ORDERS ---
+
+test("each create-order problem exits with its own code, and --json lists them all", async () => {
+  const invalid = await run("orders", "create", "--user", "1", "--item", "101x0");
+  assert.equal(invalid.code, createOrderExitCodes.INVALID_QUANTITY);
+  assert.match(invalid.stderr[0] ?? "", /^error \[INVALID_QUANTITY\]: Item 1 \(product 101\)/);
+
+  const collected = await run("orders", "create", "--user", "999", "--item", "101x0", "--item", "999x1", "--collect-all", "--json");
+  assert.equal(collected.code, createOrderExitCodes.INVALID_QUANTITY);
+  const { errors } = JSON.parse(collected.stdout.join("\n")) as { errors: { code: string }[] };
+  assert.deepEqual(
+    errors.map((error) => error.code),
+    ["INVALID_QUANTITY", "USER_NOT_FOUND", "PRODUCT_NOT_FOUND"]
+  );
+});
+
+test("a missing order or an illegal move exits with the status error's code", async () => {
+  assert.equal((await run("orders", "show", "404")).code, statusExitCodes.ORDER_NOT_FOUND);
+  assert.equal((await run("orders", "set-status", "404", "cancelled")).code, statusExitCodes.ORDER_NOT_FOUND);
+
+  const created = await run("orders", "create", "--user", "1", "--item", "101x1", "--json");
+  assert.equal(created.code, 0);
+  const { id } = JSON.parse(created.stdout.join("\n")) as { id: string };
+
+  const moved = await run("orders", "set-status", id, "delivered");
+  assert.equal(moved.code, statusExitCodes.INVALID_TRANSITION);
+  assert.match(moved.stderr[0] ?? "", /cannot move from "pending" to "delivered" \(allowed: processing, cancelled\)/);
+});
+
+test("a cursor that can't be read exits with its own code", async () => {
+  assert.equal((await run("orders", "list", "--cursor", "not-a-cursor")).code, 22);
+});
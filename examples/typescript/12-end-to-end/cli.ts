@@ -0,0 +1,775 @@
+// ============================================================================
+// 12-END-TO-END / CLI: Command-Line Interface for the Order App
+// ============================================================================
+// DEMO: Untyped argv strings validated into CreateOrderItem / OrderStatus
+// ============================================================================
+
+// Usage (after `pnpm build`):
+//   node dist/12-end-to-end/cli.js users list
+//   node dist/12-end-to-end/cli.js products list
+//   node dist/12-end-to-end/cli.js orders create --user 1 --item 101x2 --item 102x1 [--currency EUR]
+//       [--address office] [--shipping express]
+//   node dist/12-end-to-end/cli.js orders show 1 [--format markdown] [--at-version 2]
+//   node dist/12-end-to-end/cli.js orders history 1
+//   node dist/12-end-to-end/cli.js orders list --status pending [--user 1] [--limit 10]
+//   node dist/12-end-to-end/cli.js orders set-status 1 processing [--reason "Paid"] [--expected-version 1]
+//   node dist/12-end-to-end/cli.js orders capture 1 [--amount 1999]
+//   node dist/12-end-to-end/cli.js orders refund 1 [--amount 500]
+//   node dist/12-end-to-end/cli.js orders refund-items 1 --item 101x2 [--reason "Changed mind"]
+//   node dist/12-end-to-end/cli.js orders expire-stale
+//   node dist/12-end-to-end/cli.js reports sales [--from 2026-10-01] [--to 2026-11-01] [--by week] [--format csv]
+//   node dist/12-end-to-end/cli.js reports orders-by-status
+//   node dist/12-end-to-end/cli.js outbox list [--status dead]
+//   node dist/12-end-to-end/cli.js outbox dispatch
+//   node dist/12-end-to-end/cli.js outbox retry order-1-order-shipped
+//   node dist/12-end-to-end/cli.js webhooks add --url https://partner.example/hooks --event order.shipped
+//   node dist/12-end-to-end/cli.js webhooks deliveries [--status dead]
+// Add --json to any command for machine-readable output.
+
+import { pathToFileURL } from "node:url";
+import { parseArgs } from "node:util";
+import {
+  createOrder,
+  fetchOrder,
+  findOrders,
+  getOrderAtVersion,
+  getOrderHistory,
+  getOrdersByStatus,
+  getSalesReport,
+  listProducts,
+  listUsers,
+  notificationOutbox,
+  pendingOrders,
+  webhooks,
+  refundOrderItems,
+  updateOrderStatus,
+  capturePayment,
+  refundPayment,
+  type CreateOrderError,
+  type CreateOrderItem,
+  type OrderId,
+  type OrderStatus,
+  type PaymentResult,
+} from "../12-end-to-end.js";
+import { currencyCodes, formatMoney, isCurrencyCode, money, type CurrencyCode, type Money } from "./money.js";
+import { describeStatusError, isOrderStatus, type OrderStatusError } from "./order-lifecycle.js";
+import { describeCreateOrderProblem, type CreateOrderProblemCode } from "./order-errors.js";
+import { describeOrderEvent } from "./order-event-store.js";
+import { isOrderSortField, orderSortFields, type OrderSortField } from "./order-query.js";
+import { isOutboxStatus, outboxStatuses, type OutboxStatus } from "./outbox.js";
+import { describePaymentError, type PaymentError, type PaymentErrorCode } from "./payments.js";
+import { describeRefundError, type RefundError, type RefundErrorCode } from "./refunds.js";
+import {
+  describeWebhookSubscriptionError,
+  isWebhookDeliveryStatus,
+  webhookDeliveryStatuses,
+  type WebhookDeliveryStatus,
+  type WebhookSubscriptionErrorCode,
+} from "./webhooks.js";
+import {
+  isReportFormat,
+  isReportGranularity,
+  renderSalesReport,
+  reportGranularities,
+  type ReportGranularity,
+} from "./sales-report.js";
+import { isOrderFormat, renderOrder, toOrderView } from "./renderers.js";
+
+// --- EXIT CODES ---
+
+// Record<Union, number>: adding a new error code without an exit code is a compile error
+const createOrderExitCodes: Record<CreateOrderProblemCode, number> = {
+  USER_NOT_FOUND: 10,
+  PRODUCT_NOT_FOUND: 11,
+  OUT_OF_STOCK: 12,
+  INVALID_QUANTITY: 13,
+  EMPTY_ORDER: 14,
+  UNKNOWN_JURISDICTION: 15,
+  IDEMPOTENCY_CONFLICT: 16,
+  ADDRESS_NOT_FOUND: 17,
+  SHIPPING_METHOD_NOT_FOUND: 18,
+  SHIPPING_UNAVAILABLE: 19,
+  TOTAL_CHANGED: 24,
+  PAYMENT_DECLINED: 26,
+  PAYMENT_TIMEOUT: 27,
+};
+
+const statusExitCodes: Record<OrderStatusError["code"], number> = {
+  ORDER_NOT_FOUND: 20,
+  INVALID_TRANSITION: 21,
+  VERSION_CONFLICT: 23,
+  PAYMENT_NOT_CAPTURED: 28,
+};
+
+const refundExitCodes: Record<RefundErrorCode, number> = {
+  ORDER_NOT_FOUND: 20,
+  VERSION_CONFLICT: 23,
+  INVALID_QUANTITY: 13,
+  ORDER_NOT_REFUNDABLE: 31,
+  EMPTY_REFUND: 32,
+  ITEM_NOT_ON_ORDER: 33,
+  REFUND_EXCEEDS_QUANTITY: 34,
+  CANCELS_WHOLE_ORDER: 35,
+  UNKNOWN_JURISDICTION: 15,
+  REFUND_RAISES_TOTAL: 41,
+};
+
+const paymentExitCodes: Record<PaymentErrorCode, number> = {
+  ORDER_NOT_FOUND: 20,
+  PAYMENT_DECLINED: 26,
+  PAYMENT_TIMEOUT: 27,
+  INVALID_PAYMENT_STATE: 29,
+  INVALID_PAYMENT_AMOUNT: 30,
+};
+
+const webhookExitCodes: Record<WebhookSubscriptionErrorCode, number> = {
+  INVALID_WEBHOOK_URL: 37,
+  NO_WEBHOOK_EVENTS: 38,
+  UNKNOWN_WEBHOOK_EVENT: 39,
+};
+
+const EXIT_OK = 0;
+const EXIT_USAGE = 2;
+const EXIT_INVALID_CURSOR = 22;
+const EXIT_MESSAGE_NOT_RETRYABLE = 25;
+const EXIT_EXPIRY_FAILED = 36;
+const EXIT_WEBHOOK_NOT_FOUND = 40;
+
+// --- OUTPUT ---
+
+interface CliIo {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+const processIo: CliIo = {
+  stdout: (text) => process.stdout.write(`${text}\n`),
+  stderr: (text) => process.stderr.write(`${text}\n`),
+};
+
+class UsageError extends Error {}
+
+const usage = `Usage:
+  users list
+  products list
+  orders create --user <id> --item <productId>x<qty> [--item ...] [--coupon CODE]
+                [--address ID] [--shipping METHOD] [--jurisdiction CODE]
+                [--currency USD|EUR|GBP] [--idempotency-key KEY] [--collect-all]
+  orders show <orderId> [--format text|markdown|html|json|csv] [--at-version <n>]
+  orders history <orderId>
+  orders list [--status <status>]... [--user <id>] [--sort <field>] [--desc]
+              [--limit <n>] [--cursor <cursor>]
+  orders set-status <orderId> <status> [--reason <text>] [--expected-version <n>]
+  orders capture <orderId> [--amount <cents>]
+  orders refund <orderId> [--amount <cents>]
+  orders refund-items <orderId> --item <productId>x<qty> [--item ...] [--reason <text>]
+                      [--expected-version <n>]
+  orders expire-stale
+  reports sales [--from <date>] [--to <date>] [--by day|week|month]
+                [--currency USD|EUR|GBP] [--status <status>]... [--format text|csv|json]
+  reports orders-by-status
+  outbox list [--status pending|sent|dead]...
+  outbox dispatch
+  outbox retry <messageId>
+  webhooks add --url <url> --event <type> [--event ...] [--secret <secret>]
+  webhooks list
+  webhooks remove <webhookId>
+  webhooks deliveries [--status pending|delivered|dead]...
+  webhooks deliver
+  webhooks retry <deliveryId>
+Options:
+  --json    machine-readable output`;
+
+// --- ARGUMENT VALIDATION ---
+
+function parsePositiveInt(value: string | undefined, name: string): number {
+  if (value === undefined || !/^\d+$/.test(value) || Number(value) <= 0) {
+    throw new UsageError(`${name} must be a positive whole number, got "${value ?? ""}"`);
+  }
+  return Number(value);
+}
+
+function parseOrderId(value: string | undefined): OrderId {
+  if (value === undefined || value.trim() === "") {
+    throw new UsageError("orderId is required");
+  }
+  return value;
+}
+
+/** "101x2" → { productId: 101, quantity: 2 } */
+function parseItem(value: string): CreateOrderItem {
+  const match = /^(\d+)x(-?\d+(?:\.\d+)?)$/.exec(value);
+  if (!match) {
+    throw new UsageError(`--item must look like <productId>x<quantity>, got "${value}"`);
+  }
+  // Quantity rules (positive, whole) are createOrder's job: it reports INVALID_QUANTITY
+  return { productId: Number(match[1]), quantity: Number(match[2]) };
+}
+
+/** Minor units of the order's currency, e.g. 1999 for $19.99. */
+function parseAmount(value: string | undefined): Money | undefined {
+  return value === undefined ? undefined : money(parsePositiveInt(value, "--amount"));
+}
+
+function parseStatus(value: string | undefined): OrderStatus {
+  if (value === undefined || !isOrderStatus(value)) {
+    throw new UsageError(`Unknown status "${value ?? ""}"`);
+  }
+  return value;  // narrowed to OrderStatus by the type guard
+}
+
+function parseCurrency(value: string | undefined): CurrencyCode | undefined {
+  if (value !== undefined && !isCurrencyCode(value)) {
+    throw new UsageError(`--currency must be one of ${currencyCodes.join(", ")}`);
+  }
+  return value;
+}
+
+/** "2026-10-01" or a full ISO timestamp; dates alone mean midnight UTC. */
+function parseDate(value: string | undefined, name: string): Date | undefined {
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new UsageError(`${name} must be a date like 2026-10-01, got "${value}"`);
+  }
+  return date;
+}
+
+function parseGranularity(value: string | undefined): ReportGranularity | undefined {
+  if (value !== undefined && !isReportGranularity(value)) {
+    throw new UsageError(`--by must be one of ${reportGranularities.join(", ")}`);
+  }
+  return value;
+}
+
+function parseOutboxStatus(value: string): OutboxStatus {
+  if (!isOutboxStatus(value)) {
+    throw new UsageError(`--status must be one of ${outboxStatuses.join(", ")}`);
+  }
+  return value;
+}
+
+function parseDeliveryStatus(value: string): WebhookDeliveryStatus {
+  if (!isWebhookDeliveryStatus(value)) {
+    throw new UsageError(`--status must be one of ${webhookDeliveryStatuses.join(", ")}`);
+  }
+  return value;
+}
+
+function parseSortField(value: string): OrderSortField {
+  if (!isOrderSortField(value)) {
+    throw new UsageError(`--sort must be one of ${orderSortFields.join(", ")}`);
+  }
+  return value;
+}
+
+// --- COMMANDS ---
+
+type CliValues = ReturnType<typeof parseCliArgs>["values"];
+
+function parseCliArgs(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    strict: true,
+    options: {
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+      user: { type: "string" },
+      item: { type: "string", multiple: true },
+      coupon: { type: "string", multiple: true },
+      address: { type: "string" },
+      shipping: { type: "string" },
+      jurisdiction: { type: "string" },
+      currency: { type: "string" },
+      "idempotency-key": { type: "string" },
+      "collect-all": { type: "boolean", default: false },
+      status: { type: "string", multiple: true },
+      sort: { type: "string" },
+      desc: { type: "boolean", default: false },
+      limit: { type: "string" },
+      cursor: { type: "string" },
+      format: { type: "string" },
+      reason: { type: "string" },
+      "expected-version": { type: "string" },
+      "at-version": { type: "string" },
+      from: { type: "string" },
+      to: { type: "string" },
+      by: { type: "string" },
+      amount: { type: "string" },
+      url: { type: "string" },
+      event: { type: "string", multiple: true },
+      secret: { type: "string" },
+    },
+  });
+}
+
+function reportCreateOrderError(result: CreateOrderError, json: boolean, io: CliIo): number {
+  if (json) {
+    io.stdout(JSON.stringify({ success: false, errors: result.errors }, null, 2));
+  } else {
+    for (const problem of result.errors) {
+      io.stderr(`error [${problem.code}]: ${describeCreateOrderProblem(problem)}`);
+    }
+  }
+  return createOrderExitCodes[result.errors[0].code];
+}
+
+function reportStatusError(error: OrderStatusError, json: boolean, io: CliIo): number {
+  if (json) {
+    io.stdout(JSON.stringify({ success: false, error }, null, 2));
+  } else {
+    io.stderr(`error [${error.code}]: ${describeStatusError(error)}`);
+  }
+  return statusExitCodes[error.code];
+}
+
+function reportRefundError(error: RefundError, json: boolean, io: CliIo): number {
+  if (json) {
+    io.stdout(JSON.stringify({ success: false, error }, null, 2));
+  } else {
+    io.stderr(`error [${error.code}]: ${describeRefundError(error)}`);
+  }
+  return refundExitCodes[error.code];
+}
+
+function reportPaymentError(error: PaymentError, json: boolean, io: CliIo): number {
+  if (json) {
+    io.stdout(JSON.stringify({ success: false, error }, null, 2));
+  } else {
+    io.stderr(`error [${error.code}]: ${describePaymentError(error)}`);
+  }
+  return paymentExitCodes[error.code];
+}
+
+async function usersList(values: CliValues, io: CliIo): Promise<number> {
+  const users = await listUsers();
+  if (values.json) {
+    io.stdout(JSON.stringify(users, null, 2));
+  } else {
+    for (const user of users) {
+      const addressIds = user.addresses.map((a) => (a.id === user.defaultAddressId ? `${a.id}*` : a.id));
+      io.stdout(`${user.id}\t${user.name}\t${user.email}\t${user.tier}\t${user.currency}\t${addressIds.join(",")}`);
+    }
+  }
+  return EXIT_OK;
+}
+
+async function productsList(values: CliValues, io: CliIo): Promise<number> {
+  const products = await listProducts();
+  if (values.json) {
+    io.stdout(JSON.stringify(products, null, 2));
+  } else {
+    for (const product of products) {
+      io.stdout(`${product.id}\t${product.name}\t${formatMoney(product.price, product.currency)}\t${product.available} available`);
+    }
+  }
+  return EXIT_OK;
+}
+
+async function ordersCreate(values: CliValues, io: CliIo): Promise<number> {
+  const userId = parsePositiveInt(values.user, "--user");
+  const items = (values.item ?? []).map(parseItem);
+
+  const result = await createOrder(userId, items, {
+    couponCodes: values.coupon,
+    shippingAddressId: values.address,
+    shippingMethodId: values.shipping,
+    jurisdiction: values.jurisdiction,
+    currency: parseCurrency(values.currency),
+    idempotencyKey: values["idempotency-key"],
+    validation: values["collect-all"] ? "collect-all" : "fail-fast",
+  });
+
+  if (!result.success) {
+    return reportCreateOrderError(result, values.json ?? false, io);
+  }
+  io.stdout(renderOrder(result.order, values.json ? "json" : "text"));
+  return EXIT_OK;
+}
+
+async function ordersShow(args: string[], values: CliValues, io: CliIo): Promise<number> {
+  const orderId = parseOrderId(args[0]);
+  const format = values.json ? "json" : values.format ?? "text";
+  if (!isOrderFormat(format)) {
+    throw new UsageError(`Unknown format "${format}"`);
+  }
+
+  // --at-version replays the order's events up to that version instead
+  const atVersion = values["at-version"];
+  const order = atVersion === undefined
+    ? await fetchOrder(orderId)
+    : await getOrderAtVersion(orderId, parsePositiveInt(atVersion, "--at-version"));
+  if (order === null) {
+    return reportStatusError({ code: "ORDER_NOT_FOUND", orderId }, values.json ?? false, io);
+  }
+  io.stdout(renderOrder(order, format));
+  return EXIT_OK;
+}
+
+async function ordersHistory(args: string[], values: CliValues, io: CliIo): Promise<number> {
+  const orderId = parseOrderId(args[0]);
+  const history = await getOrderHistory(orderId);
+  if (history.length === 0) {
+    return reportStatusError({ code: "ORDER_NOT_FOUND", orderId }, values.json ?? false, io);
+  }
+  if (values.json) {
+    io.stdout(JSON.stringify(history, null, 2));
+  } else {
+    for (const entry of history) {
+      io.stdout(`v${entry.version}\t${entry.recordedAt.toISOString()}\t${entry.type}\t${describeOrderEvent(entry)}`);
+    }
+    io.stdout(`${history.length} event(s)`);
+  }
+  return EXIT_OK;
+}
+
+async function ordersList(values: CliValues, io: CliIo): Promise<number> {
+  const result = await findOrders({
+    statuses: values.status?.map(parseStatus),
+    userId: values.user === undefined ? undefined : parsePositiveInt(values.user, "--user"),
+    sort: values.sort === undefined
+      ? undefined
+      : { field: parseSortField(values.sort), direction: values.desc ? "desc" : "asc" },
+    limit: values.limit === undefined ? undefined : parsePositiveInt(values.limit, "--limit"),
+    cursor: values.cursor,
+  });
+
+  if (!result.success) {
+    io.stderr(`error [${result.error.code}]: cursor is not valid for this query`);
+    return EXIT_INVALID_CURSOR;
+  }
+
+  const { orders, nextCursor, total } = result.page;
+  if (values.json) {
+    io.stdout(JSON.stringify({ orders: orders.map(toOrderView), nextCursor, total }, null, 2));
+  } else {
+    for (const order of orders) {
+      io.stdout(
+        `#${order.id}\t${order.status}\t${order.user.name}\t${formatMoney(order.total, order.currency, order.locale)}\t${order.createdAt.toISOString()}`
+      );
+    }
+    io.stdout(`${orders.length} of ${total} order(s)${nextCursor ? ` - next: --cursor ${nextCursor}` : ""}`);
+  }
+  return EXIT_OK;
+}
+
+async function ordersSetStatus(args: string[], values: CliValues, io: CliIo): Promise<number> {
+  const orderId = parseOrderId(args[0]);
+  const status = parseStatus(args[1]);
+  const expectedVersion = values["expected-version"];
+
+  const result = await updateOrderStatus(orderId, status, {
+    reason: values.reason,
+    expectedVersion: expectedVersion === undefined ? undefined : parsePositiveInt(expectedVersion, "--expected-version"),
+  });
+  if (!result.success) {
+    return reportStatusError(result.error, values.json ?? false, io);
+  }
+  io.stdout(
+    values.json
+      ? renderOrder(result.order, "json")
+      : `Order #${orderId} is now ${result.order.status}`
+  );
+  return EXIT_OK;
+}
+
+async function reportsSales(values: CliValues, io: CliIo): Promise<number> {
+  const format = values.json ? "json" : values.format ?? "text";
+  if (!isReportFormat(format)) {
+    throw new UsageError(`Unknown report format "${format}"`);
+  }
+  const report = await getSalesReport({
+    from: parseDate(values.from, "--from"),
+    to: parseDate(values.to, "--to"),
+    granularity: parseGranularity(values.by),
+    currency: parseCurrency(values.currency),
+    statuses: values.status?.map(parseStatus),
+  });
+  io.stdout(renderSalesReport(report, format));
+  return EXIT_OK;
+}
+
+async function reportsOrdersByStatus(values: CliValues, io: CliIo): Promise<number> {
+  const byStatus = await getOrdersByStatus();
+  if (values.json) {
+    io.stdout(JSON.stringify(byStatus, null, 2));
+  } else {
+    for (const [status, ids] of Object.entries(byStatus)) {
+      io.stdout(`${status}\t${ids.length}${ids.length > 0 ? `\t#${ids.join(", #")}` : ""}`);
+    }
+  }
+  return EXIT_OK;
+}
+
+// One pass of the scheduler the server runs in the background - for cron
+async function ordersExpireStale(values: CliValues, io: CliIo): Promise<number> {
+  const report = await pendingOrders.runDue();
+  io.stdout(
+    values.json
+      ? JSON.stringify(report, null, 2)
+      : `Reminded ${report.reminded}, cancelled ${report.expired}, failed ${report.failed}`
+  );
+  return report.failed > 0 ? EXIT_EXPIRY_FAILED : EXIT_OK;
+}
+
+async function outboxList(values: CliValues, io: CliIo): Promise<number> {
+  const statuses = values.status?.map(parseOutboxStatus);
+  const messages = (await notificationOutbox.list()).filter(
+    (message) => statuses === undefined || statuses.includes(message.status)
+  );
+  if (values.json) {
+    io.stdout(JSON.stringify(messages, null, 2));
+  } else {
+    for (const message of messages) {
+      const error = message.lastError ? `\t${message.lastError}` : "";
+      io.stdout(`${message.id}\t${message.status}\t${message.attempts} attempt(s)\t${message.to}\t${message.subject}${error}`);
+    }
+    io.stdout(`${messages.length} message(s)`);
+  }
+  return EXIT_OK;
+}
+
+async function outboxDispatch(values: CliValues, io: CliIo): Promise<number> {
+  const report = await notificationOutbox.dispatchDue();
+  io.stdout(
+    values.json
+      ? JSON.stringify(report, null, 2)
+      : `Sent ${report.sent}, retrying ${report.retried}, dead-lettered ${report.deadLettered}`
+  );
+  return EXIT_OK;
+}
+
+async function outboxRetry(args: string[], values: CliValues, io: CliIo): Promise<number> {
+  const messageId = args[0];
+  if (messageId === undefined) {
+    throw new UsageError("messageId is required");
+  }
+  const retried = await notificationOutbox.retry(messageId);
+  if (values.json) {
+    io.stdout(JSON.stringify({ success: retried, messageId }, null, 2));
+  } else if (retried) {
+    io.stdout(`Message ${messageId} will be retried on the next dispatch`);
+  } else {
+    io.stderr(`error: message ${messageId} not found or already sent`);
+  }
+  return retried ? EXIT_OK : EXIT_MESSAGE_NOT_RETRYABLE;
+}
+
+async function webhooksAdd(values: CliValues, io: CliIo): Promise<number> {
+  if (values.url === undefined) {
+    throw new UsageError("--url is required");
+  }
+  // Event names are checked by subscribe(), which reports UNKNOWN_WEBHOOK_EVENT
+  const result = await webhooks.subscribe({ url: values.url, events: values.event ?? [], secret: values.secret });
+  if (!result.success) {
+    if (values.json) {
+      io.stdout(JSON.stringify({ success: false, error: result.error }, null, 2));
+    } else {
+      io.stderr(`error [${result.error.code}]: ${describeWebhookSubscriptionError(result.error)}`);
+    }
+    return webhookExitCodes[result.error.code];
+  }
+  const { subscription } = result;
+  io.stdout(
+    values.json
+      ? JSON.stringify({ success: true, subscription }, null, 2)
+      : `Webhook ${subscription.id} → ${subscription.url} (${subscription.events.join(", ")})\nSigning secret (shown once): ${subscription.secret}`
+  );
+  return EXIT_OK;
+}
+
+async function webhooksList(values: CliValues, io: CliIo): Promise<number> {
+  const subscriptions = await webhooks.listSubscriptions();
+  if (values.json) {
+    io.stdout(JSON.stringify(subscriptions, null, 2));
+  } else {
+    for (const subscription of subscriptions) {
+      io.stdout(`${subscription.id}\t${subscription.url}\t${subscription.events.join(",")}`);
+    }
+    io.stdout(`${subscriptions.length} webhook(s)`);
+  }
+  return EXIT_OK;
+}
+
+async function webhooksRemove(args: string[], values: CliValues, io: CliIo): Promise<number> {
+  const webhookId = args[0];
+  if (webhookId === undefined) {
+    throw new UsageError("webhookId is required");
+  }
+  const removed = await webhooks.unsubscribe(webhookId);
+  if (values.json) {
+    io.stdout(JSON.stringify({ success: removed, webhookId }, null, 2));
+  } else if (removed) {
+    io.stdout(`Webhook ${webhookId} removed`);
+  } else {
+    io.stderr(`error: webhook ${webhookId} not found`);
+  }
+  return removed ? EXIT_OK : EXIT_WEBHOOK_NOT_FOUND;
+}
+
+async function webhooksDeliveries(values: CliValues, io: CliIo): Promise<number> {
+  const statuses = values.status?.map(parseDeliveryStatus);
+  const deliveries = (await webhooks.listDeliveries()).filter(
+    (delivery) => statuses === undefined || statuses.includes(delivery.status)
+  );
+  if (values.json) {
+    io.stdout(JSON.stringify(deliveries, null, 2));
+  } else {
+    for (const delivery of deliveries) {
+      // The log, newest last: "503, 204" or "503, fetch failed"
+      const log = delivery.log.map((attempt) => attempt.statusCode ?? attempt.error).join(", ");
+      io.stdout(`${delivery.id}\t${delivery.status}\t${delivery.eventType}\t${delivery.url}\t${log || "not attempted"}`);
+    }
+    io.stdout(`${deliveries.length} deliver${deliveries.length === 1 ? "y" : "ies"}`);
+  }
+  return EXIT_OK;
+}
+
+async function webhooksDeliver(values: CliValues, io: CliIo): Promise<number> {
+  const report = await webhooks.deliverDue();
+  io.stdout(
+    values.json
+      ? JSON.stringify(report, null, 2)
+      : `Delivered ${report.delivered}, retrying ${report.retried}, dead ${report.dead}`
+  );
+  return EXIT_OK;
+}
+
+async function webhooksRetry(args: string[], values: CliValues, io: CliIo): Promise<number> {
+  const deliveryId = args[0];
+  if (deliveryId === undefined) {
+    throw new UsageError("deliveryId is required");
+  }
+  const retried = await webhooks.retry(deliveryId);
+  if (values.json) {
+    io.stdout(JSON.stringify({ success: retried, deliveryId }, null, 2));
+  } else if (retried) {
+    io.stdout(`Delivery ${deliveryId} will be retried on the next pass`);
+  } else {
+    io.stderr(`error: delivery ${deliveryId} not found or already delivered`);
+  }
+  return retried ? EXIT_OK : EXIT_MESSAGE_NOT_RETRYABLE;
+}
+
+async function ordersPayment(
+  operation: (orderId: OrderId, amount?: Money) => Promise<PaymentResult>,
+  args: string[],
+  values: CliValues,
+  io: CliIo
+): Promise<number> {
+  const orderId = parseOrderId(args[0]);
+  const result = await operation(orderId, parseAmount(values.amount));
+  if (!result.success) {
+    return reportPaymentError(result.error, values.json ?? false, io);
+  }
+  const { payment, currency, locale } = result.order;
+  io.stdout(
+    values.json
+      ? JSON.stringify({ success: true, orderId, payment }, null, 2)
+      : `Order #${orderId}: payment ${payment.status} (captured ${formatMoney(payment.captured, currency, locale)}, refunded ${formatMoney(payment.refunded, currency, locale)})`
+  );
+  return EXIT_OK;
+}
+
+async function ordersRefundItems(args: string[], values: CliValues, io: CliIo): Promise<number> {
+  const orderId = parseOrderId(args[0]);
+  const expectedVersion = values["expected-version"];
+
+  const result = await refundOrderItems(orderId, (values.item ?? []).map(parseItem), {
+    reason: values.reason,
+    expectedVersion: expectedVersion === undefined ? undefined : parsePositiveInt(expectedVersion, "--expected-version"),
+  });
+  if (!result.success) {
+    return reportRefundError(result.error, values.json ?? false, io);
+  }
+  const { refund, order } = result;
+  io.stdout(
+    values.json
+      ? JSON.stringify({ success: true, refund, order: toOrderView(order) }, null, 2)
+      : `Order #${orderId}: refunded ${formatMoney(refund.amount, order.currency, order.locale)}, net total now ${formatMoney(order.total, order.currency, order.locale)}`
+  );
+  return EXIT_OK;
+}
+
+// --- ENTRY POINT ---
+
+/** Returns the process exit code instead of exiting, so it can be tested. */
+async function runCli(argv: string[], io: CliIo = processIo): Promise<number> {
+  try {
+    const { values, positionals } = parseCliArgs(argv);
+    const [group, command, ...args] = positionals;
+
+    if (values.help || group === undefined) {
+      io.stdout(usage);
+      return values.help ? EXIT_OK : EXIT_USAGE;
+    }
+
+    switch (`${group} ${command ?? ""}`) {
+      case "users list":
+        return await usersList(values, io);
+      case "products list":
+        return await productsList(values, io);
+      case "orders create":
+        return await ordersCreate(values, io);
+      case "orders show":
+        return await ordersShow(args, values, io);
+      case "orders history":
+        return await ordersHistory(args, values, io);
+      case "orders list":
+        return await ordersList(values, io);
+      case "orders set-status":
+        return await ordersSetStatus(args, values, io);
+      case "orders capture":
+        return await ordersPayment(capturePayment, args, values, io);
+      case "orders refund":
+        return await ordersPayment(refundPayment, args, values, io);
+      case "orders refund-items":
+        return await ordersRefundItems(args, values, io);
+      case "orders expire-stale":
+        return await ordersExpireStale(values, io);
+      case "reports sales":
+        return await reportsSales(values, io);
+      case "reports orders-by-status":
+        return await reportsOrdersByStatus(values, io);
+      case "outbox list":
+        return await outboxList(values, io);
+      case "outbox dispatch":
+        return await outboxDispatch(values, io);
+      case "outbox retry":
+        return await outboxRetry(args, values, io);
+      case "webhooks add":
+        return await webhooksAdd(values, io);
+      case "webhooks list":
+        return await webhooksList(values, io);
+      case "webhooks remove":
+        return await webhooksRemove(args, values, io);
+      case "webhooks deliveries":
+        return await webhooksDeliveries(values, io);
+      case "webhooks deliver":
+        return await webhooksDeliver(values, io);
+      case "webhooks retry":
+        return await webhooksRetry(args, values, io);
+      default:
+        throw new UsageError(`Unknown command "${positionals.join(" ")}"`);
+    }
+  } catch (error) {
+    // parseArgs reports bad flags as TypeErrors with an ERR_PARSE_ARGS_* code
+    const isParseError =
+      error instanceof TypeError && String((error as NodeJS.ErrnoException).code).startsWith("ERR_PARSE_ARGS");
+    if (error instanceof UsageError || isParseError) {
+      io.stderr(`${(error as Error).message}\n\n${usage}`);
+      return EXIT_USAGE;
+    }
+    io.stderr(`error: ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  }
+}
+
+if (process.argv[1] !== undefined && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runCli(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
+
+export { runCli, createOrderExitCodes, statusExitCodes, paymentExitCodes, refundExitCodes, webhookExitCodes, type CliIo };
@@ -0,0 +1,58 @@
+// ============================================================================
+// 12-END-TO-END / CLOCK: Time as a Dependency
+// ============================================================================
+// DEMO: One small interface, two implementations - code that asks a Clock
+//       for the time can be tested without waiting for it to pass
+// ============================================================================
+
+interface Clock {
+  now(): Date;
+}
+
+/** The real time, every time you ask. */
+class SystemClock implements Clock {
+  now(): Date {
+    return new Date();
+  }
+}
+
+/**
+ * Stands still until told to move. Each now() returns a fresh Date, so a
+ * caller mutating the result can't move the clock.
+ */
+class FakeClock implements Clock {
+  private current: number;
+
+  constructor(start: Date = new Date()) {
+    this.current = start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  advance(ms: number): Date {
+    if (ms < 0) {
+      throw new Error(`A clock can't go backwards (advance by ${ms}ms)`);
+    }
+    this.current += ms;
+    return this.now();
+  }
+
+  set(to: Date): Date {
+    return this.advance(to.getTime() - this.current);
+  }
+}
+
+const systemClock: Clock = new SystemClock();
+
+// Durations read better as minutes(30) than as 1800000
+function minutes(count: number): number {
+  return count * 60 * 1000;
+}
+
+function hours(count: number): number {
+  return minutes(count * 60);
+}
+
+export { SystemClock, FakeClock, systemClock, minutes, hours, type Clock };
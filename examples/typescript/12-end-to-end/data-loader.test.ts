@@ -0,0 +1,57 @@
+// ============================================================================
+// 12-END-TO-END / DATA LOADER TESTS: Batching, Caching and Failed Batches
+// ============================================================================
+// Run with `npm test`. The batch functions record the keys they were asked
+// for, so each test can see how many round trips a set of loads made.
+// ============================================================================
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataLoader } from "./data-loader.js";
+
+function recording(batches: number[][], fail = false) {
+  return async (keys: readonly number[]) => {
+    batches.push([...keys]);
+    if (fail) throw new Error("database down");
+    return keys.map((key) => (key > 0 ? `user ${key}` : null));
+  };
+}
+
+// --- BATCHING ---
+
+test("loads in one tick go out as one batch, with repeated keys fetched once", async () => {
+  const batches: number[][] = [];
+  const loader = new DataLoader(recording(batches));
+
+  const [users, again] = await Promise.all([loader.loadMany([1, 2, 1, -1]), loader.load(2)]);
+
+  assert.deepEqual(users, ["user 1", "user 2", "user 1", null]);
+  assert.equal(again, "user 2");
+  assert.deepEqual(batches, [[1, 2, -1]]);
+});
+
+test("maxBatchSize splits a tick's loads", async () => {
+  const batches: number[][] = [];
+  await new DataLoader(recording(batches), { maxBatchSize: 2 }).loadMany([1, 2, 3]);
+
+  assert.deepEqual(batches, [[1, 2], [3]]);
+});
+
+// --- FAILURES ---
+
+test("a failed batch rejects every load in it, and isn't cached", async () => {
+  const batches: number[][] = [];
+  let fail = true;
+  const loader = new DataLoader(async (keys: readonly number[]) => recording(batches, fail)(keys));
+
+  await assert.rejects(loader.loadMany([1, 2]), /database down/);
+  fail = false;
+  assert.equal(await loader.load(1), "user 1");
+  assert.deepEqual(batches, [[1, 2], [1]]);
+});
+
+test("a batch function that returns the wrong number of values is an error", async () => {
+  const loader = new DataLoader(async (_keys: readonly number[]) => ["only one"]);
+
+  await assert.rejects(loader.loadMany([1, 2]), /returned 1 values for 2 keys/);
+});
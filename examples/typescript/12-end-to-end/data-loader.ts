@@ -0,0 +1,97 @@
+// ============================================================================
+// 12-END-TO-END / DATA LOADER: Batched, Cached Lookups
+// ============================================================================
+// DEMO: Generic classes - one loader type works for users, products, ...
+// ============================================================================
+
+// --- TYPES ---
+
+/** Must return one value (or null) per key, in the same order as `keys`. */
+type BatchLoadFn<K, V> = (keys: readonly K[]) => Promise<(V | null)[]>;
+
+interface DataLoaderOptions {
+  maxBatchSize?: number;  // default: unlimited
+}
+
+interface PendingLoad<K, V> {
+  key: K;
+  resolve: (value: V | null) => void;
+  reject: (error: unknown) => void;
+}
+
+// --- LOADER ---
+
+/**
+ * Every load() made in the same tick is collected and sent to the batch
+ * function together. Results are cached per key, so asking for the same
+ * key twice - even concurrently - fetches it once.
+ *
+ * Create one loader per request: the cache is never invalidated by writes.
+ */
+class DataLoader<K, V> {
+  private readonly cache = new Map<K, Promise<V | null>>();
+  private queue: PendingLoad<K, V>[] = [];
+
+  constructor(
+    private readonly batchFn: BatchLoadFn<K, V>,
+    private readonly options: DataLoaderOptions = {}
+  ) {}
+
+  load(key: K): Promise<V | null> {
+    const cached = this.cache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const promise = new Promise<V | null>((resolve, reject) => {
+      this.queue.push({ key, resolve, reject });
+      if (this.queue.length === 1) {
+        // Wait until the current tick has finished queueing loads
+        Promise.resolve().then(() => process.nextTick(() => this.dispatch()));
+      }
+    });
+    this.cache.set(key, promise);
+    return promise;
+  }
+
+  loadMany(keys: readonly K[]): Promise<(V | null)[]> {
+    return Promise.all(keys.map((key) => this.load(key)));
+  }
+
+  clear(key: K): void {
+    this.cache.delete(key);
+  }
+
+  clearAll(): void {
+    this.cache.clear();
+  }
+
+  private dispatch(): void {
+    const queue = this.queue;
+    this.queue = [];
+
+    const size = this.options.maxBatchSize ?? queue.length;
+    for (let start = 0; start < queue.length; start += size) {
+      void this.runBatch(queue.slice(start, start + size));
+    }
+  }
+
+  private async runBatch(batch: PendingLoad<K, V>[]): Promise<void> {
+    try {
+      const values = await this.batchFn(batch.map((pending) => pending.key));
+      if (values.length !== batch.length) {
+        throw new Error(
+          `DataLoader batch function returned ${values.length} values for ${batch.length} keys`
+        );
+      }
+      batch.forEach((pending, index) => pending.resolve(values[index]));
+    } catch (error) {
+      for (const pending of batch) {
+        this.cache.delete(pending.key);  // a failed load can be retried
+        pending.reject(error);
+      }
+    }
+  }
+}
+
+export { DataLoader, type BatchLoadFn, type DataLoaderOptions };
@@ -0,0 +1,70 @@
+// ============================================================================
+// 12-END-TO-END / EVENT BUS TESTS: Delivery Order and Failing Handlers
+// ============================================================================
+// Run with `npm test`. Handlers push to a shared list, so each test can see
+// the order things actually happened in.
+// ============================================================================
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { EventBus, type HandlerFailure } from "./event-bus.js";
+
+interface TestEvents {
+  placed: { orderId: string };
+  shipped: { orderId: string };
+}
+
+// --- FAILURES ---
+
+test("a throwing handler is reported and skipped, and the rest still run", async () => {
+  const reported: HandlerFailure[] = [];
+  const bus = new EventBus<TestEvents>({ onHandlerError: (failure) => reported.push(failure) });
+  const seen: string[] = [];
+  bus.subscribe("placed", () => {
+    throw new Error("mailer down");
+  });
+  bus.subscribe("placed", ({ orderId }) => {
+    seen.push(orderId);
+  });
+
+  const report = await bus.publish("placed", { orderId: "1" });
+
+  assert.deepEqual(seen, ["1"]);
+  assert.equal(report.status === "delivered" && report.handled, 2);
+  assert.equal(report.status === "delivered" && report.failures.length, 1);
+  assert.match(String(reported[0]?.error), /mailer down/);
+});
+
+// --- ORDER ---
+
+test("an event published from a handler is delivered after the current one, without deadlock", async () => {
+  const bus = new EventBus<TestEvents>();
+  const seen: string[] = [];
+  bus.subscribe("placed", async ({ orderId }) => {
+    const queued = await bus.publish("shipped", { orderId });
+    seen.push(`placed ${orderId} (${queued.status})`);
+  });
+  bus.subscribe("placed", ({ orderId }) => {
+    seen.push(`placed ${orderId} again`);
+  });
+  bus.subscribe("shipped", ({ orderId }) => {
+    seen.push(`shipped ${orderId}`);
+  });
+
+  await bus.publish("placed", { orderId: "1" });
+  await bus.publish("shipped", { orderId: "2" });  // queued behind "shipped 1"
+
+  assert.deepEqual(seen, ["placed 1 (queued)", "placed 1 again", "shipped 1", "shipped 2"]);
+});
+
+test("once runs a handler for the next event only", async () => {
+  const bus = new EventBus<TestEvents>();
+  const seen: string[] = [];
+  bus.once("placed", ({ orderId }) => {
+    seen.push(orderId);
+  });
+
+  await bus.publish("placed", { orderId: "1" });
+  await bus.publish("placed", { orderId: "2" });
+  assert.deepEqual(seen, ["1"]);
+});
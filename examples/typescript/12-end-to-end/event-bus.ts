@@ -0,0 +1,147 @@
+// ============================================================================
+// 12-END-TO-END / EVENT BUS: Typed In-Process Publish/Subscribe
+// ============================================================================
+// DEMO: An event-name → payload map gives every handler its payload type
+// ============================================================================
+
+import { AsyncLocalStorage } from "node:async_hooks";
+
+// --- TYPES ---
+
+type EventName<E> = keyof E & string;
+
+interface EventMeta<Name extends string = string> {
+  name: Name;
+  sequence: number;  // increases by one per published event
+  occurredAt: Date;
+}
+
+/** Sync or async - the bus awaits either before moving on. */
+type EventHandler<E, K extends EventName<E>> = (
+  payload: E[K],
+  meta: EventMeta<K>
+) => void | Promise<void>;
+
+interface HandlerFailure {
+  event: EventMeta;
+  error: unknown;
+}
+
+// "queued": published from inside a handler, so it is delivered after the
+// current event and publish() doesn't wait for it
+type DeliveryReport =
+  | { status: "delivered"; event: EventMeta; handled: number; failures: HandlerFailure[] }
+  | { status: "queued"; event: EventMeta };
+
+interface EventBusOptions {
+  onHandlerError?: (failure: HandlerFailure) => void;
+}
+
+type Unsubscribe = () => void;
+
+// One handler list per event name, each typed by its own payload
+type HandlerMap<E> = { [K in EventName<E>]?: EventHandler<E, K>[] };
+
+interface QueuedEvent {
+  deliver(): Promise<void>;
+}
+
+// --- BUS ---
+
+/**
+ * Events are delivered one at a time, in publish order; each event's
+ * handlers run in the order they subscribed. A throwing handler is
+ * reported and skipped - it never stops the others.
+ *
+ * Events published from inside a handler are queued behind the current
+ * one, and that publish() resolves as soon as they are queued - so a
+ * handler may await it (or call code that does) without waiting on itself.
+ */
+class EventBus<E extends object> {
+  private readonly handlers: HandlerMap<E> = {};
+  private readonly queue: QueuedEvent[] = [];
+  private readonly insideHandler = new AsyncLocalStorage<true>();
+  private draining = false;
+  private sequence = 0;
+
+  constructor(private readonly options: EventBusOptions = {}) {}
+
+  subscribe<K extends EventName<E>>(name: K, handler: EventHandler<E, K>): Unsubscribe {
+    this.handlers[name] = [...(this.handlers[name] ?? []), handler];
+
+    return () => {
+      this.handlers[name] = (this.handlers[name] ?? []).filter((h) => h !== handler);
+    };
+  }
+
+  once<K extends EventName<E>>(name: K, handler: EventHandler<E, K>): Unsubscribe {
+    const unsubscribe = this.subscribe(name, (payload, meta) => {
+      unsubscribe();
+      return handler(payload, meta);
+    });
+    return unsubscribe;
+  }
+
+  /**
+   * Resolves once every handler has run - or, when called from inside a
+   * handler, once the event is queued. Never rejects.
+   */
+  publish<K extends EventName<E>>(name: K, payload: E[K]): Promise<DeliveryReport> {
+    const meta: EventMeta<K> = { name, sequence: ++this.sequence, occurredAt: new Date() };
+    const nested = this.insideHandler.getStore() === true;
+    return new Promise((done) => {
+      this.queue.push({
+        deliver: async () => {
+          const report = await this.deliver(meta, payload);
+          if (!nested) done(report);
+        },
+      });
+      if (nested) done({ status: "queued", event: meta });
+      void this.drain();
+    });
+  }
+
+  private async drain(): Promise<void> {
+    if (this.draining) return;
+    this.draining = true;
+
+    try {
+      let next: QueuedEvent | undefined;
+      while ((next = this.queue.shift()) !== undefined) {
+        await next.deliver();
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  private async deliver<K extends EventName<E>>(meta: EventMeta<K>, payload: E[K]): Promise<DeliveryReport> {
+    // Snapshot: unsubscribing mid-delivery doesn't skip a sibling handler
+    const handlers = [...(this.handlers[meta.name] ?? [])];
+    const failures: HandlerFailure[] = [];
+
+    for (const handler of handlers) {
+      try {
+        // Marks publish() calls made by the handler, however deep, as nested
+        await this.insideHandler.run(true, () => handler(payload, meta));
+      } catch (error) {
+        const failure = { event: meta, error };
+        failures.push(failure);
+        this.options.onHandlerError?.(failure);
+      }
+    }
+
+    return { status: "delivered", event: meta, handled: handlers.length, failures };
+  }
+}
+
+export {
+  EventBus,
+  type EventName,
+  type EventMeta,
+  type EventHandler,
+  type HandlerFailure,
+  type DeliveryReport,
+  type EventBusOptions,
+  type Unsubscribe,
+};
@@ -0,0 +1,142 @@
+// ============================================================================
+// 12-END-TO-END / EVENT LOG: An Append-Only Sequence of Records
+// ============================================================================
+// DEMO: A tiny interface with no update or delete - the type itself says
+//       "history can only grow"
+// ============================================================================
+
+import { appendFile, open, stat, truncate } from "node:fs/promises";
+import { withFileLock } from "./file-lock.js";
+import type { JsonCodec } from "./json-file-repository.js";
+
+// --- CONTRACT ---
+
+/**
+ * Positions count entries from the start of the log. appendIf() is the
+ * log's saveIf: it only appends when nobody else has since the caller last
+ * read, so a writer always decides on the latest state.
+ */
+interface EventLog<T> {
+  readFrom(position: number): Promise<T[]>;
+  /** false: the log no longer has `expectedLength` entries - read and retry. */
+  appendIf(expectedLength: number, entries: readonly T[]): Promise<boolean>;
+}
+
+// --- IMPLEMENTATIONS ---
+
+/** Clones in and out, like InMemoryRepository: nobody can edit the past. */
+class InMemoryEventLog<T> implements EventLog<T> {
+  private readonly entries: T[] = [];
+
+  async readFrom(position: number): Promise<T[]> {
+    return structuredClone(this.entries.slice(position));
+  }
+
+  async appendIf(expectedLength: number, entries: readonly T[]): Promise<boolean> {
+    if (this.entries.length !== expectedLength) {
+      return false;
+    }
+    this.entries.push(...structuredClone(entries));
+    return true;
+  }
+}
+
+/**
+ * One JSON document per line. Appends never rewrite earlier lines, so a
+ * crash can at worst cut the last line short - which readers skip and the
+ * next writer removes. Any number of processes can share one file: writers
+ * take turns through a lock file next to it.
+ */
+class JsonLinesEventLog<T> implements EventLog<T> {
+  private queue: Promise<unknown> = Promise.resolve();
+  private tail = { entries: 0, bytes: 0 };  // where the last read stopped: after a complete line
+
+  constructor(
+    private readonly filePath: string,
+    private readonly codec: JsonCodec<T>
+  ) {}
+
+  readFrom(position: number): Promise<T[]> {
+    return this.serialized(async () => {
+      if (position !== this.tail.entries) {
+        this.tail = { entries: 0, bytes: 0 };  // not where we stopped: start over
+      }
+      const first = this.tail.entries;
+      const entries = await this.readNew();
+      return entries.slice(position - first);
+    });
+  }
+
+  appendIf(expectedLength: number, entries: readonly T[]): Promise<boolean> {
+    const text = entries.map((entry) => `${JSON.stringify(this.codec.encode(entry))}\n`).join("");
+    return this.serialized(() =>
+      withFileLock(this.filePath, async () => {
+        if (expectedLength !== this.tail.entries) {
+          return false;
+        }
+        // Holding the lock, nobody is mid-write: bytes past our tail are
+        // either whole lines someone else appended, or a torn write
+        const rest = await this.readBytes(this.tail.bytes);
+        if (rest.includes("\n")) {
+          return false;
+        }
+        if (rest !== "") {
+          await truncate(this.filePath, this.tail.bytes);  // it never finished, so it never happened
+        }
+        await appendFile(this.filePath, text, "utf8");
+        this.tail = { entries: expectedLength + entries.length, bytes: this.tail.bytes + Buffer.byteLength(text) };
+        return true;
+      })
+    );
+  }
+
+  /** Complete lines after the tail; a line still being written is left for next time. */
+  private async readNew(): Promise<T[]> {
+    const text = await this.readBytes(this.tail.bytes);
+    const complete = text.slice(0, text.lastIndexOf("\n") + 1);
+
+    const entries: T[] = [];
+    for (const line of complete.split("\n")) {
+      if (line.trim() === "") continue;
+      try {
+        entries.push(this.codec.decode(JSON.parse(line)));
+      } catch (error) {
+        throw new Error(`${this.filePath}: entry ${this.tail.entries + entries.length + 1} is not valid`, { cause: error });
+      }
+    }
+    this.tail = { entries: this.tail.entries + entries.length, bytes: this.tail.bytes + Buffer.byteLength(complete) };
+    return entries;
+  }
+
+  private async readBytes(from: number): Promise<string> {
+    let size: number;
+    try {
+      size = (await stat(this.filePath)).size;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return "";  // first run - nothing logged yet
+      }
+      throw error;
+    }
+    if (size < from) {
+      throw new Error(`${this.filePath} is shorter than what was already read from it`);
+    }
+    const handle = await open(this.filePath, "r");
+    try {
+      const buffer = Buffer.alloc(size - from);
+      await handle.read(buffer, 0, buffer.length, from);
+      return buffer.toString("utf8");
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /** One read or append at a time in this process: they all move the tail. */
+  private serialized<R>(work: () => Promise<R>): Promise<R> {
+    const result = this.queue.catch(() => undefined).then(work);
+    this.queue = result;
+    return result;
+  }
+}
+
+export { InMemoryEventLog, JsonLinesEventLog, type EventLog };
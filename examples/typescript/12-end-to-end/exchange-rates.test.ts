@@ -0,0 +1,47 @@
+// ============================================================================
+// 12-END-TO-END / EXCHANGE RATES TESTS: Rate Tables and Cross Rates
+// ============================================================================
+// Run with `npm test`. The table is built here rather than read from
+// data/exchange-rates.json, so the numbers stay put when the rates change.
+// ============================================================================
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { convertMoney, getExchangeRate, parseExchangeRateTable } from "./exchange-rates.js";
+import { money } from "./money.js";
+
+const table = parseExchangeRateTable({ base: "USD", asOf: "2026-10-01", rates: { USD: 1, EUR: 0.9, GBP: 0.8 } });
+
+// --- RATE TABLES ---
+
+test("a table missing a currency, or with a base that isn't 1, is refused when it's loaded", () => {
+  assert.throws(
+    () => parseExchangeRateTable({ base: "USD", asOf: "2026-10-01", rates: { USD: 1, EUR: 0.9 } }),
+    /Missing or invalid exchange rate for 'GBP'/
+  );
+  assert.throws(
+    () => parseExchangeRateTable({ base: "USD", asOf: "2026-10-01", rates: { USD: 1, EUR: 0, GBP: 0.8 } }),
+    /invalid exchange rate for 'EUR'/
+  );
+  assert.throws(
+    () => parseExchangeRateTable({ base: "EUR", asOf: "2026-10-01", rates: { USD: 1, EUR: 0.9, GBP: 0.8 } }),
+    /base currency 'EUR' must have a rate of 1/
+  );
+  assert.throws(() => parseExchangeRateTable({ base: "JPY", asOf: "2026-10-01", rates: {} }), /Unknown base currency 'JPY'/);
+});
+
+// --- CONVERSION ---
+
+test("a rate between two non-base currencies goes through the base", () => {
+  const rate = getExchangeRate(table, "EUR", "GBP");
+
+  assert.deepEqual(rate, { from: "EUR", to: "GBP", rate: 0.8888888889, asOf: "2026-10-01" });
+  assert.equal(convertMoney(money<"EUR">(1000), rate), 889);
+});
+
+test("converting into the same currency changes nothing", () => {
+  const rate = getExchangeRate(table, "GBP", "GBP");
+
+  assert.equal(rate.rate, 1);
+  assert.equal(convertMoney(money<"GBP">(1234), rate), 1234);
+});
@@ -0,0 +1,108 @@
+// ============================================================================
+// 12-END-TO-END / EXCHANGE RATES: Converting Money Between Currencies
+// ============================================================================
+// DEMO: The only way from Money<"USD"> to Money<"EUR"> is through a rate
+// ============================================================================
+
+import { readFileSync } from "node:fs";
+import defaultRateData from "./data/exchange-rates.json" with { type: "json" };
+import {
+  currencyCodes,
+  isCurrencyCode,
+  applyRate,
+  type CurrencyCode,
+  type Money,
+  type RoundingMode,
+} from "./money.js";
+
+// --- TYPES ---
+
+interface ExchangeRateTable {
+  base: CurrencyCode;
+  asOf: string;  // date the rates were published, e.g. "2026-10-01"
+  rates: Record<CurrencyCode, number>;  // units of each currency per 1 base unit
+}
+
+/** A rate as applied - stored on the order so totals can be audited later. */
+interface ExchangeRate<From extends CurrencyCode = CurrencyCode, To extends CurrencyCode = CurrencyCode> {
+  from: From;
+  to: To;
+  rate: number;  // 1 `from` = `rate` `to`
+  asOf: string;
+}
+
+// --- LOADING RATE TABLES ---
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Validate raw JSON (typed as unknown!) into an ExchangeRateTable. */
+function parseExchangeRateTable(raw: unknown): ExchangeRateTable {
+  if (!isRecord(raw) || !isRecord(raw.rates)) {
+    throw new TypeError("Exchange rate table must have a 'rates' object");
+  }
+  if (typeof raw.base !== "string" || !isCurrencyCode(raw.base)) {
+    throw new TypeError(`Unknown base currency '${String(raw.base)}'`);
+  }
+  if (typeof raw.asOf !== "string") {
+    throw new TypeError("Exchange rate table must have an 'asOf' date");
+  }
+
+  // Every supported currency needs a rate, so conversions can't fail later
+  const rates = raw.rates;
+  for (const code of currencyCodes) {
+    const rate = rates[code];
+    if (typeof rate !== "number" || !(rate > 0)) {
+      throw new TypeError(`Missing or invalid exchange rate for '${code}'`);
+    }
+  }
+  if (rates[raw.base] !== 1) {
+    throw new TypeError(`The base currency '${raw.base}' must have a rate of 1`);
+  }
+
+  return { base: raw.base, asOf: raw.asOf, rates: rates as Record<CurrencyCode, number> };
+}
+
+/** Load a rate table from a local JSON file - no network needed. */
+function loadExchangeRateTable(path: string | URL): ExchangeRateTable {
+  return parseExchangeRateTable(JSON.parse(readFileSync(path, "utf8")));
+}
+
+const defaultExchangeRates = parseExchangeRateTable(defaultRateData);
+
+// --- CONVERSION ---
+
+/** Cross rate through the base currency: EUR → GBP = (GBP per USD) / (EUR per USD). */
+function getExchangeRate<From extends CurrencyCode, To extends CurrencyCode>(
+  table: ExchangeRateTable,
+  from: From,
+  to: To
+): ExchangeRate<From, To> {
+  const rate = (from as CurrencyCode) === to ? 1 : Number((table.rates[to] / table.rates[from]).toPrecision(10));
+  return { from, to, rate, asOf: table.asOf };
+}
+
+/**
+ * The result is in the rate's target currency:
+ *
+ *   const eur = convertMoney(usd, getExchangeRate(table, "USD", "EUR"));  // Money<"EUR">
+ */
+function convertMoney<From extends CurrencyCode, To extends CurrencyCode>(
+  amount: Money<From>,
+  rate: ExchangeRate<From, To>,
+  mode: RoundingMode = "half-even"
+): Money<To> {
+  // Same number of minor units in every supported currency, so only the rate changes
+  return applyRate(amount, rate.rate, mode) as number as Money<To>;
+}
+
+export {
+  defaultExchangeRates,
+  parseExchangeRateTable,
+  loadExchangeRateTable,
+  getExchangeRate,
+  convertMoney,
+  type ExchangeRateTable,
+  type ExchangeRate,
+};
@@ -0,0 +1,50 @@
+// ============================================================================
+// 12-END-TO-END / FILE LOCK: Taking Turns Across Processes
+// ============================================================================
+// DEMO: An exclusive-create lock file - no native module, no lock server
+// ============================================================================
+
+import { mkdir, open, rm, stat } from "node:fs/promises";
+import { dirname } from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+
+// How long a writer waits for another process's lock, and when a lock is
+// old enough that its holder must have crashed
+const LOCK_TIMEOUT_MS = 5_000;
+const STALE_LOCK_MS = 30_000;
+
+/**
+ * Run `work` holding `<file>.lock`, which only one process (and one caller
+ * within a process) can create at a time. Used by every store that several
+ * processes write - the CLI next to the server.
+ */
+async function withFileLock<R>(filePath: string, work: () => Promise<R>): Promise<R> {
+  const lockPath = `${filePath}.lock`;
+  await mkdir(dirname(lockPath), { recursive: true });
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    try {
+      await (await open(lockPath, "wx")).close();
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    }
+    const held = await stat(lockPath).catch(() => null);
+    if (held !== null && Date.now() - held.mtimeMs > STALE_LOCK_MS) {
+      await rm(lockPath, { force: true });  // left behind by a crash
+    } else if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for ${lockPath}`);
+    } else {
+      await sleep(10);
+    }
+  }
+
+  try {
+    return await work();
+  } finally {
+    await rm(lockPath, { force: true });
+  }
+}
+
+export { withFileLock };
@@ -0,0 +1,73 @@
+// ============================================================================
+// 12-END-TO-END / ID GENERATORS TESTS: Uniqueness and Ordering
+// ============================================================================
+// Run with `npm test`. ULIDs get a FakeClock, so "the same millisecond"
+// and "the clock stepped back" can be made to happen.
+// ============================================================================
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { FakeClock } from "./clock.js";
+import { UlidGenerator, compareIds, createIdGenerator } from "./id-generators.js";
+
+// --- SEQUENCE ---
+
+test("a sequence with nothing stored counts from 1", async () => {
+  const ids = createIdGenerator("sequence");
+  assert.deepEqual(await Promise.all([ids.next(), ids.next(), ids.next()]), ["1", "2", "3"]);
+});
+
+test("a sequence takes its numbers from the store", async () => {
+  let last = 41;
+  const ids = createIdGenerator("sequence", { nextNumber: async () => ++last });
+  assert.equal(await ids.next(), "42");
+});
+
+// --- ULID ---
+
+test("a ULID starts with the injected clock's time", async () => {
+  const clock = new FakeClock(new Date(0));
+  const id = await new UlidGenerator(clock).next();
+
+  assert.match(id, /^[0-9A-HJKMNP-TV-Z]{26}$/);
+  assert.equal(id.slice(0, 10), "0000000000");
+});
+
+test("ULIDs sort in the order they were made, within a millisecond and across them", async () => {
+  const clock = new FakeClock(new Date("2026-01-05T10:00:00Z"));
+  const ulids = new UlidGenerator(clock);
+
+  const ids = [await ulids.next(), await ulids.next()];
+  clock.advance(1);
+  ids.push(await ulids.next());
+
+  assert.deepEqual([...ids].sort(compareIds), ids);
+  assert.equal(new Set(ids).size, 3);
+});
+
+test("a clock that steps back doesn't break ULID ordering", async () => {
+  let now = Date.parse("2026-01-05T10:00:00Z");
+  const ulids = new UlidGenerator({ now: () => new Date(now) });
+  const first = await ulids.next();
+  now -= 60_000;
+  const second = await ulids.next();
+
+  assert.ok(compareIds(first, second) < 0);
+});
+
+// --- UUID ---
+
+test("UUIDs are random v4s", async () => {
+  const ids = createIdGenerator("uuid");
+  const [a, b] = [await ids.next(), await ids.next()];
+  assert.match(a, /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+  assert.notEqual(a, b);
+});
+
+// --- COMPARING ---
+
+test("sequence ids compare as numbers, others as strings", () => {
+  assert.ok(compareIds("9", "10") < 0);
+  assert.ok(compareIds("B", "A") > 0);
+  assert.equal(compareIds("7", "7"), 0);
+});
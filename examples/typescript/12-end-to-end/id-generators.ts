@@ -0,0 +1,149 @@
+// ============================================================================
+// 12-END-TO-END / ID GENERATORS: Pluggable, Collision-Free Order IDs
+// ============================================================================
+// DEMO: One interface, three strategies - callers never know which is in use
+// ============================================================================
+
+import { randomBytes, randomUUID } from "node:crypto";
+import { systemClock, type Clock } from "./clock.js";
+
+// --- TYPES ---
+
+type IdStrategy = "sequence" | "ulid" | "uuid";
+
+interface IdGenerator {
+  readonly strategy: IdStrategy;
+  next(): Promise<string>;
+}
+
+interface IdGeneratorOptions {
+  nextNumber?: () => Promise<number>;  // sequence: the store's nextId(); default a counter from 1
+  clock?: Clock;                       // ulid: default the system clock
+}
+
+// --- SEQUENCE: "1", "2", "3", ... ---
+
+/**
+ * Numbers come from the store (its nextId()), which knows every id ever
+ * used - deleted orders' too - and catches up with what other processes
+ * wrote first. So neither a restart, another process nor a deleted order
+ * makes it hand out an id that is already taken.
+ */
+class SequenceIdGenerator implements IdGenerator {
+  readonly strategy = "sequence";
+  private readonly nextNumber: () => Promise<number>;
+  private counter = 0;
+
+  constructor(nextNumber?: () => Promise<number>) {
+    this.nextNumber = nextNumber ?? (async () => ++this.counter);  // nothing stored: start at 1
+  }
+
+  async next(): Promise<string> {
+    return String(await this.nextNumber());
+  }
+}
+
+// --- ULID: "01J9Z3K4TQ8YV5N2C7XH0M6W1R" ---
+
+// Crockford base32: no I, L, O or U, so ids survive being read aloud
+const CROCKFORD = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const TIME_LENGTH = 10;    // 48-bit millisecond timestamp
+const RANDOM_LENGTH = 16;  // 80 random bits
+
+/**
+ * 26 characters that sort (as plain strings) in creation order. Ids made in
+ * the same millisecond bump the random part instead of re-rolling it, so
+ * they still sort in the order they were generated.
+ */
+class UlidGenerator implements IdGenerator {
+  readonly strategy = "ulid";
+  private lastTime = -1;
+  private lastRandom: number[] = [];
+
+  constructor(private readonly clock: Clock = systemClock) {}
+
+  async next(): Promise<string> {
+    // A clock that steps backwards must not break the ordering
+    const time = Math.max(this.clock.now().getTime(), this.lastTime);
+
+    if (time === this.lastTime) {
+      this.lastRandom = incrementDigits(this.lastRandom);
+    } else {
+      // 256 is a multiple of 32, so `byte % 32` stays uniform
+      this.lastRandom = [...randomBytes(RANDOM_LENGTH)].map((byte) => byte % 32);
+      this.lastTime = time;
+    }
+
+    return encodeTime(time) + this.lastRandom.map((digit) => CROCKFORD[digit]).join("");
+  }
+}
+
+function encodeTime(ms: number): string {
+  let encoded = "";
+  let rest = ms;
+  for (let i = 0; i < TIME_LENGTH; i++) {
+    encoded = CROCKFORD[rest % 32] + encoded;
+    rest = Math.floor(rest / 32);
+  }
+  return encoded;
+}
+
+function incrementDigits(digits: number[]): number[] {
+  const next = [...digits];
+  for (let i = next.length - 1; i >= 0; i--) {
+    if (next[i] < 31) {
+      next[i] += 1;
+      return next;
+    }
+    next[i] = 0;
+  }
+  throw new RangeError("ULID random part overflowed within one millisecond");
+}
+
+// --- UUID: "3b241101-e2bb-4255-8caf-4136c566a962" ---
+
+/** Random v4 UUIDs: no ordering, but safe to generate on many machines at once. */
+class UuidGenerator implements IdGenerator {
+  readonly strategy = "uuid";
+
+  async next(): Promise<string> {
+    return randomUUID();
+  }
+}
+
+// --- REGISTRY ---
+
+// Adding a strategy to IdStrategy without a factory here is a compile error
+const idGenerators: Record<IdStrategy, (options: IdGeneratorOptions) => IdGenerator> = {
+  sequence: (options) => new SequenceIdGenerator(options.nextNumber),
+  ulid: (options) => new UlidGenerator(options.clock),
+  uuid: () => new UuidGenerator(),
+};
+
+function isIdStrategy(name: string): name is IdStrategy {
+  return Object.prototype.hasOwnProperty.call(idGenerators, name);
+}
+
+function createIdGenerator(strategy: IdStrategy, options: IdGeneratorOptions = {}): IdGenerator {
+  return idGenerators[strategy](options);
+}
+
+/** Sequence ids compare as numbers ("9" < "10"); ULIDs and UUIDs as plain strings. */
+function compareIds(a: string, b: string): number {
+  if (/^\d+$/.test(a) && /^\d+$/.test(b)) {
+    return a.length - b.length || (a < b ? -1 : a > b ? 1 : 0);
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+export {
+  SequenceIdGenerator,
+  UlidGenerator,
+  UuidGenerator,
+  createIdGenerator,
+  isIdStrategy,
+  compareIds,
+  type IdStrategy,
+  type IdGenerator,
+  type IdGeneratorOptions,
+};
@@ -0,0 +1,88 @@
+// ============================================================================
+// 12-END-TO-END / IDEMPOTENCY TESTS: Replays, Conflicts and Retries
+// ============================================================================
+// Run with `npm test`. Each operation counts its runs, so a test can tell a
+// replayed answer from one that was worked out again.
+// ============================================================================
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { FakeClock } from "./clock.js";
+import { IdempotencyStore } from "./idempotency.js";
+import { placedAt } from "./test-fixtures.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function counter(result = "order 1") {
+  const operation = async () => {
+    operation.runs += 1;
+    return result;
+  };
+  operation.runs = 0;
+  return operation;
+}
+
+// --- KEYS ---
+
+test("a retry with the same key and payload gets the first answer without running again", async () => {
+  const store = new IdempotencyStore<string>({ retentionMs: HOUR_MS });
+  const operation = counter();
+
+  assert.deepEqual(await store.run("key", "payload", operation), { status: "fresh", result: "order 1" });
+  assert.deepEqual(await store.run("key", "payload", operation), { status: "replayed", result: "order 1" });
+  assert.equal(operation.runs, 1);
+});
+
+test("the same key with a different payload is a conflict, and nothing runs", async () => {
+  const store = new IdempotencyStore<string>({ retentionMs: HOUR_MS });
+  await store.run("key", "payload", counter());
+  const other = counter("order 2");
+
+  assert.deepEqual(await store.run("key", "other payload", other), { status: "conflict" });
+  assert.equal(other.runs, 0);
+});
+
+test("retries that arrive while the first call is running wait for it", async () => {
+  const store = new IdempotencyStore<string>({ retentionMs: HOUR_MS });
+  const operation = counter();
+
+  const outcomes = await Promise.all([store.run("key", "payload", operation), store.run("key", "payload", operation)]);
+  assert.deepEqual(
+    outcomes.map((outcome) => outcome.status),
+    ["fresh", "replayed"]
+  );
+  assert.equal(operation.runs, 1);
+});
+
+// --- RETRIES ---
+
+test("a result remember turns down, or a thrown error, lets the retry run again", async () => {
+  const store = new IdempotencyStore<string>({ retentionMs: HOUR_MS, remember: (result) => result !== "timeout" });
+  const timedOut = counter("timeout");
+
+  await store.run("key", "payload", timedOut);
+  await assert.rejects(
+    store.run("key", "payload", async () => {
+      throw new Error("gateway down");
+    }),
+    /gateway down/
+  );
+  assert.equal(await store.has("key"), false);
+
+  assert.deepEqual(await store.run("key", "payload", counter()), { status: "fresh", result: "order 1" });
+  assert.equal(timedOut.runs, 1);
+});
+
+// --- EXPIRY ---
+
+test("a key is forgotten once its retention has passed on the clock", async () => {
+  const clock = new FakeClock(placedAt);
+  const store = new IdempotencyStore<string>({ retentionMs: HOUR_MS, clock });
+  await store.run("key", "payload", counter());
+
+  clock.advance(HOUR_MS - 1);
+  assert.equal(await store.has("key"), true);
+  clock.advance(1);
+  assert.equal(await store.has("key"), false);
+  assert.equal((await store.run("key", "other payload", counter("order 2"))).status, "fresh");
+});
@@ -0,0 +1,94 @@
+// ============================================================================
+// 12-END-TO-END / IDEMPOTENCY: Safe Retries with Idempotency Keys
+// ============================================================================
+// DEMO: A generic store - it doesn't care what the operation returns
+// ============================================================================
+
+import { InMemoryRepository, type BaseRepository } from "../05-base-repository.js";
+import { systemClock, type Clock } from "./clock.js";
+
+// --- TYPES ---
+
+/** A finished request, kept so a retry with its key gets the same answer. */
+interface IdempotencyRecord<R> {
+  id: string;           // the idempotency key
+  fingerprint: string;  // what the first request asked for
+  createdAt: number;
+  result: R;
+}
+
+interface IdempotencyStoreOptions<R> {
+  retentionMs: number;                              // how long a key is remembered
+  records?: BaseRepository<IdempotencyRecord<R>>;   // default: in memory, gone on restart
+  remember?: (result: R) => boolean;                // false: a retry runs again; default: remember all
+  clock?: Clock;                                    // default: the system clock
+}
+
+type IdempotencyOutcome<R> =
+  | { status: "fresh"; result: R }      // first time we saw this key
+  | { status: "replayed"; result: R }   // same key and payload: original result
+  | { status: "conflict" };             // same key, different payload
+
+// --- STORE ---
+
+class IdempotencyStore<R> {
+  private readonly records: BaseRepository<IdempotencyRecord<R>>;
+  private readonly remember: (result: R) => boolean;
+  private readonly clock: Clock;
+  private readonly running = new Map<string, Promise<IdempotencyOutcome<R>>>();
+
+  constructor(private readonly options: IdempotencyStoreOptions<R>) {
+    this.records = options.records ?? new InMemoryRepository<IdempotencyRecord<R>>();
+    this.remember = options.remember ?? (() => true);
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /**
+   * Run `operation` at most once per key. A retry that arrives while the
+   * first call is still running waits for it, then gets its result.
+   * Results `remember` turns down (say, a timeout) and thrown errors are
+   * not kept, so the client can simply try again.
+   */
+  run(key: string, fingerprint: string, operation: () => Promise<R>): Promise<IdempotencyOutcome<R>> {
+    const previous = this.running.get(key) ?? Promise.resolve(null);
+    const attempt = previous.catch(() => null).then(() => this.attempt(key, fingerprint, operation));
+    this.running.set(key, attempt);
+    attempt
+      .finally(() => {
+        if (this.running.get(key) === attempt) this.running.delete(key);
+      })
+      .catch(() => undefined);  // the caller gets the error
+    return attempt;
+  }
+
+  private async attempt(key: string, fingerprint: string, operation: () => Promise<R>): Promise<IdempotencyOutcome<R>> {
+    await this.purgeExpired();
+
+    const existing = await this.records.findById(key);
+    if (existing) {
+      if (existing.fingerprint !== fingerprint) {
+        return { status: "conflict" };
+      }
+      return { status: "replayed", result: existing.result };
+    }
+
+    const result = await operation();
+    if (this.remember(result)) {
+      await this.records.save({ id: key, fingerprint, createdAt: this.clock.now().getTime(), result });
+    }
+    return { status: "fresh", result };
+  }
+
+  async has(key: string): Promise<boolean> {
+    await this.purgeExpired();
+    return (await this.records.findById(key)) !== null;
+  }
+
+  async purgeExpired(): Promise<void> {
+    const cutoff = this.clock.now().getTime() - this.options.retentionMs;
+    const expired = await this.records.findWhere((record) => record.createdAt <= cutoff);
+    await Promise.all(expired.map((record) => this.records.delete(record.id)));
+  }
+}
+
+export { IdempotencyStore, type IdempotencyStoreOptions, type IdempotencyOutcome, type IdempotencyRecord };
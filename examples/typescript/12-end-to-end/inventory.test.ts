@@ -0,0 +1,84 @@
+// ============================================================================
+// 12-END-TO-END / INVENTORY TESTS: Reservations and Syncing with the Orders
+// ============================================================================
+// Run with `npm test`. Plain synchronous checks - no files, no clock.
+// ============================================================================
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { Inventory } from "./inventory.js";
+
+function widgets(onHand = 10): Inventory {
+  return new Inventory([{ productId: 101, onHand }]);
+}
+
+// --- RESERVING ---
+
+test("a reservation takes every line or none", () => {
+  const inventory = new Inventory([
+    { productId: 101, onHand: 5 },
+    { productId: 102, onHand: 1 },
+  ]);
+
+  const refused = inventory.reserve("1", [
+    { productId: 101, quantity: 2 },
+    { productId: 102, quantity: 2 },
+  ]);
+  assert.deepEqual(refused, { success: false, shortages: [{ productId: 102, requested: 2, available: 1 }] });
+  assert.equal(inventory.available(101), 5);
+});
+
+test("duplicate lines are summed before checking", () => {
+  const inventory = widgets(3);
+  const refused = inventory.reserve("1", [
+    { productId: 101, quantity: 2 },
+    { productId: 101, quantity: 2 },
+  ]);
+  assert.equal(refused.success, false);
+});
+
+test("releasing gives units back, committing takes them off the shelf", () => {
+  const inventory = widgets();
+  inventory.reserve("1", [{ productId: 101, quantity: 2 }]);
+  inventory.reserve("2", [{ productId: 101, quantity: 3 }]);
+
+  assert.equal(inventory.release("1"), true);
+  assert.equal(inventory.commit("2"), true);
+  assert.deepEqual(inventory.getLevel(101), { productId: 101, onHand: 7, reserved: 0 });
+  assert.equal(inventory.release("1"), false);
+});
+
+// --- SYNCING ---
+
+test("a sync replaces the levels with what the records say", () => {
+  const inventory = widgets();
+  inventory.reserve("1", [{ productId: 101, quantity: 4 }]);
+
+  // Order 1 was cancelled elsewhere; order 2 holds 2 and 3 have shipped
+  inventory.sync([{ id: "2", lines: [{ productId: 101, quantity: 2 }] }], [{ productId: 101, quantity: 3 }], () => true);
+
+  assert.deepEqual(inventory.getLevel(101), { productId: 101, onHand: 7, reserved: 2 });
+  assert.equal(inventory.release("1"), false);
+});
+
+test("a sync keeps reservations the records don't know about yet", () => {
+  const inventory = widgets();
+  inventory.reserve("3", [{ productId: 101, quantity: 4 }]);
+
+  inventory.sync([{ id: "1", lines: [{ productId: 101, quantity: 5 }] }], [], (id) => id === "1");
+  assert.equal(inventory.available(101), 1);
+
+  // Syncing twice doesn't count anything twice
+  inventory.sync([{ id: "1", lines: [{ productId: 101, quantity: 5 }] }], [], (id) => id === "1");
+  assert.equal(inventory.available(101), 1);
+});
+
+test("shortages name the lines a sync left uncovered", () => {
+  const inventory = widgets();
+  inventory.reserve("2", [{ productId: 101, quantity: 4 }]);
+  assert.deepEqual(inventory.shortages("2"), []);
+
+  // Another process took 8 of the 10 first
+  inventory.sync([{ id: "1", lines: [{ productId: 101, quantity: 8 }] }], [], (id) => id === "1");
+  assert.deepEqual(inventory.shortages("2"), [{ productId: 101, requested: 4, available: 2 }]);
+});
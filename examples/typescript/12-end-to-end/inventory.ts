@@ -0,0 +1,202 @@
+// ============================================================================
+// 12-END-TO-END / INVENTORY: Stock Levels and Reservations
+// ============================================================================
+// DEMO: Numeric stock instead of an `inStock` flag, reserved atomically
+// ============================================================================
+
+// --- TYPES ---
+
+interface StockLevel {
+  productId: number;
+  onHand: number;    // physically in the warehouse
+  reserved: number;  // promised to orders that have not shipped yet
+}
+
+interface ReservationLine {
+  productId: number;
+  quantity: number;
+}
+
+interface Reservation {
+  id: string;  // chosen by the caller, e.g. the order id, so it can be found again after a restart
+  lines: ReservationLine[];
+}
+
+interface InsufficientStock {
+  productId: number;
+  requested: number;
+  available: number;
+}
+
+type ReserveResult =
+  | { success: true; reservation: Reservation }
+  | { success: false; shortages: InsufficientStock[] };
+
+// --- INVENTORY ---
+
+/**
+ * Every method is synchronous on purpose: JavaScript cannot interleave
+ * another caller between "check availability" and "reserve", so two
+ * concurrent orders can never both take the last unit.
+ */
+class Inventory {
+  private readonly levels: Map<number, StockLevel>;
+  private readonly reservations = new Map<string, Reservation>();
+
+  constructor(private readonly initial: { productId: number; onHand: number }[]) {
+    this.levels = new Map(
+      initial.map(({ productId, onHand }) => [productId, { productId, onHand, reserved: 0 }])
+    );
+  }
+
+  available(productId: number): number {
+    const level = this.levels.get(productId);
+    return level ? level.onHand - level.reserved : 0;
+  }
+
+  getLevel(productId: number): StockLevel | undefined {
+    const level = this.levels.get(productId);
+    return level ? { ...level } : undefined;
+  }
+
+  /** Report every product that can't cover its lines, without reserving. */
+  check(lines: ReservationLine[]): InsufficientStock[] {
+    return mergeLines(lines)
+      .map(({ productId, quantity }) => ({
+        productId,
+        requested: quantity,
+        available: this.available(productId),
+      }))
+      .filter((line) => line.requested > line.available);
+  }
+
+  /**
+   * Match the records kept elsewhere: start over from the initial levels,
+   * take off `shipped` units that have left the warehouse and hold the
+   * `held` reservations. A reservation those records don't know about yet
+   * (`isRecorded` says no) is kept as it is - say, an order still being placed.
+   */
+  sync(
+    held: readonly Reservation[],
+    shipped: readonly ReservationLine[],
+    isRecorded: (reservationId: string) => boolean
+  ): void {
+    const pending = [...this.reservations.values()].filter((reservation) => !isRecorded(reservation.id));
+    this.reservations.clear();
+    for (const { productId, onHand } of this.initial) {
+      this.levels.set(productId, { productId, onHand, reserved: 0 });
+    }
+
+    for (const { productId, quantity } of mergeLines(shipped)) {
+      const level = this.levels.get(productId);
+      if (level) level.onHand -= quantity;
+    }
+    for (const { id, lines } of [...held, ...pending]) {
+      const merged = mergeLines(lines).filter((line) => this.levels.has(line.productId));
+      for (const line of merged) {
+        this.levels.get(line.productId)!.reserved += line.quantity;
+      }
+      this.reservations.set(id, { id, lines: merged });
+    }
+  }
+
+  /**
+   * The lines of a reservation the stock no longer covers: after a sync
+   * found more units held than there are, e.g. by another process.
+   */
+  shortages(reservationId: string): InsufficientStock[] {
+    const reservation = this.reservations.get(reservationId);
+    if (!reservation) {
+      return [];
+    }
+    return reservation.lines
+      .filter((line) => this.available(line.productId) < 0)
+      .map(({ productId, quantity }) => ({
+        productId,
+        requested: quantity,
+        available: Math.max(0, quantity + this.available(productId)),
+      }));
+  }
+
+  /** Reserve every line or none of them. Duplicate products are summed. */
+  reserve(reservationId: string, lines: ReservationLine[]): ReserveResult {
+    if (this.reservations.has(reservationId)) {
+      throw new Error(`Reservation ${reservationId} already exists`);
+    }
+    const shortages = this.check(lines);
+    if (shortages.length > 0) {
+      return { success: false, shortages };
+    }
+
+    const merged = mergeLines(lines);
+    for (const line of merged) {
+      this.levels.get(line.productId)!.reserved += line.quantity;
+    }
+
+    const reservation: Reservation = { id: reservationId, lines: merged };
+    this.reservations.set(reservation.id, reservation);
+    return { success: true, reservation };
+  }
+
+  /** Give reserved units back (e.g. order cancelled). */
+  release(reservationId: string): boolean {
+    const reservation = this.reservations.get(reservationId);
+    if (!reservation) {
+      return false;
+    }
+    for (const line of reservation.lines) {
+      this.levels.get(line.productId)!.reserved -= line.quantity;
+    }
+    this.reservations.delete(reservationId);
+    return true;
+  }
+
+  /** Give back part of a reservation (e.g. some units taken off an order). */
+  releaseUnits(reservationId: string, lines: readonly ReservationLine[]): boolean {
+    const reservation = this.reservations.get(reservationId);
+    if (!reservation) {
+      return false;
+    }
+    for (const { productId, quantity } of mergeLines(lines)) {
+      const reserved = reservation.lines.find((line) => line.productId === productId);
+      if (!reserved) continue;
+      const released = Math.min(quantity, reserved.quantity);
+      reserved.quantity -= released;
+      this.levels.get(productId)!.reserved -= released;
+    }
+    reservation.lines = reservation.lines.filter((line) => line.quantity > 0);
+    return true;
+  }
+
+  /** Reserved units leave the warehouse (e.g. order shipped). */
+  commit(reservationId: string): boolean {
+    const reservation = this.reservations.get(reservationId);
+    if (!reservation) {
+      return false;
+    }
+    for (const line of reservation.lines) {
+      const level = this.levels.get(line.productId)!;
+      level.reserved -= line.quantity;
+      level.onHand -= line.quantity;
+    }
+    this.reservations.delete(reservationId);
+    return true;
+  }
+}
+
+function mergeLines(lines: readonly ReservationLine[]): ReservationLine[] {
+  const merged = new Map<number, number>();
+  for (const line of lines) {
+    merged.set(line.productId, (merged.get(line.productId) ?? 0) + line.quantity);
+  }
+  return [...merged].map(([productId, quantity]) => ({ productId, quantity }));
+}
+
+export {
+  Inventory,
+  type StockLevel,
+  type ReservationLine,
+  type Reservation,
+  type InsufficientStock,
+  type ReserveResult,
+};
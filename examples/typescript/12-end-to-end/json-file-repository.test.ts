@@ -0,0 +1,99 @@
+// ============================================================================
+// 12-END-TO-END / JSON FILE REPOSITORY TESTS: Two Writers, One File
+// ============================================================================
+// Run with `npm test`. Two repositories on the same file stand in for the
+// server and the CLI: neither may lose what the other wrote.
+// ============================================================================
+
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, test } from "node:test";
+import { JsonFileRepository, type JsonCodec } from "./json-file-repository.js";
+
+interface Note {
+  id: string;
+  text: string;
+  at: Date;
+}
+
+const noteCodec: JsonCodec<Note> = {
+  encode: (note) => note,
+  decode: (raw) => {
+    const stored = raw as Omit<Note, "at"> & { at: string };
+    return { ...stored, at: new Date(stored.at) };
+  },
+};
+
+const dataDir = await mkdtemp(join(tmpdir(), "json-file-repository-test-"));
+after(() => rm(dataDir, { recursive: true, force: true }));
+
+let files = 0;
+
+function twoWriters() {
+  const filePath = join(dataDir, `notes-${++files}.json`);
+  return {
+    filePath,
+    server: new JsonFileRepository<Note>(filePath, noteCodec),
+    cli: new JsonFileRepository<Note>(filePath, noteCodec),
+  };
+}
+
+function note(id: string, text = id): Note {
+  return { id, text, at: new Date("2026-01-05T10:00:00Z") };
+}
+
+// --- ROUND TRIP ---
+
+test("entities come back with their Dates", async () => {
+  const { filePath, server } = twoWriters();
+  await server.save(note("a"));
+
+  const reopened = new JsonFileRepository<Note>(filePath, noteCodec);
+  assert.deepEqual(await reopened.findById("a"), note("a"));
+});
+
+// --- TWO WRITERS ---
+
+test("a save doesn't drop what another writer saved since", async () => {
+  const { filePath, server, cli } = twoWriters();
+  await server.findAll();  // loaded before the CLI writes
+  await cli.save(note("from-cli"));
+  await server.save(note("from-server"));
+
+  const stored = JSON.parse(await readFile(filePath, "utf8")) as Note[];
+  assert.deepEqual(stored.map((n) => n.id).sort(), ["from-cli", "from-server"]);
+  assert.equal((await cli.findAll()).length, 2);
+});
+
+test("concurrent saves from both writers all land", async () => {
+  const { server, cli } = twoWriters();
+  await Promise.all(
+    Array.from({ length: 10 }, (_, i) => (i % 2 === 0 ? server : cli).save(note(String(i))))
+  );
+
+  assert.equal((await server.findAll()).length, 10);
+  assert.equal((await cli.findAll()).length, 10);
+});
+
+test("saveIf checks against the other writer's latest copy", async () => {
+  const { server, cli } = twoWriters();
+  await server.save(note("a", "first"));
+  await cli.findAll();
+  await server.save(note("a", "second"));
+
+  const saved = await cli.saveIf(note("a", "stale"), (current) => current?.text === "first");
+  assert.equal(saved, false);
+  assert.equal((await server.findById("a"))?.text, "second");
+});
+
+test("a delete by one writer is seen by the other", async () => {
+  const { server, cli } = twoWriters();
+  await server.save(note("a"));
+  assert.ok(await cli.findById("a"));
+
+  assert.equal(await server.delete("a"), true);
+  assert.equal(await cli.findById("a"), null);
+  assert.equal(await cli.delete("a"), false);
+});
@@ -0,0 +1,160 @@
+// ============================================================================
+// 12-END-TO-END / JSON FILE REPOSITORY: Entities That Survive a Restart
+// ============================================================================
+// DEMO: Extending a generic class, and typing what JSON can't carry (Dates)
+// ============================================================================
+
+import { mkdir, readFile, rename, stat, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { InMemoryRepository, type Entity } from "../05-base-repository.js";
+import { withFileLock } from "./file-lock.js";
+
+// --- CODEC ---
+
+// JSON has no Date (or any class), so each repository says how to
+// turn its entity into plain JSON and back again.
+interface JsonCodec<T> {
+  encode(entity: T): unknown;
+  decode(raw: unknown): T;
+}
+
+// --- REPOSITORY ---
+
+/**
+ * Keeps every entity in memory (via InMemoryRepository) and rewrites the
+ * whole file after each change. Other processes write the same file (the
+ * CLI next to the server), so each call first reloads the file if it
+ * changed, and each change is made holding the file's lock - reload,
+ * apply, write - so nobody's records are overwritten by an older copy.
+ */
+class JsonFileRepository<T extends Entity> extends InMemoryRepository<T> {
+  private turn: Promise<unknown> = Promise.resolve();
+  private loaded: string | null = null;  // which version of the file `entities` holds
+
+  constructor(
+    private readonly filePath: string,
+    private readonly codec: JsonCodec<T>
+  ) {
+    super();
+  }
+
+  /** Calls take turns, so a reload never lands in the middle of a change. */
+  private exclusive<R>(work: () => Promise<R>): Promise<R> {
+    const result = this.turn.catch(() => undefined).then(work);
+    this.turn = result;
+    return result;
+  }
+
+  private reading<R>(read: () => Promise<R>): Promise<R> {
+    return this.exclusive(async () => {
+      await this.reload();
+      return read();
+    });
+  }
+
+  /** Apply `change` to the latest file and write it back, all under the lock. */
+  private writing<R>(change: () => Promise<R>, changed: (result: R) => boolean): Promise<R> {
+    return this.exclusive(() =>
+      withFileLock(this.filePath, async () => {
+        await this.reload();
+        const result = await change();
+        if (changed(result)) {
+          try {
+            await writeAtomically(this.filePath, this.serialize());
+            this.loaded = await this.version();
+          } catch (error) {
+            this.loaded = null;  // memory is ahead of the file: read it again next time
+            throw error;
+          }
+        }
+        return result;
+      })
+    );
+  }
+
+  /** Identifies one write of the file: each one renames a new file into place. */
+  private async version(): Promise<string> {
+    try {
+      const { ino, size, mtimeMs } = await stat(this.filePath);
+      return `${ino}:${size}:${mtimeMs}`;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return "none";  // first run - nothing saved yet
+      }
+      throw error;
+    }
+  }
+
+  private async reload(): Promise<void> {
+    const version = await this.version();
+    if (version === this.loaded) {
+      return;
+    }
+
+    let text = "[]";
+    try {
+      text = await readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+    }
+
+    const raw: unknown = JSON.parse(text);
+    if (!Array.isArray(raw)) {
+      throw new TypeError(`${this.filePath} must contain a JSON array`);
+    }
+    const entities = raw.map((item) => this.codec.decode(item));
+    this.entities.clear();
+    for (const entity of entities) {
+      this.store(entity);
+    }
+    this.loaded = version;
+  }
+
+  private serialize(): string {
+    return JSON.stringify(
+      [...this.entities.values()].map((entity) => this.codec.encode(entity)),
+      null,
+      2
+    );
+  }
+
+  async findById(id: T["id"]): Promise<T | null> {
+    return this.reading(() => super.findById(id));
+  }
+
+  async findAll(): Promise<T[]> {
+    return this.reading(() => super.findAll());
+  }
+
+  async save(entity: T): Promise<T> {
+    return this.writing(() => super.save(entity), () => true);
+  }
+
+  async saveIf(entity: T, check: (current: T | null) => boolean): Promise<boolean> {
+    return this.writing(() => super.saveIf(entity, check), (saved) => saved);
+  }
+
+  async update(id: T["id"], changes: Partial<Omit<T, "id">>): Promise<T | null> {
+    return this.writing(() => super.update(id, changes), (updated) => updated !== null);
+  }
+
+  async delete(id: T["id"]): Promise<boolean> {
+    return this.writing(() => super.delete(id), (deleted) => deleted);
+  }
+
+  async nextId(): Promise<number> {
+    return this.reading(() => super.nextId());
+  }
+}
+
+// Write to a temp file, then rename: a crash mid-write never leaves half a file
+async function writeAtomically(filePath: string, contents: string): Promise<void> {
+  await mkdir(dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  await writeFile(tempPath, contents, "utf8");
+  await rename(tempPath, filePath);
+}
+
+export { JsonFileRepository, type JsonCodec };
@@ -0,0 +1,54 @@
+// ============================================================================
+// 12-END-TO-END / MONEY TESTS: Rounding, Allocation and Bad Amounts
+// ============================================================================
+// Run with `npm test`. Mixed currencies are refused by the compiler, so
+// only the runtime checks are tested here.
+// ============================================================================
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { allocate, formatMoney, fromDecimal, money, multiplyMoney, roundMinorUnits } from "./money.js";
+
+// --- CONSTRUCTORS ---
+
+test("a fractional or unsafe number of cents is refused", () => {
+  assert.throws(() => money(29.99), RangeError);
+  assert.throws(() => money(Number.MAX_SAFE_INTEGER + 1), RangeError);
+  assert.throws(() => money(Number.NaN), RangeError);
+  assert.throws(() => multiplyMoney(money(2999), 1.5), RangeError);
+});
+
+test("decimals lose their float noise before rounding", () => {
+  assert.equal(fromDecimal(29.99), 2999);
+  assert.equal(fromDecimal(0.125), 12);
+  assert.equal(fromDecimal(0.125, "half-up"), 13);
+});
+
+// --- ROUNDING ---
+
+test("each rounding mode treats halves and negatives its own way", () => {
+  assert.deepEqual([2.5, 3.5, -2.5].map((value) => roundMinorUnits(value, "half-even")), [2, 4, -2]);
+  assert.deepEqual([2.5, -2.5].map((value) => roundMinorUnits(value, "half-up")), [3, -3]);
+  assert.deepEqual([2.7, -2.7].map((value) => roundMinorUnits(value, "down")), [2, -2]);
+  assert.deepEqual([2.1, -2.1].map((value) => roundMinorUnits(value, "up")), [3, -3]);
+});
+
+// --- ALLOCATION ---
+
+test("allocated parts add back up to the total, with the sign kept", () => {
+  assert.deepEqual(allocate(money(1000), [1, 1, 1]), [334, 333, 333]);
+  assert.deepEqual(allocate(money(-1000), [1, 1, 1]), [-334, -333, -333]);
+  assert.deepEqual(allocate(money(1000), []), []);
+});
+
+test("weights that can't split anything are refused", () => {
+  assert.throws(() => allocate(money(1000), [0, 0]), RangeError);
+  assert.throws(() => allocate(money(1000), [2, -1]), RangeError);
+});
+
+// --- FORMATTING ---
+
+test("amounts are formatted in the locale asked for", () => {
+  assert.equal(formatMoney(money(2999), "USD", "en-US"), "$29.99");
+  assert.match(formatMoney(money(123456), "EUR", "de-DE"), /^1\.234,56\s€$/);
+});
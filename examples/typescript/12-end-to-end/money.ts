@@ -0,0 +1,188 @@
+// ============================================================================
+// 12-END-TO-END / MONEY: Integer-Cent Amounts with a Branded Type
+// ============================================================================
+// DEMO: Branded types stop raw floats (and mixed currencies) from sneaking
+//       into money math
+// ============================================================================
+
+import { formatCurrency } from "../11-gradual-migration.js";
+
+// --- CURRENCIES ---
+
+type CurrencyCode = "USD" | "EUR" | "GBP";
+
+const currencyCodes = ["USD", "EUR", "GBP"] as const satisfies readonly CurrencyCode[];
+
+function isCurrencyCode(value: string): value is CurrencyCode {
+  return (currencyCodes as readonly string[]).includes(value);
+}
+
+// --- THE BRAND ---
+
+// At runtime a Money is just an integer number of cents.
+// At compile time it is a distinct type: a plain `number` is NOT a Money,
+// and the currency is part of the type.
+declare const moneyBrand: unique symbol;
+declare const currencyBrand: unique symbol;
+
+// The function type makes C invariant: Money<"USD"> and Money<"EUR"> are not
+// assignable either way, so addMoney(usd, eur) can't widen C to "USD" | "EUR".
+// Plain `Money` is an amount whose currency is only known at runtime.
+type Money<C extends CurrencyCode = CurrencyCode> = number & {
+  readonly [moneyBrand]: "Money";
+  readonly [currencyBrand]: (currency: C) => C;
+};
+
+// const price: Money = 29.99;
+// ❌ Error: Type 'number' is not assignable to type 'Money'
+// addMoney(money<"USD">(500), money<"EUR">(500));
+// ❌ Error: Argument of type 'Money<"USD">' is not assignable to parameter of type 'Money<"USD" | "EUR">'
+//    (convert first - see convertMoney in exchange-rates.ts)
+
+type RoundingMode = "half-up" | "half-even" | "down" | "up";
+
+// --- CONSTRUCTORS ---
+
+/** Create a Money from integer minor units (cents): money<"EUR">(500) is €5.00. */
+function money<C extends CurrencyCode = CurrencyCode>(minorUnits: number): Money<C> {
+  if (!Number.isSafeInteger(minorUnits)) {
+    throw new RangeError(`Money must be an integer number of cents, got ${minorUnits}`);
+  }
+  return minorUnits as Money<C>;
+}
+
+/** Zero in whichever currency the sum it starts is in: zero<"EUR">(). */
+function zero<C extends CurrencyCode = CurrencyCode>(): Money<C> {
+  return money(0);
+}
+
+// const total: Money<"USD"> = zero<"EUR">();
+// ❌ Error: Type 'Money<"EUR">' is not assignable to type 'Money<"USD">'
+
+
+/** Convert a decimal amount (e.g. 29.99) to Money, rounding explicitly. */
+function fromDecimal<C extends CurrencyCode = CurrencyCode>(
+  amount: number,
+  mode: RoundingMode = "half-even"
+): Money<C> {
+  return money(roundMinorUnits(amount * 100, mode));
+}
+
+function toDecimal<C extends CurrencyCode>(amount: Money<C>): number {
+  return amount / 100;
+}
+
+// --- ROUNDING ---
+
+function roundMinorUnits(value: number, mode: RoundingMode): number {
+  // Trim float noise first: 29.99 * 100 is 2998.9999999999995, not 2999
+  const cleaned = Number(value.toPrecision(12));
+  const floor = Math.floor(cleaned);
+  const fraction = cleaned - floor;
+
+  switch (mode) {
+    case "down":
+      return Math.trunc(cleaned);
+    case "up":
+      return cleaned < 0 ? Math.floor(cleaned) : Math.ceil(cleaned);
+    case "half-up":
+      return Math.sign(cleaned) * Math.round(Math.abs(cleaned));
+    case "half-even":
+      if (Math.abs(fraction - 0.5) > 1e-9) {
+        return Math.round(cleaned);
+      }
+      return floor % 2 === 0 ? floor : floor + 1;
+  }
+}
+
+// --- ARITHMETIC ---
+
+// Generic over C: the result is in the same currency as the inputs
+
+function addMoney<C extends CurrencyCode>(...amounts: Money<C>[]): Money<C> {
+  return money(amounts.reduce((sum, amount) => sum + amount, 0));
+}
+
+function subtractMoney<C extends CurrencyCode>(a: Money<C>, b: Money<C>): Money<C> {
+  return money(a - b);
+}
+
+/** Multiply by an integer quantity - always exact. */
+function multiplyMoney<C extends CurrencyCode>(amount: Money<C>, quantity: number): Money<C> {
+  if (!Number.isInteger(quantity)) {
+    throw new RangeError(`Quantity must be an integer, got ${quantity}`);
+  }
+  return money(amount * quantity);
+}
+
+/** Apply a fractional rate (e.g. 0.08 tax); the result must be rounded. */
+function applyRate<C extends CurrencyCode>(amount: Money<C>, rate: number, mode: RoundingMode): Money<C> {
+  return money(roundMinorUnits(amount * rate, mode));
+}
+
+// --- ALLOCATION ---
+
+/**
+ * Split `total` in proportion to `weights` so the parts add up to `total`
+ * exactly. Leftover cents go to the parts with the largest remainders.
+ *
+ *   allocate(money(1000), [1, 1, 1]) → [334, 333, 333]
+ */
+function allocate<C extends CurrencyCode>(total: Money<C>, weights: readonly number[]): Money<C>[] {
+  const weightSum = weights.reduce((sum, w) => sum + w, 0);
+  if (weights.length === 0) {
+    return [];
+  }
+  if (weightSum <= 0 || weights.some((w) => w < 0)) {
+    throw new RangeError("Allocation weights must be non-negative with a positive sum");
+  }
+
+  const sign = total < 0 ? -1 : 1;
+  const absTotal = Math.abs(total);
+  const exact = weights.map((w) => (absTotal * w) / weightSum);
+  const parts = exact.map((share) => Math.floor(share));
+
+  let leftover = absTotal - parts.reduce((sum, p) => sum + p, 0);
+  const byRemainder = exact
+    .map((share, index) => ({ index, remainder: share - Math.floor(share) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+  for (const { index } of byRemainder) {
+    if (leftover === 0) break;
+    parts[index] += 1;
+    leftover -= 1;
+  }
+
+  return parts.map((p) => money(sign * p));
+}
+
+// --- FORMATTING ---
+
+/**
+ * Goes through formatCurrency from 11-gradual-migration.ts. The currency
+ * argument must match the amount's type: formatMoney(euros, "USD") won't compile.
+ *
+ *   formatMoney(money(123456), "EUR", "de-DE") → "1.234,56 €"
+ */
+function formatMoney<C extends CurrencyCode>(amount: Money<C>, currency: C, locale?: string): string {
+  return formatCurrency(toDecimal(amount), { currency, locale });
+}
+
+export {
+  currencyCodes,
+  isCurrencyCode,
+  money,
+  zero,
+  fromDecimal,
+  toDecimal,
+  roundMinorUnits,
+  addMoney,
+  subtractMoney,
+  multiplyMoney,
+  applyRate,
+  allocate,
+  formatMoney,
+  type Money,
+  type CurrencyCode,
+  type RoundingMode,
+};
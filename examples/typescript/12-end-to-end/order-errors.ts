@@ -0,0 +1,193 @@
+// ============================================================================
+// 12-END-TO-END / ORDER ERRORS: Structured Problems Instead of Strings
+// ============================================================================
+// DEMO: Discriminated unions let callers branch on `code`, not on English
+// ============================================================================
+
+import { formatMoney, type CurrencyCode, type Money } from "./money.js";
+
+// --- PROBLEM KINDS ---
+
+interface UserNotFound {
+  code: "USER_NOT_FOUND";
+  userId: number;
+}
+
+interface EmptyOrder {
+  code: "EMPTY_ORDER";
+}
+
+interface InvalidQuantity {
+  code: "INVALID_QUANTITY";
+  itemIndex: number;  // position in the CreateOrderItem[] input
+  productId: number;
+  quantity: number;
+}
+
+interface ProductNotFound {
+  code: "PRODUCT_NOT_FOUND";
+  itemIndex: number;
+  productId: number;
+}
+
+interface OutOfStock {
+  code: "OUT_OF_STOCK";
+  productId: number;
+  productName: string;
+  requested: number;
+  available: number;
+}
+
+interface UnknownJurisdiction {
+  code: "UNKNOWN_JURISDICTION";
+  jurisdiction: string;
+}
+
+interface AddressNotFound {
+  code: "ADDRESS_NOT_FOUND";
+  userId: number;
+  addressId: string;
+}
+
+interface ShippingMethodNotFound {
+  code: "SHIPPING_METHOD_NOT_FOUND";
+  shippingMethodId: string;
+}
+
+interface ShippingUnavailable {
+  code: "SHIPPING_UNAVAILABLE";
+  shippingMethodId: string;
+  reason: "COUNTRY_NOT_SERVED" | "TOO_HEAVY";
+}
+
+// The caller agreed to pay `expectedTotal` (e.g. the total shown at
+// checkout), but prices moved before the order was placed
+interface TotalChanged {
+  code: "TOTAL_CHANGED";
+  currency: CurrencyCode;
+  expectedTotal: Money;
+  actualTotal: Money;
+}
+
+// The card was refused when authorizing the total
+interface PaymentDeclined {
+  code: "PAYMENT_DECLINED";
+  reason: string;
+}
+
+// The gateway never answered, not even to a retry
+interface PaymentTimeout {
+  code: "PAYMENT_TIMEOUT";
+}
+
+interface IdempotencyConflict {
+  code: "IDEMPOTENCY_CONFLICT";
+  idempotencyKey: string;
+}
+
+type CreateOrderProblem =
+  | UserNotFound
+  | EmptyOrder
+  | InvalidQuantity
+  | ProductNotFound
+  | OutOfStock
+  | UnknownJurisdiction
+  | AddressNotFound
+  | ShippingMethodNotFound
+  | ShippingUnavailable
+  | TotalChanged
+  | PaymentDeclined
+  | PaymentTimeout
+  | IdempotencyConflict;
+
+type CreateOrderProblemCode = CreateOrderProblem["code"];
+
+// At least one problem - an error result with an empty list makes no sense
+type NonEmptyArray<T> = [T, ...T[]];
+
+// --- CHECKS ---
+
+function isValidQuantity(quantity: number): boolean {
+  // Rejects 0, negatives, 1.5, NaN and Infinity
+  return Number.isInteger(quantity) && quantity > 0;
+}
+
+// Problems the same request would hit again, so an idempotent retry can
+// replay them. The rest depend on stock, prices or the card, which can
+// change between tries.
+const REPEATS_ON_RETRY: Record<CreateOrderProblemCode, boolean> = {
+  USER_NOT_FOUND: true,
+  EMPTY_ORDER: true,
+  INVALID_QUANTITY: true,
+  PRODUCT_NOT_FOUND: true,
+  UNKNOWN_JURISDICTION: true,
+  ADDRESS_NOT_FOUND: true,
+  SHIPPING_METHOD_NOT_FOUND: true,
+  SHIPPING_UNAVAILABLE: true,
+  OUT_OF_STOCK: false,
+  TOTAL_CHANGED: false,
+  PAYMENT_DECLINED: false,
+  PAYMENT_TIMEOUT: false,
+  IDEMPOTENCY_CONFLICT: false,
+};
+
+function repeatsOnRetry(problem: CreateOrderProblem): boolean {
+  return REPEATS_ON_RETRY[problem.code];
+}
+
+// --- MESSAGES ---
+
+function describeCreateOrderProblem(problem: CreateOrderProblem): string {
+  switch (problem.code) {
+    case "USER_NOT_FOUND":
+      return `User ${problem.userId} not found`;
+    case "EMPTY_ORDER":
+      return "Order has no items";
+    case "INVALID_QUANTITY":
+      return `Item ${problem.itemIndex + 1} (product ${problem.productId}): quantity must be a positive whole number, got ${problem.quantity}`;
+    case "PRODUCT_NOT_FOUND":
+      return `Item ${problem.itemIndex + 1}: product ${problem.productId} not found`;
+    case "OUT_OF_STOCK":
+      return `Product ${problem.productName} is out of stock (requested ${problem.requested}, available ${problem.available})`;
+    case "UNKNOWN_JURISDICTION":
+      return `Unknown tax jurisdiction ${problem.jurisdiction}`;
+    case "ADDRESS_NOT_FOUND":
+      return `User ${problem.userId} has no address "${problem.addressId}"`;
+    case "SHIPPING_METHOD_NOT_FOUND":
+      return `Unknown shipping method "${problem.shippingMethodId}"`;
+    case "SHIPPING_UNAVAILABLE":
+      return problem.reason === "TOO_HEAVY"
+        ? `Shipping method "${problem.shippingMethodId}" can't carry a parcel this heavy`
+        : `Shipping method "${problem.shippingMethodId}" doesn't deliver to this country`;
+    case "TOTAL_CHANGED":
+      return `Order total changed from ${formatMoney(problem.expectedTotal, problem.currency)} to ${formatMoney(problem.actualTotal, problem.currency)}`;
+    case "PAYMENT_DECLINED":
+      return `Payment was declined (${problem.reason})`;
+    case "PAYMENT_TIMEOUT":
+      return "The payment provider did not answer in time - try again";
+    case "IDEMPOTENCY_CONFLICT":
+      return `Idempotency key "${problem.idempotencyKey}" was already used for a different order`;
+  }
+}
+
+export {
+  isValidQuantity,
+  repeatsOnRetry,
+  describeCreateOrderProblem,
+  type CreateOrderProblem,
+  type CreateOrderProblemCode,
+  type NonEmptyArray,
+  type UserNotFound,
+  type EmptyOrder,
+  type InvalidQuantity,
+  type ProductNotFound,
+  type OutOfStock,
+  type UnknownJurisdiction,
+  type AddressNotFound,
+  type ShippingMethodNotFound,
+  type ShippingUnavailable,
+  type TotalChanged,
+  type PaymentDeclined,
+  type PaymentTimeout,
+  type IdempotencyConflict,
+};
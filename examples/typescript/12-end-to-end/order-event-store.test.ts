@@ -0,0 +1,133 @@
+// ============================================================================
+// 12-END-TO-END / ORDER EVENT STORE TESTS: Recording, Replay and Shared Logs
+// ============================================================================
+// Run with `npm test`. Orders come from test-fixtures.ts, mostly bare: the
+// store only cares which events a change turns into.
+// ============================================================================
+
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, test } from "node:test";
+import { InMemoryRepository } from "../05-base-repository.js";
+import type { Order } from "../12-end-to-end.js";
+import { FakeClock } from "./clock.js";
+import { InMemoryEventLog, JsonLinesEventLog } from "./event-log.js";
+import { createIdGenerator } from "./id-generators.js";
+import {
+  EventSourcedOrderRepository,
+  type EventSourcedOrderRepositoryOptions,
+  type OrderLogEntry,
+  type OrderSnapshot,
+} from "./order-event-store.js";
+import { order, placedAt } from "./test-fixtures.js";
+
+function shipped(placed: Order): Order {
+  return {
+    ...placed,
+    version: placed.version + 1,
+    status: "shipped",
+    statusHistory: [...placed.statusHistory, { from: placed.status, to: "shipped", at: placedAt }],
+  };
+}
+
+function inMemory(options: EventSourcedOrderRepositoryOptions = {}) {
+  return new EventSourcedOrderRepository(
+    new InMemoryEventLog<OrderLogEntry>(),
+    new InMemoryRepository<OrderSnapshot>(),
+    { clock: new FakeClock(placedAt), ...options }
+  );
+}
+
+// --- RECORDING ---
+
+test("a change is recorded as the events that make it", async () => {
+  const orders = inMemory();
+  await orders.save(order("1"));
+  await orders.save(shipped(order("1")));
+
+  const history = await orders.history("1");
+  assert.deepEqual(
+    history.map((entry) => [entry.version, entry.type]),
+    [
+      [1, "OrderCreated"],
+      [1, "StatusChanged"],
+      [2, "StatusChanged"],
+    ]
+  );
+  assert.equal((await orders.replay("1", 1))?.status, "pending");
+  assert.equal((await orders.findById("1"))?.status, "shipped");
+});
+
+test("a change no event describes is refused, not saved without a trace", async () => {
+  const orders = inMemory();
+  await orders.save(order("1"));
+
+  await assert.rejects(orders.save({ ...order("1"), version: 2, locale: "de-DE" }), /can't be recorded/);
+  assert.equal((await orders.findById("1"))?.locale, "en-US");
+});
+
+test("notify's emails are logged in the same append as the change", async () => {
+  const orders = inMemory({
+    notify: (previous, next) =>
+      next.statusHistory.slice(previous?.statusHistory.length ?? 0).map((change) => ({
+        id: `order-${next.id}-${change.to}`,
+        to: next.user.email,
+        from: "orders@example.com",
+        subject: change.to,
+        text: "",
+      })),
+  });
+  await orders.save(order("1"));
+  await orders.save(shipped(order("1")));
+
+  const queued = (await orders.history("1")).filter((entry) => entry.type === "NotificationQueued");
+  assert.deepEqual(
+    queued.map((entry) => [entry.version, entry.type === "NotificationQueued" && entry.email.id]),
+    [
+      [1, "order-1-pending"],
+      [2, "order-1-shipped"],
+    ]
+  );
+  assert.equal((await orders.findById("1"))?.version, 2);  // they don't change the order
+});
+
+// --- IDS ---
+
+test("a deleted order's id is never handed out or saved again", async () => {
+  const orders = inMemory();
+  const ids = createIdGenerator("sequence", { nextNumber: () => orders.nextId() });
+  await orders.save(order(await ids.next()));
+  await orders.save(order(await ids.next()));
+  assert.equal(await orders.delete("2"), true);
+
+  assert.equal(await ids.next(), "3");
+  assert.equal(await orders.saveIf(order("2"), () => true), false);
+  assert.equal(await orders.findById("2"), null);
+});
+
+// --- SHARED LOG ---
+
+const dataDir = await mkdtemp(join(tmpdir(), "order-event-store-test-"));
+after(() => rm(dataDir, { recursive: true, force: true }));
+
+test("two repositories on one log file see each other's orders, and check against them", async () => {
+  const file = join(dataDir, "order-events.jsonl");
+  const codec = { encode: (entry: OrderLogEntry) => entry, decode: (raw: unknown) => raw as OrderLogEntry };
+  const open = () => new EventSourcedOrderRepository(new JsonLinesEventLog(file, codec), new InMemoryRepository<OrderSnapshot>());
+  const server = open();
+  const cli = open();
+
+  await server.findAll();  // loaded before the CLI writes
+  await cli.save(order("1"));
+
+  let seen: string[] = [];
+  const saved = await server.saveIf(order("2"), (current, all) => {
+    seen = all.map((other) => other.id);
+    return current === null;
+  });
+  assert.equal(saved, true);
+  assert.deepEqual(seen, ["1"]);
+  assert.equal(await cli.nextId(), 3);
+});
@@ -0,0 +1,494 @@
+// ============================================================================
+// 12-END-TO-END / ORDER EVENT STORE: Orders Rebuilt from What Happened to Them
+// ============================================================================
+// DEMO: A discriminated union of facts and one exhaustive reducer - a new
+//       kind of event doesn't compile until replay knows what it means
+// ============================================================================
+
+import { isDeepStrictEqual } from "node:util";
+import type { Order, OrderId, OrderItem, OrderPricing, OrderStatus } from "../12-end-to-end.js";
+import { BaseRepository } from "../05-base-repository.js";
+import { systemClock, type Clock } from "./clock.js";
+import type { EventLog } from "./event-log.js";
+import type { StatusChange } from "./order-lifecycle.js";
+import type { OutgoingEmail } from "./outbox.js";
+import type { OrderPayment } from "./payments.js";
+import type { AppliedDiscount } from "./pricing-rules.js";
+import type { OrderRefund } from "./refunds.js";
+
+// --- EVENTS ---
+
+// Everything fixed when the order is placed; items, discounts and statuses
+// follow as events of their own
+type OrderHeader = Omit<Order, "version" | "items" | "discounts" | "status" | "statusHistory" | "refunds">;
+
+// Past tense, like the bus events: each one is a fact, never a request
+type OrderEvent =
+  | { type: "OrderCreated"; order: OrderHeader }
+  | { type: "ItemAdded"; item: OrderItem }
+  | { type: "DiscountApplied"; discount: AppliedDiscount }
+  | { type: "StatusChanged"; change: StatusChange }
+  | { type: "PaymentUpdated"; payment: OrderPayment }
+  | { type: "ItemsRefunded"; refund: OrderRefund; pricing: OrderPricing }  // the remaining lines, re-priced
+  | { type: "OrderImported"; order: Order }  // state carried over from before the log existed
+  | { type: "OrderDeleted" }
+  | { type: "NotificationQueued"; email: OutgoingEmail };  // the outbox entry, logged with the change that sends it
+
+type OrderEventType = OrderEvent["type"];
+
+/** One line of the log. Every event of one save shares its `version`. */
+type OrderLogEntry = OrderEvent & {
+  orderId: OrderId;
+  version: number;
+  recordedAt: Date;
+};
+
+// --- REPLAY ---
+
+/** The whole meaning of every event, in one place. */
+function applyOrderEvent(order: Order | null, entry: OrderLogEntry): Order | null {
+  if (entry.type === "OrderCreated" || entry.type === "OrderImported") {
+    if (order !== null) {
+      throw new Error(`Order ${entry.orderId} was created twice (version ${entry.version})`);
+    }
+    return entry.type === "OrderImported"
+      ? { ...entry.order, version: entry.version }
+      : {
+          ...entry.order,
+          version: entry.version,
+          items: [],
+          discounts: [],
+          status: "pending",
+          statusHistory: [],
+          refunds: [],
+        };
+  }
+  if (order === null) {
+    throw new Error(`Order ${entry.orderId} has a ${entry.type} event before it was created`);
+  }
+
+  const version = entry.version;
+  switch (entry.type) {
+    case "ItemAdded":
+      return { ...order, version, items: [...order.items, entry.item] };
+    case "DiscountApplied":
+      return { ...order, version, discounts: [...order.discounts, entry.discount] };
+    case "StatusChanged":
+      return { ...order, version, status: entry.change.to, statusHistory: [...order.statusHistory, entry.change] };
+    case "PaymentUpdated":
+      return { ...order, version, payment: entry.payment };
+    case "ItemsRefunded":
+      return { ...order, ...entry.pricing, version, refunds: [...order.refunds, entry.refund] };
+    case "OrderDeleted":
+      return null;
+    case "NotificationQueued":
+      return { ...order, version };
+  }
+}
+
+function replayOrder(entries: readonly OrderLogEntry[], from: Order | null = null): Order | null {
+  return entries.reduce(applyOrderEvent, from);
+}
+
+// --- RECORDING ---
+
+/**
+ * The events that turn `previous` into `next`. Orders only ever change in
+ * these ways; anything else is refused by the store rather than saved
+ * without a trace.
+ */
+function orderChanges(previous: Order | null, next: Order): OrderEvent[] {
+  if (previous === null) {
+    const { version: _version, items, discounts, status: _status, statusHistory, refunds: _refunds, ...header } = next;
+    return [
+      { type: "OrderCreated", order: header },
+      ...items.map((item): OrderEvent => ({ type: "ItemAdded", item })),
+      ...discounts.map((discount): OrderEvent => ({ type: "DiscountApplied", discount })),
+      ...statusHistory.map((change): OrderEvent => ({ type: "StatusChanged", change })),
+    ];
+  }
+
+  const { items, subtotal, discount, discounts, shipping, tax, taxBreakdown, total } = next;
+  return [
+    ...next.refunds.slice(previous.refunds.length).map(
+      (refund): OrderEvent => ({
+        type: "ItemsRefunded",
+        refund,
+        pricing: { items, subtotal, discount, discounts, shipping, tax, taxBreakdown, total },
+      })
+    ),
+    ...next.statusHistory.slice(previous.statusHistory.length).map(
+      (change): OrderEvent => ({ type: "StatusChanged", change })
+    ),
+    ...(isDeepStrictEqual(previous.payment, next.payment) ? [] : [{ type: "PaymentUpdated", payment: next.payment } as const]),
+  ];
+}
+
+// Compared as they would be stored: Dates as strings, undefined fields gone
+function sameState(a: Order, b: Order): boolean {
+  const stored = (order: Order): unknown => JSON.parse(JSON.stringify({ ...order, version: 0 }));
+  return isDeepStrictEqual(stored(a), stored(b));
+}
+
+// --- MESSAGES ---
+
+function describeOrderEvent(event: OrderEvent): string {
+  switch (event.type) {
+    case "OrderCreated":
+      return `Placed by ${event.order.user.name} (${event.order.currency})`;
+    case "ItemAdded":
+      return `${event.item.product.name} x${event.item.quantity}`;
+    case "DiscountApplied":
+      return event.discount.label;
+    case "StatusChanged":
+      return `${event.change.from ?? "new"} → ${event.change.to}${event.change.reason ? `: ${event.change.reason}` : ""}`;
+    case "PaymentUpdated":
+      return `Payment ${event.payment.status}`;
+    case "ItemsRefunded": {
+      const lines = event.refund.lines.map((line) => `${line.productName} x${line.quantity}`).join(", ");
+      return `Refund #${event.refund.id} (${event.refund.kind}): ${lines}`;
+    }
+    case "OrderImported":
+      return `Imported as ${event.order.status}, version ${event.order.version}`;
+    case "OrderDeleted":
+      return "Deleted";
+    case "NotificationQueued":
+      return `Email queued: ${event.email.subject}`;
+  }
+}
+
+// --- PROJECTIONS ---
+
+/** A read model folded from the log, kept up to date as events arrive. */
+interface OrderProjection<S> {
+  initial(): S;
+  apply(state: S, entry: OrderLogEntry): S;
+}
+
+// Record<OrderStatus, ...>: a new status gets a bucket or this doesn't compile
+const ordersByStatus: OrderProjection<Record<OrderStatus, OrderId[]>> = {
+  initial: () => ({ pending: [], processing: [], shipped: [], delivered: [], cancelled: [] }),
+  apply: (state, entry) => {
+    const without = (status: OrderStatus) => state[status].filter((id) => id !== entry.orderId);
+    switch (entry.type) {
+      case "StatusChanged":
+        return {
+          ...state,
+          ...(entry.change.from === null ? {} : { [entry.change.from]: without(entry.change.from) }),
+          [entry.change.to]: [...without(entry.change.to), entry.orderId],
+        };
+      case "OrderImported":
+        return { ...state, [entry.order.status]: [...state[entry.order.status], entry.orderId] };
+      case "OrderDeleted": {
+        const next = ordersByStatus.initial();
+        for (const status of Object.keys(next) as OrderStatus[]) next[status] = without(status);
+        return next;
+      }
+      default:
+        return state;
+    }
+  },
+};
+
+// --- STORE ---
+
+/** The state as of some version, so replay can start there instead of at the beginning. */
+interface OrderSnapshot {
+  id: OrderId;
+  version: number;
+  order: Order;
+}
+
+interface EventSourcedOrderRepositoryOptions {
+  snapshotEvery?: number;  // snapshot an order after this many events since its last one; default 10
+  clock?: Clock;           // stamps `recordedAt`; default: the system clock
+  importFrom?: BaseRepository<Order>;  // orders saved before the log existed, imported once into an empty log
+  notify?: (previous: Order | null, next: Order) => OutgoingEmail[];  // emails a change sends; default none
+}
+
+interface ReplayStats {
+  events: number;     // in the log
+  replayed: number;   // applied at load; the rest were covered by snapshots
+  snapshots: number;
+}
+
+/**
+ * A BaseRepository<Order> whose only storage is an append-only log: save()
+ * records what changed as events, and reads return the state those events
+ * add up to. Current state is kept in memory, rebuilt at first use from
+ * the latest snapshots plus the events after them.
+ *
+ * Other processes may append to the same log (the CLI next to the server):
+ * every call first applies what they wrote, and a save that lost the race
+ * to append is checked again against the new state.
+ */
+class EventSourcedOrderRepository extends BaseRepository<Order> {
+  private entries: OrderLogEntry[] = [];
+  private readonly current = new Map<OrderId, Order>();
+  private readonly created = new Set<OrderId>();  // every id ever used, deleted orders included
+  private readonly sinceSnapshot = new Map<OrderId, number>();
+  private readonly projections = new Map<OrderProjection<unknown>, { state: unknown; position: number }>();
+  private loaded = false;
+  private turn: Promise<unknown> = Promise.resolve();
+  private lastId = 0;
+  private stats: ReplayStats = { events: 0, replayed: 0, snapshots: 0 };
+  private readonly snapshotEvery: number;
+  private readonly clock: Clock;
+
+  constructor(
+    private readonly log: EventLog<OrderLogEntry>,
+    private readonly snapshots: BaseRepository<OrderSnapshot>,
+    private readonly options: EventSourcedOrderRepositoryOptions = {}
+  ) {
+    super();
+    this.snapshotEvery = options.snapshotEvery ?? 10;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /**
+   * Calls take turns, each starting from the end of the log: what another
+   * process appended since the last turn is applied first.
+   */
+  private exclusive<R>(work: () => R | Promise<R>): Promise<R> {
+    const result = this.turn
+      .catch(() => undefined)
+      .then(async () => {
+        if (!this.loaded) {
+          await this.load();
+          this.loaded = true;
+        }
+        for (const entry of await this.log.readFrom(this.entries.length)) {
+          this.applyEntry(entry);
+        }
+        return work();
+      });
+    this.turn = result;
+    return result;
+  }
+
+  /** A write that lost the race to append is tried again on the newer state. */
+  private async retrying(write: () => Promise<boolean | "retry">): Promise<boolean> {
+    for (;;) {
+      const outcome = await this.exclusive(write);
+      if (outcome !== "retry") return outcome;
+    }
+  }
+
+  private async load(): Promise<void> {
+    this.entries = [];
+    this.current.clear();
+    this.created.clear();
+    this.sinceSnapshot.clear();
+
+    let logged = await this.log.readFrom(0);
+    if (logged.length === 0 && this.options.importFrom !== undefined) {
+      const imported = this.importEntries(await this.options.importFrom.findAll());
+      logged = (await this.log.appendIf(0, imported)) ? imported : await this.log.readFrom(0);
+    }
+
+    // Start each order from its snapshot, then apply only the events after it
+    const snapshots = await this.snapshots.findAll();
+    for (const snapshot of snapshots) {
+      this.current.set(snapshot.id, snapshot.order);
+    }
+    const snapshotVersions = new Map(snapshots.map((snapshot) => [snapshot.id, snapshot.version]));
+
+    let replayed = 0;
+    for (const entry of logged) {
+      if (this.applyEntry(entry, snapshotVersions.get(entry.orderId))) {
+        replayed += 1;
+      }
+    }
+    this.stats = { events: logged.length, replayed, snapshots: snapshots.length };
+  }
+
+  private importEntries(orders: Order[]): OrderLogEntry[] {
+    const recordedAt = this.clock.now();
+    return orders.map(
+      (order): OrderLogEntry => ({ type: "OrderImported", order, orderId: order.id, version: order.version, recordedAt })
+    );
+  }
+
+  /** Add one logged entry to the in-memory state; false if a snapshot already covered it. */
+  private applyEntry(entry: OrderLogEntry, snapshotVersion = 0): boolean {
+    this.entries.push(entry);
+    this.trackId(entry.orderId);
+    if (entry.type === "OrderCreated" || entry.type === "OrderImported") {
+      this.created.add(entry.orderId);
+    }
+    if (entry.version <= snapshotVersion) {
+      return false;
+    }
+
+    const next = applyOrderEvent(this.current.get(entry.orderId) ?? null, entry);
+    if (next === null) {
+      this.current.delete(entry.orderId);
+    } else {
+      this.current.set(entry.orderId, next);
+    }
+    this.sinceSnapshot.set(entry.orderId, (this.sinceSnapshot.get(entry.orderId) ?? 0) + 1);
+    return true;
+  }
+
+  private trackId(id: OrderId): void {
+    if (/^\d+$/.test(id)) {
+      this.lastId = Math.max(this.lastId, Number(id));
+    }
+  }
+
+  /**
+   * Append `events` as the order's next version - unless someone else
+   * appended since this turn caught up, in which case nothing is written.
+   */
+  private async record(orderId: OrderId, version: number, events: OrderEvent[]): Promise<boolean> {
+    const recordedAt = this.clock.now();
+    const entries = events.map((event): OrderLogEntry => ({ ...event, orderId, version, recordedAt }));
+    if (!(await this.log.appendIf(this.entries.length, entries))) {
+      return false;
+    }
+    for (const entry of entries) {
+      this.applyEntry(entry);
+    }
+
+    const order = this.current.get(orderId);
+    if (order === undefined) {
+      await this.snapshots.delete(orderId);
+    } else if ((this.sinceSnapshot.get(orderId) ?? 0) >= this.snapshotEvery) {
+      await this.snapshots.save({ id: orderId, version, order });
+      this.sinceSnapshot.set(orderId, 0);
+    }
+    return true;
+  }
+
+  async findById(id: OrderId): Promise<Order | null> {
+    return this.exclusive(() => {
+      const order = this.current.get(id);
+      return order ? structuredClone(order) : null;
+    });
+  }
+
+  async findAll(): Promise<Order[]> {
+    return this.exclusive(() => [...this.current.values()].map((order) => structuredClone(order)));
+  }
+
+  async save(entity: Order): Promise<Order> {
+    if (!(await this.saveIf(entity, () => true))) {
+      throw new Error(`Order ${entity.id} was deleted, and ids are never reused`);
+    }
+    return structuredClone(entity);
+  }
+
+  /**
+   * Ids are never reused: a new order whose id is already in the log (even
+   * if that order was deleted) is refused like a failed check.
+   *
+   * `check` also gets every current order, caught up with the log, for
+   * rules that span orders - say, that the stock a new order claims isn't
+   * held by one another process just placed.
+   */
+  async saveIf(entity: Order, check: (current: Order | null, all: readonly Order[]) => boolean): Promise<boolean> {
+    return this.retrying(async () => {
+      const previous = this.current.get(entity.id) ?? null;
+      if (previous === null && this.created.has(entity.id)) {
+        return false;
+      }
+      const all = [...this.current.values()].map((order) => structuredClone(order));
+      if (!check(previous ? structuredClone(previous) : null, all)) {
+        return false;
+      }
+
+      const events = orderChanges(previous, entity);
+      const replayed = replayOrder(
+        events.map((event) => ({ ...event, orderId: entity.id, version: entity.version, recordedAt: this.clock.now() })),
+        previous
+      );
+      if (events.length === 0 || replayed === null || !sameState(replayed, entity)) {
+        throw new Error(`Order ${entity.id}: this change can't be recorded as order events`);
+      }
+      // The emails go in the same append: the change and its outbox entries
+      // are written together or not at all
+      const emails = (this.options.notify?.(previous, entity) ?? []).map(
+        (email): OrderEvent => ({ type: "NotificationQueued", email })
+      );
+      return (await this.record(entity.id, entity.version, [...events, ...emails])) || "retry";
+    });
+  }
+
+  async update(id: OrderId, changes: Partial<Omit<Order, "id">>): Promise<Order | null> {
+    const existing = await this.findById(id);
+    if (existing === null) {
+      return null;
+    }
+    return this.save({ ...existing, ...changes, version: existing.version + 1, id });
+  }
+
+  /** Deleting is an event too: the order's history stays in the log. */
+  async delete(id: OrderId): Promise<boolean> {
+    return this.retrying(async () => {
+      const existing = this.current.get(id);
+      if (existing === undefined) {
+        return false;
+      }
+      return (await this.record(id, existing.version + 1, [{ type: "OrderDeleted" }])) || "retry";
+    });
+  }
+
+  async nextId(): Promise<number> {
+    return this.exclusive(() => {
+      this.lastId += 1;
+      return this.lastId;
+    });
+  }
+
+  // --- audit ---
+
+  /** Every event recorded for the order, oldest first - deleted orders included. */
+  async history(id: OrderId): Promise<OrderLogEntry[]> {
+    return this.exclusive(() => structuredClone(this.entries.filter((entry) => entry.orderId === id)));
+  }
+
+  /** The order as it was at `version`, replayed from the start of the log. */
+  async replay(id: OrderId, version = Infinity): Promise<Order | null> {
+    const history = await this.history(id);
+    return replayOrder(history.filter((entry) => entry.version <= version));
+  }
+
+  /** The log from `position` on, caught up - for relays that pass entries on elsewhere. */
+  async entriesFrom(position: number): Promise<OrderLogEntry[]> {
+    return this.exclusive(() => structuredClone(this.entries.slice(position)));
+  }
+
+  /** A read model, caught up with the log. Each projection folds every event once. */
+  async project<S>(projection: OrderProjection<S>): Promise<S> {
+    return this.exclusive(() => {
+      const cached = this.projections.get(projection) ?? { state: projection.initial(), position: 0 };
+      let state = cached.state as S;
+      for (const entry of this.entries.slice(cached.position)) {
+        state = projection.apply(state, entry);
+      }
+      this.projections.set(projection, { state, position: this.entries.length });
+      return structuredClone(state);
+    });
+  }
+
+  async replayStats(): Promise<ReplayStats> {
+    return this.exclusive(() => ({ ...this.stats }));
+  }
+}
+
+export {
+  EventSourcedOrderRepository,
+  applyOrderEvent,
+  replayOrder,
+  orderChanges,
+  describeOrderEvent,
+  ordersByStatus,
+  type OrderEvent,
+  type OrderEventType,
+  type OrderLogEntry,
+  type OrderHeader,
+  type OrderProjection,
+  type OrderSnapshot,
+  type EventSourcedOrderRepositoryOptions,
+  type ReplayStats,
+};
@@ -0,0 +1,38 @@
+// ============================================================================
+// 12-END-TO-END / ORDER EVENTS: The Domain Events of the Order Workflow
+// ============================================================================
+// DEMO: One map from event name to payload type drives the whole bus
+// ============================================================================
+
+import type { Order, OrderStatus } from "../12-end-to-end.js";
+import { EventBus } from "./event-bus.js";
+import type { OrderRefund } from "./refunds.js";
+
+// Past tense: these describe things that already happened
+type OrderEvents = {
+  OrderCreated: { order: Order };
+  OrderStatusChanged: { order: Order; from: OrderStatus; to: OrderStatus; reason?: string };
+  OrderShipped: { order: Order };
+  OrderDelivered: { order: Order };
+  OrderCancelled: { order: Order; reason?: string };
+  OrderItemsRefunded: { order: Order; refund: OrderRefund };
+};
+
+type OrderEventName = keyof OrderEvents;
+
+// orderEvents.subscribe("OrderCreated", ({ order }) => order.total);  ✅ payload inferred
+// orderEvents.subscribe("OrderCreatd", ...);
+// ❌ Error: Argument of type '"OrderCreatd"' is not assignable to parameter of type 'OrderEventName'
+// orderEvents.publish("OrderCancelled", { reason: "late" });
+// ❌ Error: Property 'order' is missing
+
+function createOrderEventBus(): EventBus<OrderEvents> {
+  return new EventBus<OrderEvents>({
+    onHandlerError: ({ event, error }) => {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[events] ${event.name} #${event.sequence} handler failed: ${message}`);
+    },
+  });
+}
+
+export { createOrderEventBus, type OrderEvents, type OrderEventName };
@@ -0,0 +1,82 @@
+// ============================================================================
+// 12-END-TO-END / ORDER EXPIRY TESTS: Reminders, Deadlines and Held Cards
+// ============================================================================
+// Run with `npm test`. Orders are placed at `placedAt` and a FakeClock moves
+// through the day; the default policy expires them 24 h later.
+// ============================================================================
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { InMemoryRepository } from "../05-base-repository.js";
+import type { Order } from "../12-end-to-end.js";
+import { FakeClock, hours } from "./clock.js";
+import { money } from "./money.js";
+import { PendingOrderScheduler, defaultPendingOrderPolicy, dueAction, type PendingOrderPolicy } from "./order-expiry.js";
+import { unpaid } from "./payments.js";
+import { order, placedAt } from "./test-fixtures.js";
+
+function after(ms: number): Date {
+  return new Date(placedAt.getTime() + ms);
+}
+
+function authorized(id: string): Order {
+  const hold = { operation: "authorize" as const, requested: money(2999), amount: money(2999), outcome: "succeeded" as const, at: placedAt };
+  return order(id, {
+    payment: { ...unpaid("USD", "fake"), status: "authorized", authorizationId: "auth-1", authorized: money(2999), transactions: [hold] },
+  });
+}
+
+// --- DUE ACTIONS ---
+
+test("an unpaid order is reminded before its deadline and expired at it", () => {
+  const policy = defaultPendingOrderPolicy;
+
+  assert.equal(dueAction(order("1"), policy, after(hours(20) - 1)), null);
+  assert.deepEqual(dueAction(order("1"), policy, after(hours(20))), { type: "remind", reminder: 1, expiresAt: after(hours(24)) });
+  assert.deepEqual(dueAction(order("1"), policy, after(hours(24))), { type: "expire", expiresAt: after(hours(24)) });
+  assert.equal(dueAction(order("1", { status: "processing" }), policy, after(hours(48))), null);
+});
+
+test("after downtime only the latest reminder due goes out", () => {
+  const policy: PendingOrderPolicy = { ...defaultPendingOrderPolicy, remindBeforeMs: [hours(4), hours(12)] };
+
+  assert.deepEqual(dueAction(order("1"), policy, after(hours(21))), { type: "remind", reminder: 2, expiresAt: after(hours(24)) });
+});
+
+test("a valid hold on the card waits on the merchant, not the customer, until it runs out", () => {
+  const policy = defaultPendingOrderPolicy;
+  const holdEndsAt = policy.authorizationValidForMs;
+
+  assert.equal(dueAction(authorized("1"), policy, after(holdEndsAt - 1)), null);
+  assert.equal(dueAction(authorized("1"), policy, after(holdEndsAt)), null);  // the customer's 24 h start now
+  assert.deepEqual(dueAction(authorized("1"), policy, after(holdEndsAt + hours(24))), {
+    type: "expire",
+    expiresAt: after(holdEndsAt + hours(24)),
+  });
+});
+
+// --- SCHEDULER ---
+
+test("a handler that throws is counted and reported, and the other orders are still handled", async () => {
+  const clock = new FakeClock(placedAt);
+  const errors: unknown[] = [];
+  const expired: string[] = [];
+  const scheduler = new PendingOrderScheduler(
+    new InMemoryRepository<Order>([order("1"), order("2"), order("3", { status: "shipped" })]),
+    {
+      remind: async () => true,
+      expire: async (due) => {
+        if (due.id === "1") throw new Error("gateway down");
+        expired.push(due.id);
+        return true;
+      },
+    },
+    { clock, onError: (error) => errors.push(error) }
+  );
+
+  assert.deepEqual(await scheduler.runDue(), { reminded: 0, expired: 0, failed: 0 });
+  clock.advance(hours(24));
+  assert.deepEqual(await scheduler.runDue(), { reminded: 0, expired: 1, failed: 1 });
+  assert.deepEqual(expired, ["2"]);
+  assert.match(String(errors[0]), /gateway down/);
+});
@@ -0,0 +1,203 @@
+// ============================================================================
+// 12-END-TO-END / ORDER EXPIRY: Reminding and Cancelling Stale Pending Orders
+// ============================================================================
+// DEMO: A pure "what is due?" function plus a scheduler that only runs it -
+//       with a FakeClock the whole timeline is a few lines of test
+// ============================================================================
+
+import type { Order } from "../12-end-to-end.js";
+import type { BaseRepository } from "../05-base-repository.js";
+import { hours, systemClock, type Clock } from "./clock.js";
+import { isPaymentCaptured } from "./payments.js";
+
+// --- POLICY ---
+
+interface PendingOrderPolicy {
+  expireAfterMs: number;             // awaiting the customer's payment this long → cancelled
+  remindBeforeMs: readonly number[]; // a reminder this long before the deadline, for each entry
+  authorizationValidForMs: number;   // how long the gateway holds an authorization
+}
+
+const defaultPendingOrderPolicy: PendingOrderPolicy = {
+  expireAfterMs: hours(24),
+  remindBeforeMs: [hours(4)],
+  authorizationValidForMs: hours(7 * 24),
+};
+
+// `reminder` counts from 1 in the order they go out, so it is stable
+// across passes and can key the reminder email
+type PendingOrderAction =
+  | { type: "remind"; reminder: number; expiresAt: Date }
+  | { type: "expire"; expiresAt: Date };
+
+/**
+ * Since when a pending order has been waiting on the customer, or null if
+ * it isn't. An order with a valid hold on the card is waiting on the
+ * merchant to capture it, which no reminder to the customer can fix - only
+ * a missing or released hold, or one that ran out, needs them to pay.
+ */
+function awaitingPaymentSince(order: Order, policy: PendingOrderPolicy, now: Date): Date | null {
+  const { payment } = order;
+  if (order.status !== "pending" || isPaymentCaptured(payment)) {
+    return null;
+  }
+  if (payment.status === "unpaid" || payment.status === "voided" || payment.authorizationId === null) {
+    return order.createdAt;
+  }
+  const authorized = [...payment.transactions]
+    .reverse()
+    .find((t) => t.operation === "authorize" && t.outcome === "succeeded");
+  const holdEndsAt = new Date((authorized?.at ?? order.createdAt).getTime() + policy.authorizationValidForMs);
+  return holdEndsAt <= now ? holdEndsAt : null;
+}
+
+function isAwaitingPayment(order: Order, policy: PendingOrderPolicy, now: Date): boolean {
+  return awaitingPaymentSince(order, policy, now) !== null;
+}
+
+/** The deadline for an order awaiting payment since `since`. */
+function pendingOrderExpiresAt(since: Date, policy: PendingOrderPolicy): Date {
+  return new Date(since.getTime() + policy.expireAfterMs);
+}
+
+/**
+ * What the order is due for at `now`, if anything. Only the latest reminder
+ * that has come due is returned: after downtime the customer gets one
+ * email, not every one that was missed.
+ */
+function dueAction(order: Order, policy: PendingOrderPolicy, now: Date): PendingOrderAction | null {
+  const since = awaitingPaymentSince(order, policy, now);
+  if (since === null) {
+    return null;
+  }
+  const expiresAt = pendingOrderExpiresAt(since, policy);
+  const left = expiresAt.getTime() - now.getTime();
+  if (left <= 0) {
+    return { type: "expire", expiresAt };
+  }
+
+  // Earliest reminder first: the most time left before the deadline. One
+  // due before the wait even started would go out the moment it does.
+  const schedule = policy.remindBeforeMs
+    .filter((before) => before < policy.expireAfterMs)
+    .sort((a, b) => b - a);
+  let due: number | null = null;
+  for (const [index, before] of schedule.entries()) {
+    if (left <= before) due = index + 1;
+  }
+  return due === null ? null : { type: "remind", reminder: due, expiresAt };
+}
+
+// --- SCHEDULER ---
+
+/**
+ * What happens to a due order. Both report whether they did anything:
+ * remind() is false for a reminder sent on an earlier pass, expire() is
+ * false if the order changed first (it is looked at again next pass).
+ */
+interface PendingOrderHandlers {
+  remind(order: Order, action: Extract<PendingOrderAction, { type: "remind" }>): Promise<boolean>;
+  expire(order: Order, action: Extract<PendingOrderAction, { type: "expire" }>): Promise<boolean>;
+}
+
+interface PendingOrderSchedulerOptions extends Partial<PendingOrderPolicy> {
+  clock?: Clock;            // default: the system clock
+  pollIntervalMs?: number;  // how often start() looks for due orders; default 60000
+  onError?: (error: unknown, order?: Order) => void;  // a handler or the pass itself failed
+}
+
+interface ExpiryReport {
+  reminded: number;
+  expired: number;
+  failed: number;
+}
+
+/**
+ * Finds pending, unpaid orders and reminds or cancels them as they come
+ * due. Passes never overlap; a failure on one order is reported and the
+ * rest are still handled.
+ */
+class PendingOrderScheduler {
+  readonly policy: PendingOrderPolicy;
+  private readonly clock: Clock;
+  private readonly pollIntervalMs: number;
+  private readonly onError: (error: unknown, order?: Order) => void;
+  private timer: NodeJS.Timeout | null = null;
+  private pass: Promise<ExpiryReport> | null = null;
+
+  constructor(
+    private readonly orders: BaseRepository<Order>,
+    private readonly handlers: PendingOrderHandlers,
+    options: PendingOrderSchedulerOptions = {}
+  ) {
+    this.policy = {
+      expireAfterMs: options.expireAfterMs ?? defaultPendingOrderPolicy.expireAfterMs,
+      remindBeforeMs: options.remindBeforeMs ?? defaultPendingOrderPolicy.remindBeforeMs,
+      authorizationValidForMs: options.authorizationValidForMs ?? defaultPendingOrderPolicy.authorizationValidForMs,
+    };
+    this.clock = options.clock ?? systemClock;
+    this.pollIntervalMs = options.pollIntervalMs ?? 60 * 1000;
+    this.onError = options.onError ?? ((error) => console.error(error));
+  }
+
+  /** One pass over the orders awaiting payment. A call during a pass joins that pass. */
+  runDue(): Promise<ExpiryReport> {
+    this.pass ??= this.runPass().finally(() => {
+      this.pass = null;
+    });
+    return this.pass;
+  }
+
+  private async runPass(): Promise<ExpiryReport> {
+    const now = this.clock.now();
+    const pending = await this.orders.findWhere((order) => isAwaitingPayment(order, this.policy, now));
+
+    const report: ExpiryReport = { reminded: 0, expired: 0, failed: 0 };
+    for (const order of pending) {
+      const action = dueAction(order, this.policy, now);
+      try {
+        if (action?.type === "expire" && (await this.handlers.expire(order, action))) {
+          report.expired += 1;
+        } else if (action?.type === "remind" && (await this.handlers.remind(order, action))) {
+          report.reminded += 1;
+        }
+      } catch (error) {
+        report.failed += 1;
+        this.onError(error, order);
+      }
+    }
+    return report;
+  }
+
+  /** Poll in the background until stop(). Doesn't keep the process alive. */
+  start(): void {
+    if (this.timer !== null) return;
+    this.timer = setInterval(() => {
+      this.runDue().catch((error: unknown) => this.onError(error));
+    }, this.pollIntervalMs);
+    this.timer.unref();
+  }
+
+  /** Stop polling and wait for a pass in progress to finish. */
+  async stop(): Promise<void> {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.pass?.catch(() => undefined);
+  }
+}
+
+export {
+  PendingOrderScheduler,
+  defaultPendingOrderPolicy,
+  awaitingPaymentSince,
+  isAwaitingPayment,
+  pendingOrderExpiresAt,
+  dueAction,
+  type PendingOrderPolicy,
+  type PendingOrderAction,
+  type PendingOrderHandlers,
+  type PendingOrderSchedulerOptions,
+  type ExpiryReport,
+};
@@ -0,0 +1,76 @@
+// ============================================================================
+// 12-END-TO-END / ORDER LIFECYCLE TESTS: Allowed Moves and Their Conditions
+// ============================================================================
+// Run with `npm test`. The compile-time half is checked by `tsc` itself;
+// these cover what untyped input can still ask for.
+// ============================================================================
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { money } from "./money.js";
+import {
+  canTransition,
+  describeStatusError,
+  isOrderStatus,
+  isTerminalStatus,
+  transitionOrder,
+} from "./order-lifecycle.js";
+import { unpaid } from "./payments.js";
+import { order } from "./test-fixtures.js";
+
+const at = new Date("2026-01-06T09:00:00Z");
+
+// --- TABLE ---
+
+test("only the table's moves are allowed, and delivered and cancelled are final", () => {
+  assert.equal(canTransition("pending", "processing"), true);
+  assert.equal(canTransition("processing", "pending"), false);
+  assert.equal(canTransition("shipped", "cancelled"), false);
+  assert.equal(isTerminalStatus("delivered"), true);
+  assert.equal(isTerminalStatus("cancelled"), true);
+  assert.equal(isTerminalStatus("shipped"), false);
+});
+
+test("isOrderStatus accepts statuses only, not other object keys", () => {
+  assert.equal(isOrderStatus("shipped"), true);
+  assert.equal(isOrderStatus("banana"), false);
+  assert.equal(isOrderStatus("toString"), false);
+});
+
+// --- TRANSITIONS ---
+
+test("a transition records where it came from, when and why", () => {
+  const placed = order("1");
+  const result = transitionOrder(placed, "processing", "Paid", at);
+
+  assert.equal(result.success, true);
+  assert.equal(placed.status, "processing");
+  assert.deepEqual(placed.statusHistory.at(-1), { from: "pending", to: "processing", at, reason: "Paid" });
+});
+
+test("an illegal move is refused with what would have been allowed", () => {
+  const delivered = order("1", { status: "delivered" });
+  const result = transitionOrder(delivered, "pending", undefined, at);
+
+  assert.deepEqual(result, {
+    success: false,
+    error: { code: "INVALID_TRANSITION", orderId: "1", from: "delivered", to: "pending", allowed: [] },
+  });
+  assert.equal(delivered.status, "delivered");
+  assert.ok(!result.success);
+  assert.match(describeStatusError(result.error), /allowed: none/);
+});
+
+test("nothing ships before the whole payment is captured", () => {
+  const authorized = { ...unpaid("USD"), status: "partially-captured" as const, authorized: money(5000), captured: money(3000) };
+  const processing = order("1", { status: "processing", payment: authorized });
+
+  const refused = transitionOrder(processing, "shipped", undefined, at);
+  assert.deepEqual(refused, {
+    success: false,
+    error: { code: "PAYMENT_NOT_CAPTURED", orderId: "1", paymentStatus: "partially-captured" },
+  });
+
+  processing.payment = { ...authorized, status: "captured", captured: money(5000) };
+  assert.equal(transitionOrder(processing, "shipped", undefined, at).success, true);
+});
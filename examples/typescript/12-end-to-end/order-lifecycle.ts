@@ -0,0 +1,193 @@
+// ============================================================================
+// 12-END-TO-END / ORDER LIFECYCLE: A Typed State Machine for OrderStatus
+// ============================================================================
+// DEMO: Transition table checked at compile time AND at runtime
+// ============================================================================
+
+import type { Order, OrderId, OrderStatus } from "../12-end-to-end.js";
+import { isPaymentCaptured, type PaymentStatus } from "./payments.js";
+
+// --- TRANSITION TABLE ---
+
+// `satisfies` forces an entry for EVERY OrderStatus and only allows valid
+// statuses as targets, while `as const` keeps the literal types for lookups.
+const orderTransitions = {
+  pending: ["processing", "cancelled"],
+  processing: ["shipped", "cancelled"],
+  shipped: ["delivered"],
+  delivered: [],
+  cancelled: [],
+} as const satisfies Record<OrderStatus, readonly OrderStatus[]>;
+
+type OrderTransitions = typeof orderTransitions;
+
+/** Statuses reachable in one step from `From`. */
+type NextStatus<From extends OrderStatus> = OrderTransitions[From][number];
+
+type _Test1 = NextStatus<"pending">;
+//   ^? "processing" | "cancelled"
+
+type _Test2 = NextStatus<"delivered">;
+//   ^? never (terminal state)
+
+// Conditions on the order itself, on top of the table: a move that is
+// allowed in principle can still be refused for this particular order
+const transitionRequirements: Partial<Record<OrderStatus, (order: Order) => OrderStatusError | null>> = {
+  shipped: (order) =>
+    isPaymentCaptured(order.payment)
+      ? null
+      : { code: "PAYMENT_NOT_CAPTURED", orderId: order.id, paymentStatus: order.payment.status },
+};
+
+/** Runtime guard for untyped input (CLI arguments, HTTP bodies, ...). */
+function isOrderStatus(value: string): value is OrderStatus {
+  return Object.prototype.hasOwnProperty.call(orderTransitions, value);
+}
+
+// --- HISTORY ---
+
+interface StatusChange {
+  from: OrderStatus | null;  // null for the initial "created" entry
+  to: OrderStatus;
+  at: Date;
+  reason?: string;
+}
+
+// --- ERRORS ---
+
+interface OrderNotFoundError {
+  code: "ORDER_NOT_FOUND";
+  orderId: OrderId;
+}
+
+interface InvalidTransitionError {
+  code: "INVALID_TRANSITION";
+  orderId: OrderId;
+  from: OrderStatus;
+  to: OrderStatus;
+  allowed: readonly OrderStatus[];
+}
+
+// Someone else changed the order since the caller read it
+interface VersionConflictError {
+  code: "VERSION_CONFLICT";
+  orderId: OrderId;
+  expectedVersion: number;
+  actualVersion: number | null;  // null if the order was deleted meanwhile
+}
+
+// Nothing leaves the warehouse until the money has been taken
+interface PaymentNotCapturedError {
+  code: "PAYMENT_NOT_CAPTURED";
+  orderId: OrderId;
+  paymentStatus: PaymentStatus;
+}
+
+type OrderStatusError =
+  | OrderNotFoundError
+  | InvalidTransitionError
+  | VersionConflictError
+  | PaymentNotCapturedError;
+
+type UpdateOrderStatusResult =
+  | { success: true; order: Order }
+  | { success: false; error: OrderStatusError };
+
+// --- RUNTIME CHECKS ---
+
+function allowedTransitions(from: OrderStatus): readonly OrderStatus[] {
+  return orderTransitions[from];
+}
+
+function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return allowedTransitions(from).includes(to);
+}
+
+function isTerminalStatus(status: OrderStatus): boolean {
+  return allowedTransitions(status).length === 0;
+}
+
+/**
+ * Apply a transition to an order, recording it in the status history.
+ * Checked at runtime for statuses only known at runtime (e.g. API input).
+ */
+function transitionOrder(
+  order: Order,
+  to: OrderStatus,
+  reason?: string,
+  at: Date = new Date()
+): UpdateOrderStatusResult {
+  const from = order.status;
+
+  if (!canTransition(from, to)) {
+    return {
+      success: false,
+      error: {
+        code: "INVALID_TRANSITION",
+        orderId: order.id,
+        from,
+        to,
+        allowed: allowedTransitions(from),
+      },
+    };
+  }
+
+  const unmet = transitionRequirements[to]?.(order) ?? null;
+  if (unmet !== null) {
+    return { success: false, error: unmet };
+  }
+
+  order.status = to;
+  order.statusHistory.push({ from, to, at, reason });
+  return { success: true, order };
+}
+
+// --- COMPILE-TIME CHECKS ---
+
+/**
+ * Same as transitionOrder, but when the current status is known statically
+ * the compiler rejects illegal targets:
+ *
+ *   advanceOrder(deliveredOrder, "pending");
+ *   // ❌ Error: Argument of type '"pending"' is not assignable to parameter of type 'never'
+ */
+function advanceOrder<From extends OrderStatus>(
+  order: Order & { status: From },
+  to: NextStatus<From>,
+  reason?: string
+): UpdateOrderStatusResult {
+  return transitionOrder(order, to, reason);
+}
+
+function describeStatusError(error: OrderStatusError): string {
+  switch (error.code) {
+    case "ORDER_NOT_FOUND":
+      return `Order ${error.orderId} not found`;
+    case "INVALID_TRANSITION": {
+      const allowed = error.allowed.length > 0 ? error.allowed.join(", ") : "none";
+      return `Order ${error.orderId} cannot move from "${error.from}" to "${error.to}" (allowed: ${allowed})`;
+    }
+    case "VERSION_CONFLICT":
+      return error.actualVersion === null
+        ? `Order ${error.orderId} was deleted while you were editing it`
+        : `Order ${error.orderId} was changed by someone else (expected version ${error.expectedVersion}, now ${error.actualVersion})`;
+    case "PAYMENT_NOT_CAPTURED":
+      return `Order ${error.orderId} cannot ship before its payment is captured (payment is ${error.paymentStatus})`;
+  }
+}
+
+export {
+  orderTransitions,
+  transitionRequirements,
+  isOrderStatus,
+  allowedTransitions,
+  canTransition,
+  isTerminalStatus,
+  transitionOrder,
+  advanceOrder,
+  describeStatusError,
+  type NextStatus,
+  type StatusChange,
+  type OrderStatusError,
+  type UpdateOrderStatusResult,
+};
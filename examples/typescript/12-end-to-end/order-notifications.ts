@@ -0,0 +1,148 @@
+// ============================================================================
+// 12-END-TO-END / ORDER NOTIFICATIONS: Customer Emails from Order Changes
+// ============================================================================
+// DEMO: Record<Kind, Template> - a new kind of email can't ship without copy
+// ============================================================================
+
+import type { Order, OrderStatus } from "../12-end-to-end.js";
+import type { StatusChange } from "./order-lifecycle.js";
+import { formatMoney, subtractMoney } from "./money.js";
+import type { OutgoingEmail } from "./outbox.js";
+
+// --- KINDS ---
+
+type NotificationKind = "order-created" | "order-shipped" | "order-delivered" | "order-cancelled";
+
+// Which status changes the customer hears about ("processing" is internal)
+const notificationForStatus: Partial<Record<OrderStatus, NotificationKind>> = {
+  pending: "order-created",
+  shipped: "order-shipped",
+  delivered: "order-delivered",
+  cancelled: "order-cancelled",
+};
+
+// --- TEMPLATES ---
+
+interface RenderedNotification {
+  subject: string;
+  text: string;
+}
+
+type NotificationTemplate = (order: Order, change: StatusChange) => RenderedNotification;
+
+function formatTotal(order: Order): string {
+  return formatMoney(order.total, order.currency, order.locale);
+}
+
+function itemLines(order: Order): string[] {
+  return order.items.map((item) => `  - ${item.product.name} x${item.quantity}`);
+}
+
+function shipTo(order: Order): string {
+  const { recipient, line1, city, country } = order.shippingAddress;
+  return `${recipient}, ${line1}, ${city}, ${country}`;
+}
+
+const notificationTemplates: Record<NotificationKind, NotificationTemplate> = {
+  "order-created": (order) => ({
+    subject: `Order #${order.id} confirmed`,
+    text: [
+      `Hi ${order.user.name},`,
+      "",
+      "Thanks for your order:",
+      ...itemLines(order),
+      "",
+      `Total: ${formatTotal(order)}`,
+      `Shipping to: ${shipTo(order)} (${order.shipping.label})`,
+    ].join("\n"),
+  }),
+  "order-shipped": (order) => ({
+    subject: `Order #${order.id} is on its way`,
+    text: [
+      `Hi ${order.user.name},`,
+      "",
+      `Your order has shipped via ${order.shipping.label} to ${shipTo(order)}.`,
+    ].join("\n"),
+  }),
+  "order-delivered": (order) => ({
+    subject: `Order #${order.id} was delivered`,
+    text: [`Hi ${order.user.name},`, "", "Your order was delivered. Enjoy!"].join("\n"),
+  }),
+  // Rendered as the cancellation is saved, before the money goes back
+  "order-cancelled": (order, change) => {
+    const paid = subtractMoney(order.payment.captured, order.payment.refunded);
+    return {
+      subject: `Order #${order.id} was cancelled`,
+      text: [
+        `Hi ${order.user.name},`,
+        "",
+        `Your order was cancelled${change.reason ? `: ${change.reason}` : "."}`,
+        paid > 0
+          ? `We're refunding ${formatMoney(paid, order.currency, order.locale)} to your card.`
+          : `Nothing will be charged for it (${formatTotal(order)}).`,
+      ].join("\n"),
+    };
+  },
+};
+
+// --- MESSAGES ---
+
+/** "order-42-order-shipped": an order sends each kind of email at most once. */
+function notificationId(order: Order, kind: NotificationKind): string {
+  return `order-${order.id}-${kind}`;
+}
+
+/**
+ * The email for one status change, or null if customers aren't told about
+ * it. Rendered now, so a later edit to the order doesn't rewrite history.
+ */
+function buildOrderNotification(order: Order, change: StatusChange, from: string): OutgoingEmail | null {
+  const kind = notificationForStatus[change.to];
+  if (kind === undefined) {
+    return null;
+  }
+  const { subject, text } = notificationTemplates[kind](order, change);
+  return { id: notificationId(order, kind), to: order.user.email, from, subject, text };
+}
+
+/**
+ * Sent before an unpaid order is cancelled. Not tied to a status change,
+ * so it has its own id: "order-42-payment-reminder-1" for the first one.
+ */
+function buildReminderNotification(order: Order, expiresAt: Date, reminder: number, from: string): OutgoingEmail {
+  const deadline = new Intl.DateTimeFormat(order.locale, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: "UTC",
+    timeZoneName: "short",
+  }).format(expiresAt);
+  return {
+    id: `order-${order.id}-payment-reminder-${reminder}`,
+    to: order.user.email,
+    from,
+    subject: `Order #${order.id} is waiting for payment`,
+    text: [
+      `Hi ${order.user.name},`,
+      "",
+      "We haven't been able to take payment for your order yet:",
+      ...itemLines(order),
+      "",
+      `Total: ${formatTotal(order)}`,
+      `Unless it's paid by ${deadline}, the order will be cancelled.`,
+    ].join("\n"),
+  };
+}
+
+export {
+  notificationForStatus,
+  notificationTemplates,
+  notificationId,
+  buildOrderNotification,
+  buildReminderNotification,
+  type NotificationKind,
+  type NotificationTemplate,
+  type RenderedNotification,
+};
@@ -0,0 +1,63 @@
+// ============================================================================
+// 12-END-TO-END / ORDER QUERY TESTS: Filters, Id Order and Cursors
+// ============================================================================
+// Run with `npm test`. Orders 1-12 from test-fixtures.ts, every one placed
+// at the same moment, so only the id tie breaker orders them by time.
+// ============================================================================
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { money } from "./money.js";
+import { queryOrders, type OrderPage, type OrderQuery, type OrderQueryResult } from "./order-query.js";
+import { item, order, widget } from "./test-fixtures.js";
+
+const all = Array.from({ length: 12 }, (_, index) =>
+  order(String(index + 1), { items: [item(widget, index + 1)], status: index % 3 === 0 ? "cancelled" : "pending" })
+);
+
+function page(result: OrderQueryResult): OrderPage {
+  assert.ok(result.success);
+  return result.page;
+}
+
+function ids(result: OrderQueryResult): string[] {
+  return page(result).orders.map((placed) => placed.id);
+}
+
+// --- FILTERS ---
+
+test("filters combine, and the total counts every match", () => {
+  const query: OrderQuery = { statuses: ["pending"], minTotal: money(3 * 2999), where: { currency: "USD" }, limit: 3 };
+
+  assert.deepEqual(ids(queryOrders(all, query)), ["3", "5", "6"]);
+  assert.equal(page(queryOrders(all, query)).total, 7);
+});
+
+// --- PAGES ---
+
+test("sequence ids sort by number, not as text", () => {
+  assert.deepEqual(ids(queryOrders(all, { sort: { field: "id", direction: "desc" }, limit: 3 })), ["12", "11", "10"]);
+});
+
+test("a cursor carries on after the last row, even if rows before it were deleted", () => {
+  const first = page(queryOrders(all, { limit: 5 }));
+  assert.deepEqual(first.orders.map((placed) => placed.id), ["1", "2", "3", "4", "5"]);
+  assert.ok(first.nextCursor);
+
+  const rest = all.filter((placed) => placed.id !== "2");
+  const second = page(queryOrders(rest, { limit: 5, cursor: first.nextCursor }));
+  assert.deepEqual(second.orders.map((placed) => placed.id), ["6", "7", "8", "9", "10"]);
+  assert.equal(page(queryOrders(rest, { limit: 5, cursor: second.nextCursor ?? undefined })).nextCursor, null);
+});
+
+test("a cursor that is garbage, or from a different sort, is refused", () => {
+  const { nextCursor } = page(queryOrders(all, { limit: 5 }));
+  assert.ok(nextCursor);
+
+  assert.deepEqual(queryOrders(all, { cursor: "not-a-cursor" }), {
+    success: false,
+    error: { code: "INVALID_CURSOR", cursor: "not-a-cursor" },
+  });
+  assert.equal(queryOrders(all, { cursor: nextCursor, sort: { field: "total" } }).success, false);
+  assert.equal(queryOrders(all, { cursor: nextCursor, sort: { field: "createdAt", direction: "desc" } }).success, false);
+});
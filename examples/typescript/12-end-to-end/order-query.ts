@@ -0,0 +1,196 @@
+// ============================================================================
+// 12-END-TO-END / ORDER QUERY: Filtering, Sorting and Cursor Pagination
+// ============================================================================
+// DEMO: keyof + mapped types keep query keys in sync with the Order interface
+// ============================================================================
+
+import type { Order, OrderStatus } from "../12-end-to-end.js";
+import { compareIds } from "./id-generators.js";
+import type { Money } from "./money.js";
+
+// --- TYPES ---
+
+type Scalar = string | number | boolean | Date | null;
+
+/** Keys of T whose values are scalars - the only things worth sorting on. */
+type ScalarKeys<T> = {
+  [K in keyof T]-?: T[K] extends Scalar ? K : never;
+}[keyof T];
+
+type OrderSortField = ScalarKeys<Order>;
+
+type _Test1 = OrderSortField;
+//   ^? "id" | "subtotal" | "discount" | "jurisdiction" | "tax" | "total" | "status" | ...
+
+// Runtime list for validating untyped input (CLI flags, query strings)
+const orderSortFields = [
+  "id",
+  "createdAt",
+  "status",
+  "total",
+  "subtotal",
+  "discount",
+  "tax",
+  "jurisdiction",
+] as const satisfies readonly OrderSortField[];
+
+function isOrderSortField(value: string): value is OrderSortField {
+  return (orderSortFields as readonly string[]).includes(value);
+}
+
+// Equality filters, checked like filterByProp in 09-generics-lite.ts
+type OrderWhere = { [K in OrderSortField]?: Order[K] };
+
+interface OrderQuery {
+  userId?: number;
+  statuses?: OrderStatus[];
+  createdFrom?: Date;  // inclusive
+  createdTo?: Date;    // exclusive
+  minTotal?: Money;
+  maxTotal?: Money;
+  where?: OrderWhere;
+  sort?: { field: OrderSortField; direction?: "asc" | "desc" };
+  limit?: number;      // default 20
+  cursor?: string;     // nextCursor from the previous page
+}
+
+// queryOrders(all, { where: { staus: "pending" } });
+// ❌ Error: 'staus' does not exist in type 'OrderWhere'
+// queryOrders(all, { sort: { field: "items" } });
+// ❌ Error: Type '"items"' is not assignable to type 'OrderSortField'
+
+interface OrderPage {
+  orders: Order[];
+  nextCursor: string | null;
+  total: number;  // matches across all pages
+}
+
+type OrderQueryResult =
+  | { success: true; page: OrderPage }
+  | { success: false; error: { code: "INVALID_CURSOR"; cursor: string } };
+
+// --- CURSORS ---
+
+// A cursor remembers where the last page ended (sort value + id as a tie
+// breaker), so inserts and deletes elsewhere never shift or repeat rows.
+interface CursorPayload {
+  field: OrderSortField;
+  direction: "asc" | "desc";
+  value: string | number;
+  id: string;
+}
+
+function encodeCursor(payload: CursorPayload): string {
+  return Buffer.from(JSON.stringify(payload), "utf8").toString("base64url");
+}
+
+function decodeCursor(cursor: string): CursorPayload | null {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (
+      typeof parsed === "object" &&
+      parsed !== null &&
+      "field" in parsed &&
+      "direction" in parsed &&
+      "value" in parsed &&
+      "id" in parsed &&
+      typeof parsed.id === "string" &&
+      (typeof parsed.value === "string" || typeof parsed.value === "number")
+    ) {
+      return parsed as CursorPayload;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+// --- QUERYING ---
+
+function sortValue(order: Order, field: OrderSortField): string | number {
+  const value: Scalar = order[field];
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "boolean") return value ? 1 : 0;
+  return value ?? "";
+}
+
+function compareValues(a: string | number, b: string | number): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function matchesQuery(order: Order, query: OrderQuery): boolean {
+  if (query.userId !== undefined && order.user.id !== query.userId) return false;
+  if (query.statuses && !query.statuses.includes(order.status)) return false;
+  if (query.createdFrom && order.createdAt < query.createdFrom) return false;
+  if (query.createdTo && order.createdAt >= query.createdTo) return false;
+  if (query.minTotal !== undefined && order.total < query.minTotal) return false;
+  if (query.maxTotal !== undefined && order.total > query.maxTotal) return false;
+
+  for (const key of Object.keys(query.where ?? {}) as OrderSortField[]) {
+    const expected = query.where?.[key];
+    const actual = order[key];
+    const equal =
+      expected instanceof Date && actual instanceof Date
+        ? expected.getTime() === actual.getTime()
+        : expected === actual;
+    if (!equal) return false;
+  }
+  return true;
+}
+
+function queryOrders(all: Order[], query: OrderQuery = {}): OrderQueryResult {
+  const field = query.sort?.field ?? "createdAt";
+  const direction = query.sort?.direction ?? "asc";
+  const limit = Math.max(1, query.limit ?? 20);
+  const sign = direction === "asc" ? 1 : -1;
+
+  // Ids get their own comparison so sequence ids sort "9" before "10"
+  const compareField = (a: string | number, b: string | number): number =>
+    field === "id" ? compareIds(String(a), String(b)) : compareValues(a, b);
+  const compare = (a: Order, b: Order): number =>
+    sign * (compareField(sortValue(a, field), sortValue(b, field)) || compareIds(a.id, b.id));
+
+  const matches = all.filter((order) => matchesQuery(order, query)).sort(compare);
+
+  let start = 0;
+  if (query.cursor !== undefined) {
+    const cursor = decodeCursor(query.cursor);
+    if (cursor === null || cursor.field !== field || cursor.direction !== direction) {
+      return { success: false, error: { code: "INVALID_CURSOR", cursor: query.cursor } };
+    }
+    // First row that sorts strictly after the cursor position
+    const index = matches.findIndex(
+      (order) =>
+        sign * (compareField(sortValue(order, field), cursor.value) || compareIds(order.id, cursor.id)) > 0
+    );
+    start = index === -1 ? matches.length : index;
+  }
+
+  const pageOrders = matches.slice(start, start + limit);
+  const last = pageOrders[pageOrders.length - 1];
+  const hasMore = start + limit < matches.length;
+
+  return {
+    success: true,
+    page: {
+      orders: pageOrders,
+      nextCursor:
+        hasMore && last
+          ? encodeCursor({ field, direction, value: sortValue(last, field), id: last.id })
+          : null,
+      total: matches.length,
+    },
+  };
+}
+
+export {
+  queryOrders,
+  orderSortFields,
+  isOrderSortField,
+  type ScalarKeys,
+  type OrderSortField,
+  type OrderWhere,
+  type OrderQuery,
+  type OrderPage,
+  type OrderQueryResult,
+};
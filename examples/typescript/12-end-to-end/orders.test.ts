@@ -0,0 +1,144 @@
+// ============================================================================
+// 12-END-TO-END / ORDERS TESTS: The Whole Workflow, on Files in a Temp Dir
+// ============================================================================
+// Run with `npm test`. The app keeps its data under `.data/` in the working
+// directory, so each run moves into a fresh temp dir before importing it.
+// ============================================================================
+
+import assert from "node:assert/strict";
+import { execFile } from "node:child_process";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, test } from "node:test";
+import { fileURLToPath } from "node:url";
+import { promisify } from "node:util";
+import { money } from "./money.js";
+import type { OutboxMessage } from "./outbox.js";
+import type { FakeAuthorization } from "./payments.js";
+
+const dataDir = await mkdtemp(join(tmpdir(), "orders-test-"));
+process.chdir(dataDir);
+process.env.PAYMENT_TIMEOUT_MS = "20";
+
+const app = await import("../12-end-to-end.js");
+
+after(() => rm(dataDir, { recursive: true, force: true }));
+
+async function available(productId: number): Promise<number | undefined> {
+  return (await app.listProducts()).find((product) => product.id === productId)?.available;
+}
+
+// The CLI in a process of its own, on the same files - like it runs next to the server
+async function cli(...args: string[]): Promise<void> {
+  await promisify(execFile)(process.execPath, [fileURLToPath(new URL("./cli.js", import.meta.url)), ...args], {
+    env: { ...process.env, PAYMENT_TIMEOUT_MS: "5000" },
+  });
+}
+
+async function storedAuthorizations(): Promise<FakeAuthorization[]> {
+  return JSON.parse(await readFile(".data/payments.json", "utf8")) as FakeAuthorization[];
+}
+
+async function storedEmails(): Promise<string[]> {
+  return (JSON.parse(await readFile(".data/outbox.json", "utf8")) as OutboxMessage[]).map((message) => message.id);
+}
+
+// --- VALIDATION ---
+
+test("collect-all reports every bad item and the user in one pass, and reserves nothing", async () => {
+  const before = await available(102);
+  const items = [
+    { productId: 101, quantity: 0 },
+    { productId: 999, quantity: 1 },
+    { productId: 102, quantity: 1.5 },
+  ];
+
+  const collected = await app.createOrder(999, items, { validation: "collect-all" });
+  assert.ok(!collected.success);
+  assert.deepEqual(collected.errors, [
+    { code: "INVALID_QUANTITY", itemIndex: 0, productId: 101, quantity: 0 },
+    { code: "INVALID_QUANTITY", itemIndex: 2, productId: 102, quantity: 1.5 },
+    { code: "USER_NOT_FOUND", userId: 999 },
+    { code: "PRODUCT_NOT_FOUND", itemIndex: 1, productId: 999 },
+  ]);
+
+  const first = await app.createOrder(999, items);
+  assert.deepEqual(!first.success && first.errors, [collected.errors[0]]);
+  assert.equal(await available(102), before);
+});
+
+// --- PLACING ORDERS ---
+
+test("an authorization that times out is voided, and its stock given back", async () => {
+  const before = await available(102);
+  app.paymentGateway.simulate("authorize", { type: "timeout", delayMs: 50 });
+  app.paymentGateway.simulate("authorize", { type: "timeout", delayMs: 50 });
+
+  const result = await app.createOrder(1, [{ productId: 102, quantity: 1 }]);
+
+  assert.equal(result.success, false);
+  assert.equal(!result.success && result.errors[0].code, "PAYMENT_TIMEOUT");
+  assert.equal(await available(102), before);
+  const holds = await storedAuthorizations();
+  assert.equal(holds.length, 1);
+  assert.equal(holds[0]?.voided, true);
+});
+
+test("stock taken by another process is not sold again", async () => {
+  const left = await available(101);
+  assert.ok(left !== undefined && left > 0);
+
+  await cli("orders", "create", "--user", "1", "--item", `101x${left}`);
+  assert.equal(await available(101), 0);
+
+  const result = await app.createOrder(1, [{ productId: 101, quantity: 1 }]);
+  assert.equal(result.success, false);
+  assert.equal(!result.success && result.errors[0].code, "OUT_OF_STOCK");
+});
+
+test("stock given back by another process can be sold again", async () => {
+  const found = await app.findOrders({ statuses: ["pending"] });
+  const held = found.success ? found.page.orders[0] : undefined;
+  assert.ok(held);
+  await cli("orders", "set-status", held.id, "cancelled");
+
+  const result = await app.createOrder(1, [{ productId: 101, quantity: 1 }]);
+  assert.equal(result.success, true);
+});
+
+// --- NOTIFICATIONS ---
+
+test("an order's email is logged with it, and relayed even if the outbox lost it", async () => {
+  const result = await app.createOrder(1, [{ productId: 102, quantity: 1 }]);
+  assert.ok(result.success);
+  const id = `order-${result.order.id}-order-created`;
+
+  const created = (await app.getOrderHistory(result.order.id)).filter((entry) => entry.version === 1);
+  assert.ok(created.some((entry) => entry.type === "NotificationQueued" && entry.email.id === id));
+
+  // As if the process died between saving the order and enqueueing its email
+  await writeFile(".data/outbox.json", "[]", "utf8");
+  await cli("outbox", "dispatch");
+  assert.ok((await storedEmails()).includes(id));
+});
+
+// --- CARTS ---
+
+test("a checkout that fails leaves the cart open and unchanged, to try again", async () => {
+  assert.equal((await app.addToCart(1, 102, 0)).success, false);
+  const added = await app.addToCart(1, 102, 1);
+  assert.ok(added.success && added.view.pricing.success);
+  const { total } = added.view.pricing.draft;
+
+  const failed = await app.checkoutCart(1, { expectedTotal: money(total + 1) });
+  assert.ok(!failed.success && failed.error.code === "CHECKOUT_FAILED");
+  assert.equal(failed.error.problems[0].code, "TOTAL_CHANGED");
+
+  const cart = await app.getCart(1);
+  assert.equal(cart.success && cart.view.cart.status, "open");
+  assert.deepEqual(cart.success && cart.view.cart.lines.map((line) => [line.productId, line.quantity]), [[102, 1]]);
+
+  assert.equal((await app.checkoutCart(1, { expectedTotal: total })).success, true);
+  assert.deepEqual(await app.getCart(1), { success: false, error: { code: "CART_NOT_FOUND", userId: 1 } });
+});
@@ -0,0 +1,110 @@
+// ============================================================================
+// 12-END-TO-END / OUTBOX TESTS: Retries, Dead Letters and Collecting
+// ============================================================================
+// Run with `npm test`. A scripted transport and a hand-moved clock: no
+// files, no waiting.
+// ============================================================================
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { InMemoryRepository } from "../05-base-repository.js";
+import {
+  OutboxDispatcher,
+  type NotificationTransport,
+  type OutboxDispatcherOptions,
+  type OutboxMessage,
+  type OutgoingEmail,
+} from "./outbox.js";
+
+// Fails the first `failures` sends, then delivers
+class ScriptedTransport implements NotificationTransport {
+  readonly name = "scripted";
+  readonly sent: string[] = [];
+
+  constructor(private failures = 0) {}
+
+  async send(email: OutgoingEmail): Promise<void> {
+    if (this.failures > 0) {
+      this.failures -= 1;
+      throw new Error("SMTP unavailable");
+    }
+    this.sent.push(email.id);
+  }
+}
+
+function email(id: string): OutgoingEmail {
+  return { id, to: "alice@example.com", from: "orders@example.com", subject: id, text: "" };
+}
+
+function setup(failures = 0, options: OutboxDispatcherOptions = {}) {
+  let now = Date.parse("2026-01-05T10:00:00Z");
+  const transport = new ScriptedTransport(failures);
+  const outbox = new InMemoryRepository<OutboxMessage>();
+  const dispatcher = new OutboxDispatcher(outbox, transport, { baseDelayMs: 1000, now: () => now, ...options });
+  return {
+    transport,
+    outbox,
+    dispatcher,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+// --- ENQUEUEING ---
+
+test("enqueueing the same id twice keeps one message", async () => {
+  const { dispatcher, transport } = setup();
+  assert.equal(await dispatcher.enqueue(email("order-1-order-created")), true);
+  assert.equal(await dispatcher.enqueue(email("order-1-order-created")), false);
+
+  assert.deepEqual(await dispatcher.dispatchDue(), { sent: 1, retried: 0, deadLettered: 0 });
+  assert.deepEqual(transport.sent, ["order-1-order-created"]);
+});
+
+test("collect runs before every pass, so what it enqueues goes out in that pass", async () => {
+  const recorded = [email("order-1-order-created"), email("order-1-order-shipped")];
+  let collected = 0;
+  const { dispatcher, transport } = setup(0, {
+    collect: async () => {
+      for (const message of recorded.slice(collected)) await dispatcher.enqueue(message);
+      collected = recorded.length;
+    },
+  });
+
+  assert.deepEqual(await dispatcher.dispatchDue(), { sent: 2, retried: 0, deadLettered: 0 });
+  recorded.push(email("order-1-order-delivered"));
+  assert.deepEqual(await dispatcher.dispatchDue(), { sent: 1, retried: 0, deadLettered: 0 });
+  assert.equal(transport.sent.length, 3);
+});
+
+// --- RETRIES ---
+
+test("a failed send is retried after 1s, then 2s", async () => {
+  const { dispatcher, advance } = setup(2);
+  await dispatcher.enqueue(email("a"));
+
+  assert.deepEqual(await dispatcher.dispatchDue(), { sent: 0, retried: 1, deadLettered: 0 });
+  advance(999);
+  assert.deepEqual(await dispatcher.dispatchDue(), { sent: 0, retried: 0, deadLettered: 0 });
+  advance(1);
+  assert.deepEqual(await dispatcher.dispatchDue(), { sent: 0, retried: 1, deadLettered: 0 });
+  advance(2000);
+  assert.deepEqual(await dispatcher.dispatchDue(), { sent: 1, retried: 0, deadLettered: 0 });
+});
+
+test("after maxAttempts a message is dead until retried", async () => {
+  const { dispatcher, transport, advance } = setup(2, { maxAttempts: 2 });
+  await dispatcher.enqueue(email("a"));
+
+  await dispatcher.dispatchDue();
+  advance(1000);
+  assert.deepEqual(await dispatcher.dispatchDue(), { sent: 0, retried: 0, deadLettered: 1 });
+  const [dead] = await dispatcher.deadLetters();
+  assert.equal(dead?.lastError, "SMTP unavailable");
+
+  assert.equal(await dispatcher.retry("a"), true);
+  assert.deepEqual(await dispatcher.dispatchDue(), { sent: 1, retried: 0, deadLettered: 0 });
+  assert.deepEqual(transport.sent, ["a"]);
+  assert.equal(await dispatcher.retry("a"), false);  // sent messages stay sent
+});
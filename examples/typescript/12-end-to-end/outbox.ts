@@ -0,0 +1,241 @@
+// ============================================================================
+// 12-END-TO-END / OUTBOX: Durable Email Delivery with Retries
+// ============================================================================
+// DEMO: An interface for the transport, a repository for the queue, and a
+//       dispatcher that never needs to know which of either it was given
+// ============================================================================
+
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { BaseRepository } from "../05-base-repository.js";
+
+// --- MESSAGES ---
+
+const outboxStatuses = ["pending", "sent", "dead"] as const;
+
+type OutboxStatus = (typeof outboxStatuses)[number];
+
+function isOutboxStatus(value: string): value is OutboxStatus {
+  return (outboxStatuses as readonly string[]).includes(value);
+}
+
+interface OutboxMessage {
+  id: string;  // deterministic - the same change always produces the same id
+  to: string;
+  from: string;
+  subject: string;
+  text: string;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError?: string;
+  createdAt: Date;
+  sentAt?: Date;
+}
+
+type OutgoingEmail = Pick<OutboxMessage, "id" | "to" | "from" | "subject" | "text">;
+
+// --- TRANSPORTS ---
+
+/**
+ * Anything that can deliver an email. send() may be called more than once
+ * for the same message (a crash after sending, before marking it sent), so
+ * a transport must treat `email.id` as an idempotency key.
+ */
+interface NotificationTransport {
+  readonly name: string;
+  send(email: OutgoingEmail): Promise<void>;
+}
+
+/**
+ * Stand-in for SMTP: writes each email as `<id>.eml` in a directory.
+ * Sending the same id again rewrites the same file, so a retry can never
+ * show up as a second email.
+ */
+class FileTransport implements NotificationTransport {
+  readonly name = "file";
+
+  constructor(private readonly directory: string) {}
+
+  async send(email: OutgoingEmail): Promise<void> {
+    const fileName = `${email.id.replace(/[^A-Za-z0-9_-]/g, "_")}.eml`;
+    const contents = [
+      `Message-ID: <${email.id}@orders.local>`,
+      `From: ${email.from}`,
+      `To: ${email.to}`,
+      `Subject: ${email.subject}`,
+      "Content-Type: text/plain; charset=utf-8",
+      "",
+      email.text,
+      "",
+    ].join("\r\n");
+
+    await mkdir(this.directory, { recursive: true });
+    const path = join(this.directory, fileName);
+    await writeFile(`${path}.tmp`, contents, "utf8");
+    await rename(`${path}.tmp`, path);
+  }
+}
+
+// --- DISPATCHER ---
+
+interface OutboxDispatcherOptions {
+  maxAttempts?: number;     // then the message moves to the dead-letter list; default 5
+  baseDelayMs?: number;     // retry delays double from here; default 1000
+  pollIntervalMs?: number;  // how often start() looks for due messages; default 1000
+  batchSize?: number;       // messages per pass; default 20
+  now?: () => number;       // injectable clock, default Date.now
+  collect?: () => Promise<unknown>;    // enqueue messages recorded elsewhere, before each pass
+  onError?: (error: unknown) => void;  // a pass itself failed (e.g. the store is unreadable)
+}
+
+interface DispatchReport {
+  sent: number;
+  retried: number;
+  deadLettered: number;
+}
+
+/**
+ * Delivers pending messages in creation order. A failed send is retried
+ * with exponential backoff; after `maxAttempts` it is parked as "dead"
+ * until someone calls retry(). Passes never overlap, so one process never
+ * sends a message twice at once.
+ */
+class OutboxDispatcher {
+  private readonly options: Required<Omit<OutboxDispatcherOptions, "collect" | "onError">> &
+    Pick<OutboxDispatcherOptions, "collect" | "onError">;
+  private timer: NodeJS.Timeout | null = null;
+  private pass: Promise<DispatchReport> | null = null;
+
+  constructor(
+    private readonly outbox: BaseRepository<OutboxMessage>,
+    private readonly transport: NotificationTransport,
+    options: OutboxDispatcherOptions = {}
+  ) {
+    this.options = {
+      maxAttempts: options.maxAttempts ?? 5,
+      baseDelayMs: options.baseDelayMs ?? 1000,
+      pollIntervalMs: options.pollIntervalMs ?? 1000,
+      batchSize: options.batchSize ?? 20,
+      now: options.now ?? Date.now,
+      collect: options.collect,
+      onError: options.onError,
+    };
+  }
+
+  /** Add a message once: enqueueing the same id again is a no-op. */
+  async enqueue(email: OutgoingEmail): Promise<boolean> {
+    const now = new Date(this.options.now());
+    const message: OutboxMessage = {
+      ...email,
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now,
+    };
+    return this.outbox.saveIf(message, (current) => current === null);
+  }
+
+  /** One pass over the due messages. A call during a pass joins that pass. */
+  dispatchDue(): Promise<DispatchReport> {
+    this.pass ??= this.runPass().finally(() => {
+      this.pass = null;
+    });
+    return this.pass;
+  }
+
+  private async runPass(): Promise<DispatchReport> {
+    const { batchSize, maxAttempts, baseDelayMs } = this.options;
+    await this.options.collect?.();
+    const now = this.options.now();
+    const due = (
+      await this.outbox.findWhere(
+        (message) => message.status === "pending" && message.nextAttemptAt.getTime() <= now
+      )
+    )
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(0, batchSize);
+
+    const report: DispatchReport = { sent: 0, retried: 0, deadLettered: 0 };
+    for (const message of due) {
+      message.attempts += 1;
+      try {
+        await this.transport.send(message);
+        message.status = "sent";
+        message.sentAt = new Date(this.options.now());
+        message.lastError = undefined;
+        report.sent += 1;
+      } catch (error) {
+        message.lastError = error instanceof Error ? error.message : String(error);
+        if (message.attempts >= maxAttempts) {
+          message.status = "dead";
+          report.deadLettered += 1;
+        } else {
+          // 1s, 2s, 4s, 8s, ...
+          const delay = baseDelayMs * 2 ** (message.attempts - 1);
+          message.nextAttemptAt = new Date(this.options.now() + delay);
+          report.retried += 1;
+        }
+      }
+      await this.outbox.save(message);
+    }
+    return report;
+  }
+
+  /** Poll in the background until stop(). Doesn't keep the process alive. */
+  start(): void {
+    if (this.timer !== null) return;
+    this.timer = setInterval(() => {
+      this.dispatchDue().catch((error: unknown) => {
+        (this.options.onError ?? console.error)(error);
+      });
+    }, this.options.pollIntervalMs);
+    this.timer.unref();
+  }
+
+  /** Stop polling and wait for a pass in progress to finish. */
+  async stop(): Promise<void> {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.pass?.catch(() => undefined);
+  }
+
+  async list(status?: OutboxStatus): Promise<OutboxMessage[]> {
+    const messages = await this.outbox.findWhere((message) => status === undefined || message.status === status);
+    return messages.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async deadLetters(): Promise<OutboxMessage[]> {
+    return this.list("dead");
+  }
+
+  /** Give a dead (or waiting) message a fresh set of attempts, due now. */
+  async retry(messageId: string): Promise<boolean> {
+    const message = await this.outbox.findById(messageId);
+    if (message === null || message.status === "sent") {
+      return false;
+    }
+    await this.outbox.save({
+      ...message,
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: new Date(this.options.now()),
+    });
+    return true;
+  }
+}
+
+export {
+  OutboxDispatcher,
+  FileTransport,
+  outboxStatuses,
+  isOutboxStatus,
+  type OutboxStatus,
+  type OutboxMessage,
+  type OutgoingEmail,
+  type NotificationTransport,
+  type OutboxDispatcherOptions,
+  type DispatchReport,
+};
@@ -0,0 +1,118 @@
+// ============================================================================
+// 12-END-TO-END / PAYMENTS TESTS: The Client Against the Fake Gateway
+// ============================================================================
+// Run with `npm test`. Timeouts are real but tiny: the client gives up after
+// 20ms, and a scripted timeout answers after 50ms.
+// ============================================================================
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { InMemoryRepository } from "../05-base-repository.js";
+import { money } from "./money.js";
+import {
+  FakePaymentGateway,
+  PaymentClient,
+  isPaymentCaptured,
+  type FakeAuthorization,
+} from "./payments.js";
+
+function setup() {
+  const authorizations = new InMemoryRepository<FakeAuthorization>();
+  const gateway = new FakePaymentGateway(authorizations);
+  const client = new PaymentClient(gateway, { timeoutMs: 20, retries: 1 });
+  return { authorizations, gateway, client };
+}
+
+async function authorized(client: PaymentClient, amount = money(10000)) {
+  const result = await client.authorize("1", amount, "USD");
+  assert.equal(result.success, true);
+  return result.payment;
+}
+
+// --- CAPTURE STATE ---
+
+test("a full capture counts as captured", async () => {
+  const { client } = setup();
+  const captured = await client.capture("1", await authorized(client));
+
+  assert.equal(captured.payment.status, "captured");
+  assert.equal(isPaymentCaptured(captured.payment), true);
+});
+
+test("a partial capture, then a partial refund, still holds the rest", async () => {
+  const { client, gateway } = setup();
+  gateway.simulate("capture", { type: "partial", amount: money(6000) });
+  const partly = await client.capture("1", await authorized(client));
+  assert.equal(partly.payment.status, "partially-captured");
+
+  const refunded = await client.refund("1", partly.payment, money(1000));
+  assert.equal(refunded.success, true);
+  assert.equal(refunded.payment.status, "partially-captured");
+  assert.equal(isPaymentCaptured(refunded.payment), false);
+
+  // ...so the uncaptured 40.00 can still be released
+  const voided = await client.void("1", refunded.payment);
+  assert.equal(voided.success, true);
+  assert.equal(voided.payment.authorized, money(6000));
+  assert.equal(voided.payment.status, "partially-refunded");
+  assert.equal(isPaymentCaptured(voided.payment), true);
+});
+
+test("refunding everything captured reads as refunded", async () => {
+  const { client } = setup();
+  const captured = await client.capture("1", await authorized(client));
+  const refunded = await client.refund("1", captured.payment);
+
+  assert.equal(refunded.payment.status, "refunded");
+});
+
+test("a voided payment is not captured", async () => {
+  const { client } = setup();
+  const voided = await client.void("1", await authorized(client));
+
+  assert.equal(voided.payment.status, "voided");
+  assert.equal(isPaymentCaptured(voided.payment), false);
+});
+
+// --- TIMEOUTS ---
+
+test("a capture retried after a timeout is not taken twice", async () => {
+  const { client, gateway, authorizations } = setup();
+  const payment = await authorized(client);
+  gateway.simulate("capture", { type: "timeout", delayMs: 50 });
+  gateway.simulate("capture", { type: "timeout", delayMs: 50 });
+
+  const timedOut = await client.capture("1", payment);
+  assert.equal(timedOut.success, false);
+  assert.equal(!timedOut.success && timedOut.error.code, "PAYMENT_TIMEOUT");
+
+  const retried = await client.capture("1", timedOut.payment);
+  assert.equal(retried.success, true);
+  const [stored] = await authorizations.findAll();
+  assert.equal(stored?.captured, money(10000));
+});
+
+test("voidUnanswered releases a hold whose answer came too late", async () => {
+  const { client, gateway, authorizations } = setup();
+  gateway.simulate("authorize", { type: "timeout", delayMs: 50 });
+  gateway.simulate("authorize", { type: "timeout", delayMs: 50 });
+
+  const timedOut = await client.authorize("1", money(10000), "USD");
+  assert.equal(timedOut.success, false);
+  assert.equal(timedOut.payment.status, "unpaid");
+
+  const released = await client.voidUnanswered("1", timedOut.payment);
+  assert.equal(released.success, true);
+  assert.equal(released.payment.status, "voided");
+  const [stored] = await authorizations.findAll();
+  assert.equal(stored?.voided, true);
+});
+
+test("voidUnanswered leaves a declined authorization alone", async () => {
+  const { client, gateway } = setup();
+  gateway.simulate("authorize", { type: "decline", reason: "insufficient_funds" });
+  const declined = await client.authorize("1", money(10000), "USD");
+
+  const released = await client.voidUnanswered("1", declined.payment);
+  assert.deepEqual(released, { success: true, payment: declined.payment });
+});
@@ -0,0 +1,490 @@
+// ============================================================================
+// 12-END-TO-END / PAYMENTS: Authorize, Capture, Void and Refund
+// ============================================================================
+// DEMO: A gateway interface with a scriptable fake behind it, and a client
+//       that turns every gateway answer (or silence) into a typed result
+// ============================================================================
+
+import { randomUUID } from "node:crypto";
+import { InMemoryRepository, type BaseRepository } from "../05-base-repository.js";
+import type { Order, OrderId } from "../12-end-to-end.js";
+import { zero, addMoney, subtractMoney, type CurrencyCode, type Money } from "./money.js";
+
+// --- PAYMENT STATE (stored on the Order) ---
+
+type PaymentOperation = "authorize" | "capture" | "void" | "refund";
+
+type PaymentStatus =
+  | "unpaid"              // nothing authorized (orders from before payments existed)
+  | "authorized"          // money held on the card, none taken yet
+  | "partially-captured"  // some of the held money taken
+  | "captured"            // all of it taken
+  | "voided"              // hold released without taking anything
+  | "partially-refunded"
+  | "refunded";
+
+interface PaymentTransaction {
+  operation: PaymentOperation;
+  requested: Money;
+  amount: Money;  // what the gateway actually did; zero unless it succeeded
+  outcome: "succeeded" | "declined" | "timed-out";
+  reference?: string;  // the gateway's id for this transaction
+  reason?: string;     // why it was declined
+  at: Date;
+}
+
+interface OrderPayment {
+  gateway: string;
+  status: PaymentStatus;
+  currency: CurrencyCode;
+  authorizationId: string | null;
+  authorized: Money;
+  captured: Money;
+  refunded: Money;
+  transactions: PaymentTransaction[];  // every attempt, failed ones included
+}
+
+function unpaid(currency: CurrencyCode, gateway = "none"): OrderPayment {
+  return {
+    gateway,
+    status: "unpaid",
+    currency,
+    authorizationId: null,
+    authorized: zero(),
+    captured: zero(),
+    refunded: zero(),
+    transactions: [],
+  };
+}
+
+/** Money has been taken for everything that was authorized (refunds aside). */
+function isPaymentCaptured(payment: OrderPayment): boolean {
+  return payment.authorized > 0 && payment.captured === payment.authorized;
+}
+
+// --- GATEWAY ---
+
+// What every gateway says back. A gateway that never answers is the
+// client's problem (see PaymentClient), not a response.
+type GatewayResponse =
+  | { success: true; reference: string; amount: Money }  // amount actually processed
+  | { success: false; code: "DECLINED"; reason: string };
+
+interface AuthorizeRequest {
+  amount: Money;
+  currency: CurrencyCode;
+  reference: string;       // our order id, for the gateway's records
+  idempotencyKey: string;  // a retry with the same key returns the first answer
+}
+
+interface AmountRequest {
+  amount: Money;
+  idempotencyKey: string;
+}
+
+interface PaymentGateway {
+  readonly name: string;
+  authorize(request: AuthorizeRequest): Promise<GatewayResponse>;
+  capture(authorizationId: string, request: AmountRequest): Promise<GatewayResponse>;
+  void(authorizationId: string, request: AmountRequest): Promise<GatewayResponse>;  // releases part or all of the hold
+  refund(authorizationId: string, request: AmountRequest): Promise<GatewayResponse>;
+}
+
+// --- FAKE GATEWAY ---
+
+type SimulatedOutcome =
+  | { type: "decline"; reason: string }
+  | { type: "timeout"; delayMs?: number }  // does the work, answers too late
+  | { type: "partial"; amount: Money };    // captures or refunds less than asked
+
+interface FakeAuthorization {
+  id: string;
+  amount: Money;
+  captured: Money;
+  refunded: Money;
+  voided: boolean;
+}
+
+/**
+ * Stand-in for a card processor. Approves everything unless told otherwise
+ * with simulate(), which scripts the next call of one operation. Answers
+ * are remembered per idempotency key, like the real thing, so a retry
+ * after a timeout sees what actually happened - though a scripted timeout
+ * still makes the retry's answer late too. Pass a persistent store to
+ * keep authorizations across processes (the CLI captures what the server
+ * authorized).
+ */
+class FakePaymentGateway implements PaymentGateway {
+  readonly name = "fake";
+  private readonly answers = new Map<string, Promise<GatewayResponse>>();
+  private readonly scripted: { operation: PaymentOperation; outcome: SimulatedOutcome }[] = [];
+
+  constructor(
+    private readonly authorizations: BaseRepository<FakeAuthorization> = new InMemoryRepository<FakeAuthorization>()
+  ) {}
+
+  simulate(operation: PaymentOperation, outcome: SimulatedOutcome): void {
+    this.scripted.push({ operation, outcome });
+  }
+
+  authorize(request: AuthorizeRequest): Promise<GatewayResponse> {
+    return this.handle("authorize", request.idempotencyKey, async () => {
+      const id = `auth_${randomUUID()}`;
+      await this.authorizations.save({ id, amount: request.amount, captured: zero(), refunded: zero(), voided: false });
+      return { success: true, reference: id, amount: request.amount };
+    });
+  }
+
+  capture(authorizationId: string, request: AmountRequest): Promise<GatewayResponse> {
+    return this.handle("capture", request.idempotencyKey, async (outcome) => {
+      const auth = await this.authorizations.findById(authorizationId);
+      if (!auth || auth.voided) return { success: false, code: "DECLINED", reason: "authorization_not_found" };
+      if (addMoney(auth.captured, request.amount) > auth.amount) {
+        return { success: false, code: "DECLINED", reason: "amount_exceeds_authorization" };
+      }
+      const amount = outcome?.type === "partial" ? outcome.amount : request.amount;
+      await this.authorizations.save({ ...auth, captured: addMoney(auth.captured, amount) });
+      return { success: true, reference: `cap_${randomUUID()}`, amount };
+    });
+  }
+
+  void(authorizationId: string, request: AmountRequest): Promise<GatewayResponse> {
+    return this.handle("void", request.idempotencyKey, async () => {
+      const auth = await this.authorizations.findById(authorizationId);
+      if (!auth || auth.voided || request.amount > subtractMoney(auth.amount, auth.captured)) {
+        return { success: false, code: "DECLINED", reason: "cannot_void" };
+      }
+      const amount = subtractMoney(auth.amount, request.amount);
+      await this.authorizations.save({ ...auth, amount, voided: amount === 0 });
+      return { success: true, reference: `void_${randomUUID()}`, amount: request.amount };
+    });
+  }
+
+  refund(authorizationId: string, request: AmountRequest): Promise<GatewayResponse> {
+    return this.handle("refund", request.idempotencyKey, async (outcome) => {
+      const auth = await this.authorizations.findById(authorizationId);
+      if (!auth || addMoney(auth.refunded, request.amount) > auth.captured) {
+        return { success: false, code: "DECLINED", reason: "amount_exceeds_captured" };
+      }
+      const amount = outcome?.type === "partial" ? outcome.amount : request.amount;
+      await this.authorizations.save({ ...auth, refunded: addMoney(auth.refunded, amount) });
+      return { success: true, reference: `ref_${randomUUID()}`, amount };
+    });
+  }
+
+  private async handle(
+    operation: PaymentOperation,
+    idempotencyKey: string,
+    process: (outcome: SimulatedOutcome | undefined) => Promise<GatewayResponse>
+  ): Promise<GatewayResponse> {
+    const previous = this.answers.get(idempotencyKey);
+    // A repeated request can still be slow to answer; anything else scripted
+    // waits for a new one
+    const index = this.scripted.findIndex(
+      (s) => s.operation === operation && (previous === undefined || s.outcome.type === "timeout")
+    );
+    const outcome = index === -1 ? undefined : this.scripted.splice(index, 1)[0].outcome;
+
+    if (previous) {
+      if (outcome?.type === "timeout") {
+        await new Promise((resolve) => setTimeout(resolve, outcome.delayMs ?? 30_000).unref());
+      }
+      return previous;
+    }
+
+    const answer: Promise<GatewayResponse> =
+      outcome?.type === "decline"
+        ? Promise.resolve({ success: false, code: "DECLINED", reason: outcome.reason })
+        : process(outcome);
+    this.answers.set(idempotencyKey, answer);
+
+    if (outcome?.type === "timeout") {
+      // The work is done; only the answer is late. unref: never keeps the process alive.
+      await new Promise((resolve) => setTimeout(resolve, outcome.delayMs ?? 30_000).unref());
+    }
+    return answer;
+  }
+}
+
+// --- CLIENT ---
+
+type PaymentFailure =
+  | { code: "PAYMENT_DECLINED"; operation: PaymentOperation; reason: string }
+  | { code: "PAYMENT_TIMEOUT"; operation: PaymentOperation }
+  | { code: "INVALID_PAYMENT_STATE"; operation: PaymentOperation; status: PaymentStatus }
+  | { code: "INVALID_PAYMENT_AMOUNT"; operation: PaymentOperation; amount: Money; maximum: Money };
+
+// The payment after the attempt - failed attempts are recorded too
+type PaymentUpdate =
+  | { success: true; payment: OrderPayment }
+  | { success: false; payment: OrderPayment; error: PaymentFailure };
+
+interface PaymentClientOptions {
+  timeoutMs?: number;  // per gateway call; default 5000
+  retries?: number;    // extra tries after a timeout, same idempotency key; default 1
+  now?: () => Date;
+}
+
+const TIMED_OUT = Symbol("timed out");
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T | typeof TIMED_OUT> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<typeof TIMED_OUT>((resolve) => {
+    timer = setTimeout(() => resolve(TIMED_OUT), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Checks the payment state before calling the gateway, and applies the
+ * answer to a copy of the payment afterwards. Never throws for gateway
+ * trouble: declines and timeouts come back as PaymentFailure.
+ */
+class PaymentClient {
+  private readonly timeoutMs: number;
+  private readonly retries: number;
+  private readonly now: () => Date;
+
+  constructor(
+    private readonly gateway: PaymentGateway,
+    options: PaymentClientOptions = {}
+  ) {
+    this.timeoutMs = options.timeoutMs ?? 5000;
+    this.retries = options.retries ?? 1;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  get gatewayName(): string {
+    return this.gateway.name;
+  }
+
+  async authorize(orderId: string, amount: Money, currency: CurrencyCode): Promise<PaymentUpdate> {
+    const payment = unpaid(currency, this.gateway.name);
+    return this.run(orderId, payment, "authorize", amount, (idempotencyKey) =>
+      this.gateway.authorize({ amount, currency, reference: orderId, idempotencyKey })
+    );
+  }
+
+  /** Capture `amount` (default: everything still held). */
+  async capture(orderId: string, payment: OrderPayment, amount?: Money): Promise<PaymentUpdate> {
+    if (payment.status !== "authorized" && payment.status !== "partially-captured") {
+      return this.reject(payment, { code: "INVALID_PAYMENT_STATE", operation: "capture", status: payment.status });
+    }
+    const remaining = subtractMoney(payment.authorized, payment.captured);
+    const requested = amount ?? remaining;
+    if (requested <= 0 || requested > remaining) {
+      return this.reject(payment, {
+        code: "INVALID_PAYMENT_AMOUNT",
+        operation: "capture",
+        amount: requested,
+        maximum: remaining,
+      });
+    }
+    return this.run(orderId, payment, "capture", requested, (idempotencyKey) =>
+      this.gateway.capture(payment.authorizationId!, { amount: requested, idempotencyKey })
+    );
+  }
+
+  /** Release `amount` of the hold (default: everything not captured yet). */
+  async void(orderId: string, payment: OrderPayment, amount?: Money): Promise<PaymentUpdate> {
+    if (payment.status !== "authorized" && payment.status !== "partially-captured") {
+      return this.reject(payment, { code: "INVALID_PAYMENT_STATE", operation: "void", status: payment.status });
+    }
+    const held = subtractMoney(payment.authorized, payment.captured);
+    const requested = amount ?? held;
+    if (requested <= 0 || requested > held) {
+      return this.reject(payment, {
+        code: "INVALID_PAYMENT_AMOUNT",
+        operation: "void",
+        amount: requested,
+        maximum: held,
+      });
+    }
+    return this.run(orderId, payment, "void", requested, (idempotencyKey) =>
+      this.gateway.void(payment.authorizationId!, { amount: requested, idempotencyKey })
+    );
+  }
+
+  /** Refund `amount` (default: everything captured and not yet refunded). */
+  async refund(orderId: string, payment: OrderPayment, amount?: Money): Promise<PaymentUpdate> {
+    const refundable = subtractMoney(payment.captured, payment.refunded);
+    if (payment.authorizationId === null || payment.captured === 0 || payment.status === "voided") {
+      return this.reject(payment, { code: "INVALID_PAYMENT_STATE", operation: "refund", status: payment.status });
+    }
+    const requested = amount ?? refundable;
+    if (requested <= 0 || requested > refundable) {
+      return this.reject(payment, {
+        code: "INVALID_PAYMENT_AMOUNT",
+        operation: "refund",
+        amount: requested,
+        maximum: refundable,
+      });
+    }
+    return this.run(orderId, payment, "refund", requested, (idempotencyKey) =>
+      this.gateway.refund(payment.authorizationId!, { amount: requested, idempotencyKey })
+    );
+  }
+
+  /**
+   * Clean up after an authorization that timed out: the gateway may have
+   * placed the hold and only answered late. Asking again under the same
+   * key tells us, and a hold that did go through is released. Anything
+   * else is returned as it is.
+   */
+  async voidUnanswered(orderId: string, payment: OrderPayment): Promise<PaymentUpdate> {
+    const last = [...payment.transactions].reverse().find((t) => t.operation === "authorize");
+    if (payment.status !== "unpaid" || last?.outcome !== "timed-out") {
+      return { success: true, payment };
+    }
+    const { requested } = last;
+    const settled = await this.run(orderId, payment, "authorize", requested, (idempotencyKey) =>
+      this.gateway.authorize({ amount: requested, currency: payment.currency, reference: orderId, idempotencyKey })
+    );
+    return settled.success ? this.void(orderId, settled.payment) : settled;
+  }
+
+  private reject(payment: OrderPayment, error: PaymentFailure): PaymentUpdate {
+    return { success: false, payment, error };
+  }
+
+  private async run(
+    orderId: string,
+    payment: OrderPayment,
+    operation: PaymentOperation,
+    requested: Money,
+    call: (idempotencyKey: string) => Promise<GatewayResponse>
+  ): Promise<PaymentUpdate> {
+    // One key per logical operation - this order, operation and amount. Our
+    // own retries and a manual one after a timeout reuse it, so the gateway
+    // answers from its records instead of charging twice. Only an answered
+    // attempt moves the next one on to a new key.
+    const answered = payment.transactions.filter(
+      (t) => t.operation === operation && t.requested === requested && t.outcome !== "timed-out"
+    ).length;
+    const idempotencyKey = `order-${orderId}-${operation}-${requested}-${answered + 1}`;
+
+    let answer: GatewayResponse | typeof TIMED_OUT = TIMED_OUT;
+    for (let attempt = 0; attempt <= this.retries && answer === TIMED_OUT; attempt++) {
+      answer = await withTimeout(call(idempotencyKey), this.timeoutMs);
+    }
+
+    const at = this.now();
+    if (answer === TIMED_OUT) {
+      const transactions = [...payment.transactions, { operation, requested, amount: zero(), outcome: "timed-out" as const, at }];
+      return { success: false, payment: { ...payment, transactions }, error: { code: "PAYMENT_TIMEOUT", operation } };
+    }
+    if (!answer.success) {
+      const transactions = [
+        ...payment.transactions,
+        { operation, requested, amount: zero(), outcome: "declined" as const, reason: answer.reason, at },
+      ];
+      return {
+        success: false,
+        payment: { ...payment, transactions },
+        error: { code: "PAYMENT_DECLINED", operation, reason: answer.reason },
+      };
+    }
+
+    const transaction: PaymentTransaction = {
+      operation,
+      requested,
+      amount: answer.amount,
+      outcome: "succeeded",
+      reference: answer.reference,
+      at,
+    };
+    return { success: true, payment: applyTransaction(payment, transaction) };
+  }
+}
+
+// While part of the hold is still uncaptured the payment reads as a hold,
+// refunds or not - so it can still be captured or voided
+function amountStatus(payment: OrderPayment): PaymentStatus {
+  if (payment.captured < payment.authorized) {
+    return payment.captured === 0 ? "authorized" : "partially-captured";
+  }
+  if (payment.refunded === 0) return "captured";
+  return payment.refunded === payment.captured ? "refunded" : "partially-refunded";
+}
+
+/** The new amounts and status after a successful transaction. */
+function applyTransaction(payment: OrderPayment, transaction: PaymentTransaction): OrderPayment {
+  const next: OrderPayment = { ...payment, transactions: [...payment.transactions, transaction] };
+  switch (transaction.operation) {
+    case "authorize":
+      next.authorizationId = transaction.reference ?? null;
+      next.authorized = transaction.amount;
+      next.status = "authorized";
+      break;
+    case "capture":
+      next.captured = addMoney(payment.captured, transaction.amount);
+      next.status = amountStatus(next);
+      break;
+    case "void":
+      next.authorized = subtractMoney(payment.authorized, transaction.amount);
+      next.status = next.authorized === 0 ? "voided" : amountStatus(next);
+      break;
+    case "refund":
+      next.refunded = addMoney(payment.refunded, transaction.amount);
+      next.status = amountStatus(next);
+      break;
+  }
+  return next;
+}
+
+// --- ORDER PAYMENT RESULTS ---
+
+type PaymentError =
+  | { code: "ORDER_NOT_FOUND"; orderId: OrderId }
+  | (PaymentFailure & { orderId: OrderId });
+
+type PaymentErrorCode = PaymentError["code"];
+
+type PaymentResult =
+  | { success: true; order: Order }
+  | { success: false; error: PaymentError };
+
+function describePaymentFailure(failure: PaymentFailure): string {
+  switch (failure.code) {
+    case "PAYMENT_DECLINED":
+      return `Payment ${failure.operation} was declined (${failure.reason})`;
+    case "PAYMENT_TIMEOUT":
+      return `Payment gateway did not answer the ${failure.operation} in time`;
+    case "INVALID_PAYMENT_STATE":
+      return `Cannot ${failure.operation} a payment that is ${failure.status}`;
+    case "INVALID_PAYMENT_AMOUNT":
+      return `Cannot ${failure.operation} ${failure.amount} cents (at most ${failure.maximum})`;
+  }
+}
+
+function describePaymentError(error: PaymentError): string {
+  return error.code === "ORDER_NOT_FOUND"
+    ? `Order ${error.orderId} not found`
+    : `Order ${error.orderId}: ${describePaymentFailure(error)}`;
+}
+
+export {
+  FakePaymentGateway,
+  PaymentClient,
+  unpaid,
+  isPaymentCaptured,
+  applyTransaction,
+  describePaymentFailure,
+  describePaymentError,
+  type PaymentOperation,
+  type PaymentStatus,
+  type PaymentTransaction,
+  type OrderPayment,
+  type GatewayResponse,
+  type AuthorizeRequest,
+  type AmountRequest,
+  type PaymentGateway,
+  type SimulatedOutcome,
+  type FakeAuthorization,
+  type PaymentFailure,
+  type PaymentUpdate,
+  type PaymentClientOptions,
+  type PaymentError,
+  type PaymentErrorCode,
+  type PaymentResult,
+};
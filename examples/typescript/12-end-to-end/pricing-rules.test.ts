@@ -0,0 +1,93 @@
+// ============================================================================
+// 12-END-TO-END / PRICING RULES TESTS: Which Rules Fire, and How Far
+// ============================================================================
+// Run with `npm test`. Lines are widgets and gadgets from test-fixtures.ts,
+// all in USD, so `convert` is the identity.
+// ============================================================================
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { money, type Money } from "./money.js";
+import { PricingEngine, isRuleActive, type CouponRule, type PricingContext, type PricingRule } from "./pricing-rules.js";
+import { alice, gadget, item, placedAt, widget } from "./test-fixtures.js";
+
+function context(changes: Partial<PricingContext> = {}): PricingContext {
+  return {
+    user: alice,
+    lines: [item(widget, 2), item(gadget, 1)],  // $59.98 + $49.99
+    couponCodes: [],
+    now: placedAt,
+    convert: (amount: Money) => amount,
+    ...changes,
+  };
+}
+
+function coupon(changes: Partial<CouponRule> = {}): CouponRule {
+  return {
+    id: "coupon",
+    label: "Coupon",
+    kind: "coupon",
+    code: "SAVE",
+    discount: { type: "percent", percent: 5 },
+    priority: 2,
+    stacking: "stack",
+    ...changes,
+  };
+}
+
+const tier: PricingRule = {
+  id: "tier",
+  label: "Tier discount",
+  kind: "tier",
+  percentOff: { basic: 10 },
+  priority: 1,
+  stacking: "exclusive",
+};
+
+// --- LIMITS ---
+
+test("a coupon worth more than the order takes it to zero, not below", () => {
+  const engine = new PricingEngine([coupon({ discount: { type: "amount", amount: money(20000), currency: "USD" } })]);
+  const result = engine.price(context({ couponCodes: ["save"] }));  // codes match in any case
+
+  assert.equal(result.totalDiscount, money(5998 + 4999));
+  assert.deepEqual(
+    result.lineDiscounts.map((line) => line.map((discount) => discount.amount)),
+    [[5998], [4999]]
+  );
+});
+
+test("a coupon that wasn't entered, or a rule that's expired, gives nothing", () => {
+  const expired = coupon({ validUntil: placedAt });
+  assert.equal(isRuleActive(expired, placedAt), false);
+
+  assert.deepEqual(new PricingEngine([coupon()]).price(context()).discounts, []);
+  assert.deepEqual(new PricingEngine([expired]).price(context({ couponCodes: ["SAVE"] })).discounts, []);
+});
+
+test("buy-x-get-y gives nothing until a whole set is bought", () => {
+  const engine = new PricingEngine([
+    { id: "b2g1", label: "Buy 2 get 1", kind: "buy-x-get-y", productId: widget.id, buy: 2, get: 1, priority: 1, stacking: "stack" },
+  ]);
+
+  assert.equal(engine.price(context()).totalDiscount, 0);
+  assert.equal(engine.price(context({ lines: [item(widget, 3)] })).totalDiscount, money(2999));
+});
+
+// --- ORDER ---
+
+test("an exclusive rule stops every rule after it", () => {
+  const result = new PricingEngine([coupon(), tier]).price(context({ couponCodes: ["SAVE"] }));
+
+  assert.deepEqual(result.discounts, [{ ruleId: "tier", label: "Tier discount", amount: money(1099) }]);
+});
+
+test("re-pricing with ruleIds only considers the rules that fired before", () => {
+  const engine = new PricingEngine([coupon(), tier]);
+
+  assert.deepEqual(engine.price(context({ couponCodes: ["SAVE"], ruleIds: [] })).discounts, []);
+  assert.deepEqual(
+    engine.price(context({ couponCodes: ["SAVE"], ruleIds: ["coupon"] })).discounts.map((discount) => discount.ruleId),
+    ["coupon"]
+  );
+});
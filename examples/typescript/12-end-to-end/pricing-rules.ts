@@ -0,0 +1,213 @@
+// ============================================================================
+// 12-END-TO-END / PRICING RULES: A Typed Discount Rules Engine
+// ============================================================================
+// DEMO: Rules as discriminated-union data, evaluated by priority
+// ============================================================================
+
+import type { Product, User, UserTier } from "../12-end-to-end.js";
+import {
+  zero,
+  addMoney,
+  subtractMoney,
+  multiplyMoney,
+  applyRate,
+  allocate,
+  type CurrencyCode,
+  type Money,
+} from "./money.js";
+
+// --- RULE DEFINITIONS ---
+
+interface BaseRule {
+  id: string;
+  label: string;
+  priority: number;  // lower runs first
+  // "stack": later rules still apply to what is left
+  // "exclusive": once this rule fires, no lower-priority rule runs
+  stacking: "stack" | "exclusive";
+  validFrom?: Date;
+  validUntil?: Date;  // exclusive upper bound
+}
+
+interface TierRule extends BaseRule {
+  kind: "tier";
+  percentOff: Partial<Record<UserTier, number>>;
+}
+
+interface CouponRule extends BaseRule {
+  kind: "coupon";
+  code: string;
+  discount:
+    | { type: "percent"; percent: number }
+    | { type: "amount"; amount: Money; currency: CurrencyCode };  // converted per order
+}
+
+interface VolumeRule extends BaseRule {
+  kind: "volume";
+  productId: number;
+  breaks: { minQuantity: number; percentOff: number }[];
+}
+
+interface BuyXGetYRule extends BaseRule {
+  kind: "buy-x-get-y";
+  productId: number;
+  buy: number;
+  get: number;  // units free for every `buy` paid
+}
+
+type PricingRule = TierRule | CouponRule | VolumeRule | BuyXGetYRule;
+
+// --- INPUT / OUTPUT ---
+
+// Line amounts are already in the order's currency
+interface PricingLine {
+  product: Product;
+  quantity: number;
+  unitPrice: Money;
+  total: Money;
+}
+
+interface PricingContext {
+  user: User;
+  lines: PricingLine[];
+  couponCodes: string[];
+  now: Date;
+  convert: (amount: Money, from: CurrencyCode) => Money;  // into the order's currency
+  ruleIds?: readonly string[];  // only consider these rules, e.g. the ones that fired on an order
+}
+
+interface AppliedDiscount {
+  ruleId: string;
+  label: string;
+  amount: Money;
+}
+
+interface PricingResult {
+  lineDiscounts: AppliedDiscount[][];  // one list per input line
+  discounts: AppliedDiscount[];        // one entry per rule that fired
+  totalDiscount: Money;
+}
+
+// --- RULE EVALUATION ---
+
+function isRuleActive(rule: PricingRule, now: Date): boolean {
+  if (rule.validFrom && now < rule.validFrom) return false;
+  if (rule.validUntil && now >= rule.validUntil) return false;
+  return true;
+}
+
+/** Spread an order-level amount over lines by what is left on each. */
+function spreadOverLines(amount: Money, remaining: Money[]): Money[] {
+  const left = addMoney(...remaining);
+  if (left <= 0 || amount <= 0) {
+    return remaining.map(() => zero());
+  }
+  return allocate(amount > left ? left : amount, remaining);
+}
+
+/** Returns the discount this rule gives on each line (may be all zero). */
+function evaluateRule(rule: PricingRule, ctx: PricingContext, remaining: Money[]): Money[] {
+  switch (rule.kind) {
+    case "tier": {
+      const percent = rule.percentOff[ctx.user.tier] ?? 0;
+      return spreadOverLines(applyRate(addMoney(...remaining), percent / 100, "down"), remaining);
+    }
+    case "coupon": {
+      const entered = ctx.couponCodes.some((code) => code.toUpperCase() === rule.code.toUpperCase());
+      if (!entered) {
+        return remaining.map(() => zero());
+      }
+      const amount =
+        rule.discount.type === "percent"
+          ? applyRate(addMoney(...remaining), rule.discount.percent / 100, "down")
+          : ctx.convert(rule.discount.amount, rule.discount.currency);
+      return spreadOverLines(amount, remaining);
+    }
+    case "volume":
+      return ctx.lines.map((line, index) => {
+        if (line.product.id !== rule.productId) return zero();
+        const best = rule.breaks
+          .filter((b) => line.quantity >= b.minQuantity)
+          .reduce((max, b) => Math.max(max, b.percentOff), 0);
+        return applyRate(remaining[index], best / 100, "down");
+      });
+    case "buy-x-get-y":
+      return ctx.lines.map((line, index) => {
+        if (line.product.id !== rule.productId) return zero();
+        const freeUnits = Math.floor(line.quantity / (rule.buy + rule.get)) * rule.get;
+        const value = multiplyMoney(line.unitPrice, freeUnits);
+        return value > remaining[index] ? remaining[index] : value;
+      });
+  }
+}
+
+// --- ENGINE ---
+
+class PricingEngine {
+  private rules: PricingRule[];
+
+  constructor(rules: PricingRule[] = []) {
+    this.rules = [...rules];
+  }
+
+  addRule(rule: PricingRule): void {
+    this.rules = [...this.rules.filter((r) => r.id !== rule.id), rule];
+  }
+
+  removeRule(ruleId: string): boolean {
+    const before = this.rules.length;
+    this.rules = this.rules.filter((r) => r.id !== ruleId);
+    return this.rules.length !== before;
+  }
+
+  listRules(): readonly PricingRule[] {
+    return this.rules;
+  }
+
+  price(ctx: PricingContext): PricingResult {
+    const remaining = ctx.lines.map((line) => line.total);
+    const lineDiscounts: AppliedDiscount[][] = ctx.lines.map(() => []);
+    const discounts: AppliedDiscount[] = [];
+
+    const active = this.rules
+      .filter((rule) => (ctx.ruleIds?.includes(rule.id) ?? true) && isRuleActive(rule, ctx.now))
+      .sort((a, b) => a.priority - b.priority);
+
+    for (const rule of active) {
+      const amounts = evaluateRule(rule, ctx, remaining);
+      const ruleTotal = addMoney(...amounts);
+      if (ruleTotal <= 0) {
+        continue;
+      }
+
+      amounts.forEach((amount, index) => {
+        if (amount > 0) {
+          lineDiscounts[index].push({ ruleId: rule.id, label: rule.label, amount });
+          remaining[index] = subtractMoney(remaining[index], amount);
+        }
+      });
+      discounts.push({ ruleId: rule.id, label: rule.label, amount: ruleTotal });
+
+      if (rule.stacking === "exclusive") {
+        break;
+      }
+    }
+
+    const totalDiscount = addMoney(...discounts.map((d) => d.amount));
+    return { lineDiscounts, discounts, totalDiscount };
+  }
+}
+
+export {
+  PricingEngine,
+  isRuleActive,
+  type PricingRule,
+  type TierRule,
+  type CouponRule,
+  type VolumeRule,
+  type BuyXGetYRule,
+  type PricingLine,
+  type PricingContext,
+  type AppliedDiscount,
+  type PricingResult,
+};
@@ -0,0 +1,90 @@
+// ============================================================================
+// 12-END-TO-END / REFUNDS TESTS: Which Units Can Go Back, and for How Much
+// ============================================================================
+// Run with `npm test`. Pure functions over fixture orders - re-pricing is
+// the app's job and is faked here by editing the totals.
+// ============================================================================
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { money } from "./money.js";
+import {
+  checkRefundAmounts,
+  checkRefundItems,
+  describeRefundError,
+  orderAmounts,
+  refundAmount,
+  refundKind,
+  removeRefundedUnits,
+} from "./refunds.js";
+import { gadget, item, order, widget } from "./test-fixtures.js";
+
+const placed = order("1", { items: [item(widget, 2), item(gadget, 1), item(widget, 1)] });
+
+// --- KINDS ---
+
+test("units come off before shipping and go back after it; a cancelled order has none", () => {
+  assert.equal(refundKind("processing"), "cancellation");
+  assert.equal(refundKind("delivered"), "return");
+  assert.equal(refundKind("cancelled"), null);
+});
+
+// --- ITEMS ---
+
+test("each bad refund line is named", () => {
+  assert.deepEqual(checkRefundItems(placed, []), { code: "EMPTY_REFUND" });
+  assert.deepEqual(checkRefundItems(placed, [{ productId: 999, quantity: 1 }]), {
+    code: "ITEM_NOT_ON_ORDER",
+    productId: 999,
+  });
+  assert.deepEqual(checkRefundItems(placed, [{ productId: widget.id, quantity: 0 }]), {
+    code: "INVALID_QUANTITY",
+    productId: widget.id,
+    quantity: 0,
+  });
+  // Both widget lines count: 3 in all, asked for 2 + 2
+  assert.deepEqual(
+    checkRefundItems(placed, [
+      { productId: widget.id, quantity: 2 },
+      { productId: widget.id, quantity: 2 },
+    ]),
+    { code: "REFUND_EXCEEDS_QUANTITY", productId: widget.id, requested: 4, remaining: 3 }
+  );
+  assert.equal(checkRefundItems(placed, [{ productId: widget.id, quantity: 3 }]), null);
+});
+
+test("units come off the earlier line first, and empty lines are dropped", () => {
+  const remaining = removeRefundedUnits(placed.items, [{ productId: widget.id, quantity: 2 }]);
+  assert.deepEqual(
+    remaining.map((line) => [line.product.id, line.quantity]),
+    [
+      [gadget.id, 1],
+      [widget.id, 1],
+    ]
+  );
+});
+
+// --- AMOUNTS ---
+
+test("the refund is what the total went down by", () => {
+  const after = orderAmounts({ ...placed, total: money(placed.total - 2999) });
+  assert.equal(checkRefundAmounts(placed, orderAmounts(placed), after), null);
+  assert.equal(refundAmount(orderAmounts(placed), after), money(2999));
+});
+
+test("a refund that would raise the total is refused, not paid out as a negative amount", () => {
+  // e.g. the units taken off were what made shipping free
+  const before = orderAmounts(placed);
+  const after = orderAmounts({ ...placed, total: money(placed.total + 899) });
+
+  const error = checkRefundAmounts(placed, before, after);
+  assert.deepEqual(error, {
+    code: "REFUND_RAISES_TOTAL",
+    orderId: "1",
+    currency: "USD",
+    before: before.total,
+    after: after.total,
+  });
+  assert.ok(error);
+  assert.match(describeRefundError(error), /would raise its total from \$139\.96 to \$148\.95/);
+});
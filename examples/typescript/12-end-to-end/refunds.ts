@@ -0,0 +1,273 @@
+// ============================================================================
+// 12-END-TO-END / REFUNDS: Partial Cancellations and Returns per Line Item
+// ============================================================================
+// DEMO: Readonly records - a refund is history, so the type won't let
+//       anyone edit one after the fact
+// ============================================================================
+
+import type { Order, OrderItem, OrderStatus } from "../12-end-to-end.js";
+import { formatMoney, subtractMoney, type CurrencyCode, type Money } from "./money.js";
+import type { OrderStatusError } from "./order-lifecycle.js";
+import { isValidQuantity } from "./order-errors.js";
+
+// --- TYPES ---
+
+interface RefundItem {
+  productId: number;
+  quantity: number;
+}
+
+// The money side of an order at one point in time
+interface OrderAmounts {
+  readonly subtotal: Money;
+  readonly discount: Money;
+  readonly shipping: Money;
+  readonly tax: Money;
+  readonly total: Money;
+}
+
+interface RefundedLine {
+  readonly productId: number;
+  readonly productName: string;
+  readonly quantity: number;
+}
+
+// "cancellation": units taken off the order before it ships (back to stock)
+// "return": units sent back after it shipped
+type RefundKind = "cancellation" | "return";
+
+/** Appended to `order.refunds`, never edited or removed. */
+interface OrderRefund {
+  readonly id: number;  // 1, 2, ... within the order
+  readonly kind: RefundKind;
+  readonly lines: readonly RefundedLine[];
+  readonly reason?: string;
+  readonly before: OrderAmounts;
+  readonly after: OrderAmounts;
+  readonly amount: Money;  // before.total - after.total: what the customer gets back
+  readonly at: Date;
+}
+
+// --- ERRORS ---
+
+// Nothing to give back on an order that was cancelled as a whole
+interface OrderNotRefundable {
+  code: "ORDER_NOT_REFUNDABLE";
+  orderId: string;
+  status: OrderStatus;
+}
+
+interface EmptyRefund {
+  code: "EMPTY_REFUND";
+}
+
+interface ItemNotOnOrder {
+  code: "ITEM_NOT_ON_ORDER";
+  productId: number;
+}
+
+interface InvalidRefundQuantity {
+  code: "INVALID_QUANTITY";
+  productId: number;
+  quantity: number;
+}
+
+interface RefundExceedsQuantity {
+  code: "REFUND_EXCEEDS_QUANTITY";
+  productId: number;
+  requested: number;
+  remaining: number;
+}
+
+// Taking every unit off an unshipped order is a cancellation of the order
+interface CancelsWholeOrder {
+  code: "CANCELS_WHOLE_ORDER";
+  orderId: string;
+}
+
+// An order placed before its tax rates were kept on it, in a jurisdiction
+// that has since been removed: there is nothing to re-price its tax with
+interface RefundJurisdictionMissing {
+  code: "UNKNOWN_JURISDICTION";
+  orderId: string;
+  jurisdiction: string;
+}
+
+// What is left can cost more than the whole order did, e.g. when the units
+// taken off were what earned a discount or free shipping: the customer
+// would owe money, not get it back
+interface RefundRaisesTotal {
+  code: "REFUND_RAISES_TOTAL";
+  orderId: string;
+  currency: CurrencyCode;
+  before: Money;
+  after: Money;
+}
+
+type RefundError =
+  | Extract<OrderStatusError, { code: "ORDER_NOT_FOUND" | "VERSION_CONFLICT" }>
+  | OrderNotRefundable
+  | EmptyRefund
+  | ItemNotOnOrder
+  | InvalidRefundQuantity
+  | RefundExceedsQuantity
+  | CancelsWholeOrder
+  | RefundJurisdictionMissing
+  | RefundRaisesTotal;
+
+type RefundErrorCode = RefundError["code"];
+
+type RefundOrderItemsResult =
+  | { success: true; order: Order; refund: OrderRefund }
+  | { success: false; error: RefundError };
+
+// --- CHECKS ---
+
+function refundKind(status: OrderStatus): RefundKind | null {
+  switch (status) {
+    case "pending":
+    case "processing":
+      return "cancellation";
+    case "shipped":
+    case "delivered":
+      return "return";
+    case "cancelled":
+      return null;
+  }
+}
+
+/** Sums repeated products, so "101x1, 101x1" is the same as "101x2". */
+function mergeRefundItems(items: RefundItem[]): RefundItem[] {
+  const merged = new Map<number, number>();
+  for (const item of items) {
+    merged.set(item.productId, (merged.get(item.productId) ?? 0) + item.quantity);
+  }
+  return [...merged].map(([productId, quantity]) => ({ productId, quantity }));
+}
+
+function checkRefundItems(order: Order, items: RefundItem[]): RefundError | null {
+  if (items.length === 0) {
+    return { code: "EMPTY_REFUND" };
+  }
+  for (const item of items) {
+    if (!isValidQuantity(item.quantity)) {
+      return { code: "INVALID_QUANTITY", productId: item.productId, quantity: item.quantity };
+    }
+  }
+  for (const item of mergeRefundItems(items)) {
+    const lines = order.items.filter((line) => line.product.id === item.productId);
+    if (lines.length === 0) {
+      return { code: "ITEM_NOT_ON_ORDER", productId: item.productId };
+    }
+    const remaining = lines.reduce((sum, line) => sum + line.quantity, 0);
+    if (item.quantity > remaining) {
+      return { code: "REFUND_EXCEEDS_QUANTITY", productId: item.productId, requested: item.quantity, remaining };
+    }
+  }
+  return null;
+}
+
+// --- LINE OPERATIONS ---
+
+/**
+ * The order's lines with the refunded units taken off (earlier lines
+ * first if a product appears twice), fully refunded lines dropped.
+ * Discounts and totals are left for the caller to re-price.
+ */
+function removeRefundedUnits(lines: OrderItem[], items: RefundItem[]): OrderItem[] {
+  const toRemove = new Map(mergeRefundItems(items).map((item) => [item.productId, item.quantity]));
+  return lines.flatMap((line) => {
+    const wanted = toRemove.get(line.product.id) ?? 0;
+    const removed = Math.min(wanted, line.quantity);
+    toRemove.set(line.product.id, wanted - removed);
+    const quantity = line.quantity - removed;
+    return quantity === 0 ? [] : [{ ...line, quantity }];
+  });
+}
+
+function refundedLines(order: Order, items: RefundItem[]): RefundedLine[] {
+  return mergeRefundItems(items).map((item) => ({
+    productId: item.productId,
+    productName: order.items.find((line) => line.product.id === item.productId)?.product.name ?? "",
+    quantity: item.quantity,
+  }));
+}
+
+// --- AMOUNTS ---
+
+function orderAmounts(order: Order): OrderAmounts {
+  return {
+    subtotal: order.subtotal,
+    discount: order.discount,
+    shipping: order.shipping.cost,
+    tax: order.tax,
+    total: order.total,
+  };
+}
+
+/** The amounts when the order was placed, before any refund. */
+function originalAmounts(order: Order): OrderAmounts {
+  return order.refunds[0]?.before ?? orderAmounts(order);
+}
+
+/** Refused before anything is saved if the total would go up. */
+function checkRefundAmounts(order: Order, before: OrderAmounts, after: OrderAmounts): RefundError | null {
+  if (after.total > before.total) {
+    return { code: "REFUND_RAISES_TOTAL", orderId: order.id, currency: order.currency, before: before.total, after: after.total };
+  }
+  return null;
+}
+
+function refundAmount(before: OrderAmounts, after: OrderAmounts): Money {
+  return subtractMoney(before.total, after.total);
+}
+
+// --- MESSAGES ---
+
+function describeRefundError(error: RefundError): string {
+  switch (error.code) {
+    case "ORDER_NOT_FOUND":
+      return `Order ${error.orderId} not found`;
+    case "VERSION_CONFLICT":
+      return error.actualVersion === null
+        ? `Order ${error.orderId} was deleted while you were editing it`
+        : `Order ${error.orderId} was changed by someone else (expected version ${error.expectedVersion}, now ${error.actualVersion})`;
+    case "ORDER_NOT_REFUNDABLE":
+      return `Order ${error.orderId} is ${error.status} - there is nothing left to refund`;
+    case "EMPTY_REFUND":
+      return "No items to refund";
+    case "ITEM_NOT_ON_ORDER":
+      return `Product ${error.productId} is not on this order`;
+    case "INVALID_QUANTITY":
+      return `Product ${error.productId}: quantity must be a positive whole number, got ${error.quantity}`;
+    case "REFUND_EXCEEDS_QUANTITY":
+      return `Product ${error.productId}: cannot refund ${error.requested}, only ${error.remaining} left on the order`;
+    case "CANCELS_WHOLE_ORDER":
+      return `That is every item on order ${error.orderId} - cancel the order instead`;
+    case "UNKNOWN_JURISDICTION":
+      return `Order ${error.orderId} can't be re-priced: tax jurisdiction ${error.jurisdiction} is no longer configured`;
+    case "REFUND_RAISES_TOTAL":
+      return `Taking those items off order ${error.orderId} would raise its total from ${formatMoney(error.before, error.currency)} to ${formatMoney(error.after, error.currency)} - there is nothing to refund`;
+  }
+}
+
+export {
+  refundKind,
+  mergeRefundItems,
+  checkRefundItems,
+  checkRefundAmounts,
+  removeRefundedUnits,
+  refundedLines,
+  orderAmounts,
+  originalAmounts,
+  refundAmount,
+  describeRefundError,
+  type RefundItem,
+  type OrderAmounts,
+  type RefundedLine,
+  type RefundKind,
+  type OrderRefund,
+  type RefundError,
+  type RefundErrorCode,
+  type RefundOrderItemsResult,
+};
@@ -0,0 +1,65 @@
+// ============================================================================
+// 12-END-TO-END / RENDERERS TESTS: Escaping and Stable Output per Format
+// ============================================================================
+// Run with `npm test`. The product name is chosen to break every format
+// that forgets to escape it.
+// ============================================================================
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { Order } from "../12-end-to-end.js";
+import { zero } from "./money.js";
+import { canonicalJson, isOrderFormat, renderOrder } from "./renderers.js";
+import { item, order, widget } from "./test-fixtures.js";
+
+const hostile = { ...widget, name: `<b>"Deluxe", 50% *off*</b>` };
+
+/** The fixture order with a tax line per item, as a priced order has. */
+function taxed(changes: Partial<Order>): Order {
+  const placed = order("1", changes);
+  const lines = placed.items.map((line) => ({
+    productId: line.product.id,
+    category: line.product.taxCategory,
+    rate: 0,
+    net: line.total,
+    tax: zero(),
+  }));
+  return { ...placed, taxBreakdown: { ...placed.taxBreakdown, lines } };
+}
+
+const placed = taxed({ items: [item(hostile, 2)] });
+
+// --- ESCAPING ---
+
+test("html escapes what the customer or catalog typed", () => {
+  const html = renderOrder(placed, "html");
+
+  assert.ok(html.includes("<td>&lt;b&gt;&quot;Deluxe&quot;, 50% *off*&lt;/b&gt;</td>"));
+  assert.ok(!html.includes("<b>"));
+});
+
+test("markdown escapes the characters that would format or break a table", () => {
+  assert.ok(renderOrder(placed, "markdown").includes(String.raw`| \<b\>"Deluxe", 50% \*off\*\</b\> | 2 |`));
+});
+
+test("csv quotes a field with commas or quotes, and keeps one row per line plus shipping", () => {
+  const rows = renderOrder(placed, "csv").split("\r\n");
+
+  assert.equal(rows.length, 3);
+  assert.ok(rows[1].includes(`,"<b>""Deluxe"", 50% *off*</b>",2,`));
+});
+
+// --- JSON ---
+
+test("json is the same whatever order the keys were written in", () => {
+  assert.equal(canonicalJson({ b: 1, a: { d: 2, c: 3 } }), canonicalJson({ a: { c: 3, d: 2 }, b: 1 }));
+  assert.equal(JSON.parse(renderOrder(placed, "json")).lines[0].total, 2 * 2999);
+});
+
+// --- FORMATS ---
+
+test("isOrderFormat accepts format names only, not other object keys", () => {
+  assert.equal(isOrderFormat("csv"), true);
+  assert.equal(isOrderFormat("pdf"), false);
+  assert.equal(isOrderFormat("toString"), false);
+});
@@ -0,0 +1,397 @@
+// ============================================================================
+// 12-END-TO-END / RENDERERS: One View Model, Many Output Formats
+// ============================================================================
+// DEMO: Record<Union, Fn> - the compiler makes sure every format is handled
+// ============================================================================
+
+import type { Address, Order, OrderId, OrderStatus } from "../12-end-to-end.js";
+import type { ExchangeRate } from "./exchange-rates.js";
+import type { PaymentStatus } from "./payments.js";
+import { originalAmounts, type OrderAmounts, type RefundKind } from "./refunds.js";
+import { formatMoney, toDecimal, type CurrencyCode, type Money } from "./money.js";
+
+// --- VIEW MODEL ---
+
+// Every renderer reads from this, so all formats show the same numbers
+interface OrderLineView {
+  productId: number;
+  name: string;
+  quantity: number;
+  unitPrice: Money;
+  total: Money;
+  discount: Money;
+  taxRate: number;
+  tax: Money;
+}
+
+interface OrderView {
+  id: OrderId;
+  version: number;  // send back as expectedVersion when updating
+  customerName: string;
+  customerEmail: string;
+  status: OrderStatus;
+  createdAt: string;  // ISO 8601
+  jurisdiction: string;
+  shipTo: string;  // one-line address
+  pricesIncludeTax: boolean;
+  currency: CurrencyCode;  // of every amount in the view
+  locale: string;
+  exchangeRates: ExchangeRate[];
+  lines: OrderLineView[];
+  discounts: { label: string; amount: Money }[];
+  subtotal: Money;
+  discount: Money;
+  shipping: { label: string; free: boolean; cost: Money; taxRate: number; tax: Money };
+  tax: Money;
+  total: Money;
+  payment: { status: PaymentStatus; authorized: Money; captured: Money; refunded: Money };
+  original: OrderAmounts;  // when placed; the amounts above are net of every refund
+  refunds: { id: number; kind: RefundKind; at: string; items: string; reason?: string; amount: Money }[];
+  history: { at: string; from: OrderStatus | null; to: OrderStatus; reason?: string }[];
+}
+
+function toOrderView(order: Order): OrderView {
+  return {
+    id: order.id,
+    version: order.version,
+    customerName: order.user.name,
+    customerEmail: order.user.email,
+    status: order.status,
+    createdAt: order.createdAt.toISOString(),
+    jurisdiction: order.jurisdiction,
+    shipTo: formatAddress(order.shippingAddress),
+    pricesIncludeTax: order.taxBreakdown.pricesIncludeTax,
+    currency: order.currency,
+    locale: order.locale,
+    exchangeRates: order.exchangeRates,
+    lines: order.items.map((item, index) => ({
+      productId: item.product.id,
+      name: item.product.name,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      total: item.total,
+      discount: item.discount,
+      taxRate: order.taxBreakdown.lines[index].rate,
+      tax: order.taxBreakdown.lines[index].tax,
+    })),
+    discounts: order.discounts.map(({ label, amount }) => ({ label, amount })),
+    subtotal: order.subtotal,
+    discount: order.discount,
+    shipping: {
+      label: order.shipping.label,
+      free: order.shipping.freeShipping,
+      cost: order.shipping.cost,
+      taxRate: order.taxBreakdown.shipping.rate,
+      tax: order.taxBreakdown.shipping.tax,
+    },
+    tax: order.tax,
+    total: order.total,
+    payment: {
+      status: order.payment.status,
+      authorized: order.payment.authorized,
+      captured: order.payment.captured,
+      refunded: order.payment.refunded,
+    },
+    original: originalAmounts(order),
+    refunds: order.refunds.map((refund) => ({
+      id: refund.id,
+      kind: refund.kind,
+      at: refund.at.toISOString(),
+      items: refund.lines.map((line) => `${line.productName} x${line.quantity}`).join(", "),
+      reason: refund.reason,
+      amount: refund.amount,
+    })),
+    history: order.statusHistory.map((change) => ({
+      at: change.at.toISOString(),
+      from: change.from,
+      to: change.to,
+      reason: change.reason,
+    })),
+  };
+}
+
+// --- HELPERS ---
+
+function formatRate(rate: number): string {
+  return `${(rate * 100).toFixed(2)}%`;
+}
+
+/** Formats amounts in the order's own currency and locale. */
+function moneyFormatter(view: OrderView): (amount: Money) => string {
+  return (amount) => formatMoney(amount, view.currency, view.locale);
+}
+
+function describeRates(view: OrderView): string[] {
+  return view.exchangeRates.map((r) => `1 ${r.from} = ${r.rate} ${r.to} (rates as of ${r.asOf})`);
+}
+
+function formatAddress(address: Address): string {
+  const street = address.line2 ? `${address.line1}, ${address.line2}` : address.line1;
+  return `${address.recipient}, ${street}, ${address.postalCode} ${address.city}, ${address.country}`;
+}
+
+function shippingLabel(view: OrderView): string {
+  return view.shipping.free ? `Shipping (${view.shipping.label}, free)` : `Shipping (${view.shipping.label})`;
+}
+
+/** "captured (€10.00 of €10.00)", "refunded (€10.00 of €10.00)", "unpaid" */
+function describePayment(view: OrderView, fmt: (amount: Money) => string): string {
+  const { status, authorized, captured, refunded } = view.payment;
+  switch (status) {
+    case "unpaid":
+    case "voided":
+      return status;
+    case "authorized":
+      return `${status} (${fmt(authorized)} held)`;
+    case "partially-refunded":
+    case "refunded":
+      return `${status} (${fmt(refunded)} of ${fmt(captured)})`;
+    default:
+      return `${status} (${fmt(captured)} of ${fmt(authorized)})`;
+  }
+}
+
+function totalLabel(view: OrderView): string {
+  return view.refunds.length > 0 ? "Net total" : "Total";
+}
+
+/** "#1 cancellation: Widget x2 -$56.42 (changed mind)" */
+function describeRefund(refund: OrderView["refunds"][number], fmt: (amount: Money) => string): string {
+  const reason = refund.reason ? ` (${refund.reason})` : "";
+  return `#${refund.id} ${refund.kind}: ${refund.items} -${fmt(refund.amount)}${reason}`;
+}
+
+function describeOriginal(view: OrderView, fmt: (amount: Money) => string): string {
+  const { subtotal, discount, shipping, tax, total } = view.original;
+  return `${fmt(total)} (subtotal ${fmt(subtotal)}, discount -${fmt(discount)}, shipping ${fmt(shipping)}, tax ${fmt(tax)})`;
+}
+
+function taxLabel(view: OrderView): string {
+  return view.pricesIncludeTax ? "Tax (included)" : "Tax";
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_{}[\]()#+\-.!|<>])/g, "\\$1");
+}
+
+function escapeCsv(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** JSON with object keys sorted, so equal orders always serialize identically. */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, inner: unknown) => {
+    if (typeof inner !== "object" || inner === null || Array.isArray(inner)) {
+      return inner;
+    }
+    const sorted: Record<string, unknown> = {};
+    for (const key of Object.keys(inner).sort()) {
+      sorted[key] = (inner as Record<string, unknown>)[key];
+    }
+    return sorted;
+  }, 2);
+}
+
+// --- RENDERERS ---
+
+function renderText(view: OrderView): string {
+  const fmt = moneyFormatter(view);
+  const lines = [
+    "========== ORDER SUMMARY ==========",
+    `Order #${view.id}`,
+    `Customer: ${view.customerName} (${view.customerEmail})`,
+    `Status: ${view.status}`,
+    `Ship to: ${view.shipTo}`,
+    "",
+    "Items:",
+    ...view.lines.map((line) => `  - ${line.name} x${line.quantity} = ${fmt(line.total)}`),
+    "",
+    `Subtotal: ${fmt(view.subtotal)}`,
+    ...view.discounts.map((d) => `  ${d.label}: -${fmt(d.amount)}`),
+    `Discount: -${fmt(view.discount)}`,
+    `${shippingLabel(view)}: ${fmt(view.shipping.cost)}`,
+    `${taxLabel(view)} [${view.jurisdiction}]: ${fmt(view.tax)}`,
+    ...view.lines.map((line) => `  ${line.name} @ ${formatRate(line.taxRate)}: ${fmt(line.tax)}`),
+    `  Shipping @ ${formatRate(view.shipping.taxRate)}: ${fmt(view.shipping.tax)}`,
+    ...(view.refunds.length > 0
+      ? [
+          `Original total: ${describeOriginal(view, fmt)}`,
+          "Adjustments:",
+          ...view.refunds.map((refund) => `  ${describeRefund(refund, fmt)}`),
+        ]
+      : []),
+    `${totalLabel(view)}: ${fmt(view.total)}`,
+    `Payment: ${describePayment(view, fmt)}`,
+    ...describeRates(view),
+    "",
+    "History:",
+    ...view.history.map((change) => {
+      const reason = change.reason ? ` - ${change.reason}` : "";
+      return `  ${change.at} ${change.from ?? "(new)"} → ${change.to}${reason}`;
+    }),
+    "====================================",
+  ];
+  return lines.join("\n");
+}
+
+function renderMarkdown(view: OrderView): string {
+  const md = escapeMarkdown;
+  const fmt = moneyFormatter(view);
+  const lines = [
+    `# Order #${view.id}`,
+    "",
+    `**Customer:** ${md(view.customerName)} (${md(view.customerEmail)})  `,
+    `**Status:** ${view.status}  `,
+    `**Placed:** ${view.createdAt}  `,
+    `**Ship to:** ${md(view.shipTo)}`,
+    "",
+    "| Product | Qty | Unit price | Total | Discount | Tax |",
+    "| --- | ---: | ---: | ---: | ---: | ---: |",
+    ...view.lines.map(
+      (line) =>
+        `| ${md(line.name)} | ${line.quantity} | ${fmt(line.unitPrice)} | ${fmt(line.total)} | -${fmt(line.discount)} | ${fmt(line.tax)} |`
+    ),
+    "",
+    `- Subtotal: ${fmt(view.subtotal)}`,
+    ...view.discounts.map((d) => `  - ${md(d.label)}: -${fmt(d.amount)}`),
+    `- Discount: -${fmt(view.discount)}`,
+    `- ${md(shippingLabel(view))}: ${fmt(view.shipping.cost)}`,
+    `- ${taxLabel(view)} \\[${view.jurisdiction}\\]: ${fmt(view.tax)}`,
+    ...(view.refunds.length > 0
+      ? [
+          `- Original total: ${md(describeOriginal(view, fmt))}`,
+          "- Adjustments:",
+          ...view.refunds.map((refund) => `  - ${md(describeRefund(refund, fmt))}`),
+        ]
+      : []),
+    `- **${totalLabel(view)}: ${fmt(view.total)}**`,
+    `- Payment: ${md(describePayment(view, fmt))}`,
+    ...describeRates(view).map((rate) => `- ${md(rate)}`),
+  ];
+  return lines.join("\n");
+}
+
+function renderHtml(view: OrderView): string {
+  const h = escapeHtml;
+  const fmt = moneyFormatter(view);
+  const rows = view.lines.map(
+    (line) =>
+      `    <tr><td>${h(line.name)}</td><td>${line.quantity}</td><td>${fmt(line.unitPrice)}</td>` +
+      `<td>${fmt(line.total)}</td><td>-${fmt(line.discount)}</td><td>${fmt(line.tax)}</td></tr>`
+  );
+  const discounts = view.discounts.map(
+    (d) => `    <li>${h(d.label)}: -${fmt(d.amount)}</li>`
+  );
+  return [
+    `<article class="order" data-order-id="${view.id}">`,
+    `  <h1>Order #${view.id}</h1>`,
+    `  <p>Customer: ${h(view.customerName)} (${h(view.customerEmail)})</p>`,
+    `  <p>Status: ${h(view.status)}</p>`,
+    `  <p>Ship to: ${h(view.shipTo)}</p>`,
+    "  <table>",
+    "    <tr><th>Product</th><th>Qty</th><th>Unit price</th><th>Total</th><th>Discount</th><th>Tax</th></tr>",
+    ...rows,
+    "  </table>",
+    "  <ul>",
+    ...discounts,
+    "  </ul>",
+    "  <dl>",
+    `    <dt>Subtotal</dt><dd>${fmt(view.subtotal)}</dd>`,
+    `    <dt>Discount</dt><dd>-${fmt(view.discount)}</dd>`,
+    `    <dt>${h(shippingLabel(view))}</dt><dd>${fmt(view.shipping.cost)}</dd>`,
+    `    <dt>${taxLabel(view)} [${h(view.jurisdiction)}]</dt><dd>${fmt(view.tax)}</dd>`,
+    ...(view.refunds.length > 0
+      ? [
+          `    <dt>Original total</dt><dd>${h(describeOriginal(view, fmt))}</dd>`,
+          ...view.refunds.map((refund) => `    <dt>Adjustment</dt><dd>${h(describeRefund(refund, fmt))}</dd>`),
+        ]
+      : []),
+    `    <dt>${totalLabel(view)}</dt><dd>${fmt(view.total)}</dd>`,
+    `    <dt>Payment</dt><dd>${h(describePayment(view, fmt))}</dd>`,
+    "  </dl>",
+    ...describeRates(view).map((rate) => `  <p class="exchange-rate">${h(rate)}</p>`),
+    "</article>",
+  ].join("\n");
+}
+
+// Amounts are integer cents: exact, and easy for other systems to reconcile
+function renderJson(view: OrderView): string {
+  return canonicalJson(view);
+}
+
+function renderCsv(view: OrderView): string {
+  const header = ["order_id", "currency", "product_id", "product", "quantity", "unit_price", "total", "discount", "tax_rate", "tax"];
+  const rows = view.lines.map((line) => [
+    view.id,
+    view.currency,
+    line.productId,
+    line.name,
+    line.quantity,
+    toDecimal(line.unitPrice).toFixed(2),
+    toDecimal(line.total).toFixed(2),
+    toDecimal(line.discount).toFixed(2),
+    line.taxRate,
+    toDecimal(line.tax).toFixed(2),
+  ]);
+  // Shipping gets its own row with no product id, so line sums still match the total
+  const shipping = [
+    view.id,
+    view.currency,
+    "",
+    shippingLabel(view),
+    1,
+    toDecimal(view.shipping.cost).toFixed(2),
+    toDecimal(view.shipping.cost).toFixed(2),
+    "0.00",
+    view.shipping.taxRate,
+    toDecimal(view.shipping.tax).toFixed(2),
+  ];
+  return [header, ...rows, shipping].map((row) => row.map(escapeCsv).join(",")).join("\r\n");
+}
+
+// --- REGISTRY ---
+
+type OrderFormat = "text" | "markdown" | "html" | "json" | "csv";
+
+type OrderRenderer = (view: OrderView) => string;
+
+// Adding a format to OrderFormat without a renderer here is a compile error
+const orderRenderers: Record<OrderFormat, OrderRenderer> = {
+  text: renderText,
+  markdown: renderMarkdown,
+  html: renderHtml,
+  json: renderJson,
+  csv: renderCsv,
+};
+
+function isOrderFormat(name: string): name is OrderFormat {
+  return Object.prototype.hasOwnProperty.call(orderRenderers, name);
+}
+
+function renderOrder(order: Order, format: OrderFormat = "text"): string {
+  return orderRenderers[format](toOrderView(order));
+}
+
+export {
+  toOrderView,
+  renderOrder,
+  orderRenderers,
+  isOrderFormat,
+  canonicalJson,
+  escapeHtml,
+  escapeCsv,
+  type OrderView,
+  type OrderLineView,
+  type OrderFormat,
+  type OrderRenderer,
+};
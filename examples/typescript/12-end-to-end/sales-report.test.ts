@@ -0,0 +1,79 @@
+// ============================================================================
+// 12-END-TO-END / SALES REPORT TESTS: Counting Orders, Units and Revenue
+// ============================================================================
+// Run with `npm test`. Every order is in USD, so no exchange rate gets in
+// the way of the sums.
+// ============================================================================
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { FakeClock } from "./clock.js";
+import { money } from "./money.js";
+import { buildSalesReport } from "./sales-report.js";
+import { gadget, item, order, placedAt, widget } from "./test-fixtures.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysAfterPlaced(days: number): Date {
+  return new Date(placedAt.getTime() + days * DAY_MS);
+}
+
+// --- PRODUCTS ---
+
+test("a product on two lines of one order counts as one order for it", () => {
+  const orders = [
+    order("1", { items: [item(widget, 2), item(gadget, 1), item(widget, 1)] }),
+    order("2", { items: [item(widget, 1)] }),
+  ];
+  const report = buildSalesReport(orders, { currency: "USD" });
+
+  const widgets = report.byProduct.find((product) => product.productId === widget.id);
+  assert.equal(widgets?.orders, 2);
+  assert.equal(widgets?.units, 4);
+  assert.equal(widgets?.revenue, money(4 * 2999));
+  assert.equal(report.byProduct.find((product) => product.productId === gadget.id)?.orders, 1);
+});
+
+// --- TOTALS ---
+
+test("revenue is sales less discounts, and cancelled orders don't count", () => {
+  const orders = [
+    order("1", { items: [item(widget, 2, money(998))] }),
+    order("2", { items: [item(gadget, 1)] }),
+    order("3", { items: [item(gadget, 5)], status: "cancelled" }),
+  ];
+  const { summary } = buildSalesReport(orders, { currency: "USD" });
+
+  assert.equal(summary.orders, 2);
+  assert.equal(summary.units, 3);
+  assert.equal(summary.grossSales, money(2 * 2999 + 4999));
+  assert.equal(summary.discountCost, money(998));
+  assert.equal(summary.revenue, money(2 * 2999 + 4999 - 998));
+  assert.equal(summary.averageOrderValue, money(Math.round((2 * 2999 + 4999 - 998) / 2)));
+});
+
+test("the previous period is the same length, right before", () => {
+  const orders = [
+    order("1", { items: [item(widget, 1)], createdAt: daysAfterPlaced(-3) }),
+    order("2", { items: [item(widget, 1)], createdAt: daysAfterPlaced(1) }),
+    order("3", { items: [item(widget, 1)], createdAt: daysAfterPlaced(2) }),
+  ];
+  const from = new Date("2026-01-05T00:00:00Z");
+  const report = buildSalesReport(orders, { currency: "USD", from, to: new Date(from.getTime() + 7 * DAY_MS) });
+
+  assert.equal(report.summary.orders, 2);
+  assert.equal(report.previous.orders, 1);
+  assert.equal(report.change.orders, 1);  // +100%
+  assert.equal(report.byPeriod.length, 7);
+});
+
+// --- RANGES ---
+
+test("with no orders to follow, the range is the injected clock's now", () => {
+  const clock = new FakeClock(new Date("2026-10-19T12:00:00Z"));
+  const report = buildSalesReport([], { currency: "USD", clock });
+
+  assert.deepEqual(report.from, clock.now());
+  assert.deepEqual(report.to, clock.now());
+  assert.equal(report.summary.orders, 0);
+});
@@ -0,0 +1,456 @@
+// ============================================================================
+// 12-END-TO-END / SALES REPORT: Revenue, AOV and Units Sold over Orders
+// ============================================================================
+// DEMO: One pass over the orders into typed accumulators, then plain report
+//       objects that every output format reads from
+// ============================================================================
+
+import type { Order, OrderStatus, UserTier } from "../12-end-to-end.js";
+import { systemClock, type Clock } from "./clock.js";
+import {
+  convertMoney,
+  defaultExchangeRates,
+  getExchangeRate,
+  type ExchangeRateTable,
+} from "./exchange-rates.js";
+import {
+  zero,
+  currencyCodes,
+  formatMoney,
+  money,
+  subtractMoney,
+  toDecimal,
+  type CurrencyCode,
+  type Money,
+} from "./money.js";
+import { canonicalJson, escapeCsv } from "./renderers.js";
+
+// --- REPORT TYPES ---
+
+type ReportGranularity = "day" | "week" | "month";
+
+const reportGranularities = ["day", "week", "month"] as const satisfies readonly ReportGranularity[];
+
+function isReportGranularity(value: string): value is ReportGranularity {
+  return (reportGranularities as readonly string[]).includes(value);
+}
+
+interface SalesMetrics {
+  orders: number;
+  units: number;
+  grossSales: Money;         // before discounts
+  discountCost: Money;       // given away by pricing rules and coupons
+  revenue: Money;            // grossSales - discountCost; tax and shipping excluded
+  averageOrderValue: Money;  // revenue / orders; zero without orders
+}
+
+// Fractional change against the previous period: 0.25 = +25%.
+// null when the previous value was zero, where a percentage means nothing.
+interface MetricChange {
+  orders: number | null;
+  units: number | null;
+  revenue: number | null;
+  averageOrderValue: number | null;
+}
+
+interface PeriodSales extends SalesMetrics {
+  period: string;  // "2026-10-19", "2026-W43" or "2026-10"
+  start: Date;
+  change: MetricChange | null;  // vs the period before; null for the first one
+}
+
+interface ProductSales {
+  productId: number;
+  name: string;
+  orders: number;  // orders containing the product
+  units: number;
+  grossSales: Money;
+  discountCost: Money;
+  revenue: Money;
+}
+
+interface SalesReport {
+  currency: CurrencyCode;  // every amount below, converted at `ratesAsOf`
+  ratesAsOf: string;
+  from: Date;  // inclusive
+  to: Date;    // exclusive
+  granularity: ReportGranularity;
+  statuses: OrderStatus[];
+  summary: SalesMetrics;
+  previous: SalesMetrics;  // the same-length range right before `from`
+  change: MetricChange;
+  byTier: Record<UserTier, SalesMetrics>;
+  byProduct: ProductSales[];  // best sellers (by revenue) first
+  byPeriod: PeriodSales[];    // every period in the range, empty ones included
+}
+
+interface SalesReportOptions {
+  from?: Date;  // default: the earliest matching order
+  to?: Date;    // default: just after the latest matching order
+  granularity?: ReportGranularity;  // default "day"
+  currency?: CurrencyCode;  // default: the rate table's base currency
+  statuses?: OrderStatus[];  // default: everything except cancelled
+  rates?: ExchangeRateTable;  // default: data/exchange-rates.json
+  clock?: Clock;  // where a range with no orders to follow starts and ends; default: the system clock
+}
+
+// --- ACCUMULATORS ---
+
+// Amounts are summed as raw cents per order currency and converted once at
+// the end: no rounding inside the hot loop, and one conversion per bucket
+// instead of one per order.
+type CurrencyTotals = Record<CurrencyCode, number>;
+
+interface Accumulator {
+  orders: number;
+  units: number;
+  gross: CurrencyTotals;
+  discount: CurrencyTotals;
+}
+
+interface ProductAccumulator extends Accumulator {
+  name: string;
+}
+
+function emptyTotals(): CurrencyTotals {
+  return Object.fromEntries(currencyCodes.map((code) => [code, 0])) as CurrencyTotals;
+}
+
+function emptyAccumulator(): Accumulator {
+  return { orders: 0, units: 0, gross: emptyTotals(), discount: emptyTotals() };
+}
+
+function addOrder(acc: Accumulator, order: Order, units: number): void {
+  acc.orders += 1;
+  acc.units += units;
+  acc.gross[order.currency] += order.subtotal;
+  acc.discount[order.currency] += order.discount;
+}
+
+// --- PERIODS (UTC) ---
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function startOfPeriod(at: Date, granularity: ReportGranularity): Date {
+  const day = Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate());
+  switch (granularity) {
+    case "day":
+      return new Date(day);
+    case "week":
+      // ISO weeks start on Monday; getUTCDay() is 0 for Sunday
+      return new Date(day - ((at.getUTCDay() + 6) % 7) * DAY_MS);
+    case "month":
+      return new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1));
+  }
+}
+
+function nextPeriod(start: Date, granularity: ReportGranularity): Date {
+  switch (granularity) {
+    case "day":
+      return new Date(start.getTime() + DAY_MS);
+    case "week":
+      return new Date(start.getTime() + 7 * DAY_MS);
+    case "month":
+      return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+  }
+}
+
+function periodLabel(start: Date, granularity: ReportGranularity): string {
+  const iso = start.toISOString();
+  switch (granularity) {
+    case "day":
+      return iso.slice(0, 10);
+    case "month":
+      return iso.slice(0, 7);
+    case "week": {
+      // The ISO week belongs to the year of its Thursday
+      const thursday = new Date(start.getTime() + 3 * DAY_MS);
+      const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+      const week = Math.floor((thursday.getTime() - yearStart) / (7 * DAY_MS)) + 1;
+      return `${thursday.getUTCFullYear()}-W${String(week).padStart(2, "0")}`;
+    }
+  }
+}
+
+// --- FINISHING ---
+
+function relativeChange(current: number, previous: number): number | null {
+  return previous === 0 ? null : (current - previous) / previous;
+}
+
+function compareMetrics(current: SalesMetrics, previous: SalesMetrics): MetricChange {
+  return {
+    orders: relativeChange(current.orders, previous.orders),
+    units: relativeChange(current.units, previous.units),
+    revenue: relativeChange(current.revenue, previous.revenue),
+    averageOrderValue: relativeChange(current.averageOrderValue, previous.averageOrderValue),
+  };
+}
+
+// --- AGGREGATION ---
+
+const defaultReportStatuses: OrderStatus[] = ["pending", "processing", "shipped", "delivered"];
+
+/**
+ * Everything is computed in a single pass over `orders`, in any order, with
+ * work per order independent of how many there are - a few hundred thousand
+ * orders take well under a second. Periods are calendar days, ISO weeks or
+ * months in UTC.
+ */
+function buildSalesReport(orders: readonly Order[], options: SalesReportOptions = {}): SalesReport {
+  const rates = options.rates ?? defaultExchangeRates;
+  const currency = options.currency ?? rates.base;
+  const granularity = options.granularity ?? "day";
+  const statuses = options.statuses ?? defaultReportStatuses;
+  const included = new Set<OrderStatus>(statuses);
+
+  // Open-ended ranges follow the data (a cheap extra pass, no sorting)
+  let from = options.from;
+  let to = options.to;
+  if (from === undefined || to === undefined) {
+    let first = Infinity;
+    let last = -Infinity;
+    for (const order of orders) {
+      if (!included.has(order.status)) continue;
+      first = Math.min(first, order.createdAt.getTime());
+      last = Math.max(last, order.createdAt.getTime());
+    }
+    const now = (options.clock ?? systemClock).now().getTime();
+    from ??= new Date(Number.isFinite(first) ? first : now);
+    to ??= new Date(Number.isFinite(last) ? last + 1 : now);
+  }
+  const fromMs = from.getTime();
+  const toMs = to.getTime();
+  const previousFromMs = fromMs - (toMs - fromMs);
+
+  const summary = emptyAccumulator();
+  const previous = emptyAccumulator();
+  const byTier: Record<UserTier, Accumulator> = {
+    basic: emptyAccumulator(),
+    premium: emptyAccumulator(),
+    enterprise: emptyAccumulator(),
+  };
+  const byProduct = new Map<number, ProductAccumulator>();
+  const byPeriod = new Map<number, Accumulator>();  // keyed by period start (ms)
+
+  for (const order of orders) {
+    if (!included.has(order.status)) continue;
+    const at = order.createdAt.getTime();
+
+    let units = 0;
+    for (const item of order.items) units += item.quantity;
+
+    if (at >= previousFromMs && at < fromMs) {
+      addOrder(previous, order, units);
+      continue;
+    }
+    if (at < fromMs || at >= toMs) continue;
+
+    addOrder(summary, order, units);
+    addOrder(byTier[order.user.tier], order, units);
+
+    const periodStart = startOfPeriod(order.createdAt, granularity).getTime();
+    let period = byPeriod.get(periodStart);
+    if (period === undefined) {
+      period = emptyAccumulator();
+      byPeriod.set(periodStart, period);
+    }
+    addOrder(period, order, units);
+
+    // A product on two lines of one order is still one order for it
+    const counted = new Set<number>();
+    for (const item of order.items) {
+      let product = byProduct.get(item.product.id);
+      if (product === undefined) {
+        product = { ...emptyAccumulator(), name: item.product.name };
+        byProduct.set(item.product.id, product);
+      }
+      if (!counted.has(item.product.id)) {
+        counted.add(item.product.id);
+        product.orders += 1;
+      }
+      product.units += item.quantity;
+      product.gross[order.currency] += item.total;
+      product.discount[order.currency] += item.discount;
+    }
+  }
+
+  // Convert each bucket's per-currency cents once
+  const toReportCurrency = (totals: CurrencyTotals): Money =>
+    money(
+      currencyCodes.reduce(
+        (sum, code) =>
+          totals[code] === 0 ? sum : sum + convertMoney(money(totals[code]), getExchangeRate(rates, code, currency)),
+        0
+      )
+    );
+
+  const finish = (acc: Accumulator): SalesMetrics => {
+    const grossSales = toReportCurrency(acc.gross);
+    const discountCost = toReportCurrency(acc.discount);
+    const revenue = subtractMoney(grossSales, discountCost);
+    return {
+      orders: acc.orders,
+      units: acc.units,
+      grossSales,
+      discountCost,
+      revenue,
+      averageOrderValue: acc.orders === 0 ? zero() : money(Math.round(revenue / acc.orders)),
+    };
+  };
+
+  // Every period from the one containing `from` up to `to`, gaps included
+  const periods: PeriodSales[] = [];
+  let previousPeriod: SalesMetrics | null = null;
+  for (
+    let start = startOfPeriod(from, granularity);
+    start.getTime() < toMs;
+    start = nextPeriod(start, granularity)
+  ) {
+    const metrics = finish(byPeriod.get(start.getTime()) ?? emptyAccumulator());
+    periods.push({
+      period: periodLabel(start, granularity),
+      start,
+      ...metrics,
+      change: previousPeriod && compareMetrics(metrics, previousPeriod),
+    });
+    previousPeriod = metrics;
+  }
+
+  const summaryMetrics = finish(summary);
+  const previousMetrics = finish(previous);
+  const products: ProductSales[] = [...byProduct.entries()].map(([productId, acc]) => {
+    const { orders, units, grossSales, discountCost, revenue } = finish(acc);
+    return { productId, name: acc.name, orders, units, grossSales, discountCost, revenue };
+  });
+
+  return {
+    currency,
+    ratesAsOf: rates.asOf,
+    from,
+    to,
+    granularity,
+    statuses,
+    summary: summaryMetrics,
+    previous: previousMetrics,
+    change: compareMetrics(summaryMetrics, previousMetrics),
+    byTier: {
+      basic: finish(byTier.basic),
+      premium: finish(byTier.premium),
+      enterprise: finish(byTier.enterprise),
+    },
+    byProduct: products.sort((a, b) => b.revenue - a.revenue || a.productId - b.productId),
+    byPeriod: periods,
+  };
+}
+
+// --- RENDERERS ---
+
+function formatChange(change: number | null): string {
+  if (change === null) return "n/a";
+  const percent = (change * 100).toFixed(1);
+  return change >= 0 ? `+${percent}%` : `${percent}%`;
+}
+
+function renderSalesText(report: SalesReport): string {
+  const fmt = (amount: Money): string => formatMoney(amount, report.currency);
+  const { summary, change } = report;
+  const tiers = Object.entries(report.byTier) as [UserTier, SalesMetrics][];
+  const lines = [
+    "========== SALES REPORT ==========",
+    `${report.from.toISOString()} → ${report.to.toISOString()}`,
+    `By ${report.granularity}, in ${report.currency} (rates as of ${report.ratesAsOf})`,
+    "",
+    `Orders: ${summary.orders} (${formatChange(change.orders)})`,
+    `Units sold: ${summary.units} (${formatChange(change.units)})`,
+    `Gross sales: ${fmt(summary.grossSales)}`,
+    `Discounts: -${fmt(summary.discountCost)}`,
+    `Revenue: ${fmt(summary.revenue)} (${formatChange(change.revenue)} vs previous period)`,
+    `Average order value: ${fmt(summary.averageOrderValue)} (${formatChange(change.averageOrderValue)})`,
+    "",
+    "By tier:",
+    ...tiers.map(([tier, m]) => `  ${tier}: ${m.orders} orders, ${fmt(m.revenue)} revenue, AOV ${fmt(m.averageOrderValue)}`),
+    "",
+    "By product:",
+    ...report.byProduct.map((p) => `  ${p.name}: ${p.units} units, ${fmt(p.revenue)} (discounts -${fmt(p.discountCost)})`),
+    "",
+    `By ${report.granularity}:`,
+    ...report.byPeriod.map(
+      (p) => `  ${p.period}: ${p.orders} orders, ${fmt(p.revenue)} (${p.change ? formatChange(p.change.revenue) : "-"})`
+    ),
+    "==================================",
+  ];
+  return lines.join("\n");
+}
+
+// One flat table: `section` says which breakdown a row belongs to
+function renderSalesCsv(report: SalesReport): string {
+  const header = [
+    "section", "key", "orders", "units", "gross_sales", "discount_cost", "revenue", "average_order_value", "revenue_change", "currency",
+  ];
+  const amount = (value: Money): string => toDecimal(value).toFixed(2);
+  // Products have no average order value of their own
+  const row = (
+    section: string,
+    key: string | number,
+    m: Omit<SalesMetrics, "averageOrderValue"> & { averageOrderValue?: Money },
+    change: MetricChange | null = null
+  ) => [
+    section,
+    key,
+    m.orders,
+    m.units,
+    amount(m.grossSales),
+    amount(m.discountCost),
+    amount(m.revenue),
+    m.averageOrderValue === undefined ? "" : amount(m.averageOrderValue),
+    change?.revenue == null ? "" : change.revenue.toFixed(4),
+    report.currency,
+  ];
+  const rows = [
+    row("summary", "current", report.summary, report.change),
+    row("summary", "previous", report.previous),
+    ...(Object.entries(report.byTier) as [UserTier, SalesMetrics][]).map(([tier, m]) => row("tier", tier, m)),
+    ...report.byProduct.map((p) => row("product", p.productId, p)),
+    ...report.byPeriod.map((p) => row(report.granularity, p.period, p, p.change)),
+  ];
+  return [header, ...rows].map((r) => r.map(escapeCsv).join(",")).join("\r\n");
+}
+
+// Amounts stay integer cents, dates become ISO strings
+function renderSalesJson(report: SalesReport): string {
+  return canonicalJson(report);
+}
+
+type ReportFormat = "text" | "csv" | "json";
+
+// Adding a format to ReportFormat without a renderer here is a compile error
+const reportRenderers: Record<ReportFormat, (report: SalesReport) => string> = {
+  text: renderSalesText,
+  csv: renderSalesCsv,
+  json: renderSalesJson,
+};
+
+function isReportFormat(value: string): value is ReportFormat {
+  return Object.prototype.hasOwnProperty.call(reportRenderers, value);
+}
+
+function renderSalesReport(report: SalesReport, format: ReportFormat = "text"): string {
+  return reportRenderers[format](report);
+}
+
+export {
+  buildSalesReport,
+  renderSalesReport,
+  reportGranularities,
+  isReportGranularity,
+  isReportFormat,
+  type ReportGranularity,
+  type ReportFormat,
+  type SalesMetrics,
+  type MetricChange,
+  type PeriodSales,
+  type ProductSales,
+  type SalesReport,
+  type SalesReportOptions,
+};
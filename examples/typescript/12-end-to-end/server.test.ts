@@ -0,0 +1,99 @@
+// ============================================================================
+// 12-END-TO-END / SERVER TESTS: Status Codes for Bad Requests and Failures
+// ============================================================================
+// Run with `npm test`. The server listens on a free localhost port, with its
+// `.data/` in a fresh temp dir.
+// ============================================================================
+
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, test } from "node:test";
+
+const dataDir = await mkdtemp(join(tmpdir(), "server-test-"));
+process.chdir(dataDir);
+
+const { startOrderServer } = await import("./server.js");
+const running = await startOrderServer();
+
+after(async () => {
+  await running.close();
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+// Just the fields the tests read, from order views and error bodies
+interface ResponseBody {
+  id?: string;
+  errors?: { code: string }[];
+  error?: { code: string; message?: string; allowed?: string };
+}
+
+async function request(
+  method: string,
+  path: string,
+  body?: string,
+  headers: Record<string, string> = {}
+): Promise<{ status: number; body: ResponseBody }> {
+  const response = await fetch(`${running.url}${path}`, { method, body, headers });
+  return { status: response.status, body: (await response.json()) as ResponseBody };
+}
+
+function post(path: string, body: unknown, headers?: Record<string, string>) {
+  return request("POST", path, JSON.stringify(body), headers);
+}
+
+// --- ROUTING ---
+
+test("an unknown path is 404, and a known path with the wrong method is 405", async () => {
+  assert.equal((await request("GET", "/nowhere")).status, 404);
+
+  const wrongMethod = await request("DELETE", "/orders");
+  assert.equal(wrongMethod.status, 405);
+  assert.deepEqual(wrongMethod.body, { error: { code: "METHOD_NOT_ALLOWED", allowed: "GET, POST" } });
+});
+
+test("a body that isn't JSON, or isn't shaped right, is 400", async () => {
+  const garbled = await request("POST", "/orders", "{userId: 1");
+  assert.equal(garbled.status, 400);
+  assert.match(garbled.body.error?.message ?? "", /not valid JSON/);
+
+  assert.equal((await post("/orders", { userId: "1", items: [] })).status, 400);
+  assert.equal((await post("/orders/1/status", { status: "lost" })).status, 400);
+});
+
+// --- ORDERS ---
+
+test("a rejected order lists every problem, with the first one's status code", async () => {
+  const result = await post("/orders", { userId: 999, items: [{ productId: 101, quantity: 0 }] });
+
+  assert.equal(result.status, 422);
+  assert.deepEqual(
+    result.body.errors?.map((error) => error.code),
+    ["INVALID_QUANTITY", "USER_NOT_FOUND"]
+  );
+});
+
+test("a retried create with the same key replays the order; a different body is 409", async () => {
+  const headers = { "Idempotency-Key": "checkout-1" };
+  const body = { userId: 1, items: [{ productId: 101, quantity: 1 }] };
+
+  const first = await post("/orders", body, headers);
+  assert.equal(first.status, 201);
+  const retried = await post("/orders", body, headers);
+  assert.equal(retried.body.id, first.body.id);
+
+  const other = await post("/orders", { ...body, items: [{ productId: 102, quantity: 1 }] }, headers);
+  assert.equal(other.status, 409);
+  assert.equal(other.body.errors?.[0]?.code, "IDEMPOTENCY_CONFLICT");
+});
+
+test("a missing order is 404, and an illegal move is 409", async () => {
+  assert.equal((await request("GET", "/orders/404")).status, 404);
+
+  const created = await post("/orders", { userId: 1, items: [{ productId: 101, quantity: 1 }] });
+  assert.ok(created.body.id);
+  const moved = await post(`/orders/${created.body.id}/status`, { status: "delivered" });
+  assert.equal(moved.status, 409);
+  assert.equal(moved.body.error?.code, "INVALID_TRANSITION");
+});
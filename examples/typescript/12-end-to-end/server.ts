@@ -0,0 +1,709 @@
+// ============================================================================
+// 12-END-TO-END / SERVER: An HTTP API Built on a Typed Route Table
+// ============================================================================
+// DEMO: The routes/RouteParams pattern from 99-advanced-route-types.ts,
+//       now actually serving requests with node:http
+// ============================================================================
+
+// Usage (after `pnpm build`):
+//   PORT=3000 node dist/12-end-to-end/server.js
+//   curl localhost:3000/orders -d '{"userId":1,"items":[{"productId":101,"quantity":2}]}'
+//   curl localhost:3000/users/1/cart/items -d '{"productId":101,"quantity":2}'
+//   curl localhost:3000/users/1/cart/checkout -d '{"expectedTotal":5398}'
+//   curl localhost:3000/orders/1/payment/capture -d '{}'
+//   curl localhost:3000/orders/1/refunds -d '{"items":[{"productId":101,"quantity":1}],"reason":"Damaged"}'
+//   curl localhost:3000/orders/1/events
+//   curl 'localhost:3000/orders/1?version=1'
+//   curl localhost:3000/webhooks -d '{"url":"https://partner.example/hooks","events":["order.shipped"]}'
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { pathToFileURL } from "node:url";
+import type { PathParams } from "../99-advanced-route-types.js";
+import {
+  addToCart,
+  capturePayment,
+  checkoutCart,
+  createOrder,
+  fetchOrder,
+  fetchProduct,
+  fetchUser,
+  findOrders,
+  getCart,
+  getOrderAtVersion,
+  getOrderHistory,
+  getOrdersByStatus,
+  getSalesReport,
+  listProducts,
+  listUsers,
+  notificationOutbox,
+  pendingOrders,
+  webhooks,
+  refundOrderItems,
+  refundPayment,
+  removeFromCart,
+  setCartOptions,
+  startNotifications,
+  updateCartItem,
+  updateOrderStatus,
+  type CreateOrderItem,
+  type PaymentResult,
+} from "../12-end-to-end.js";
+import type { CartErrorCode, CartResult } from "./carts.js";
+import { isOrderStatus, type OrderStatusError } from "./order-lifecycle.js";
+import type { CreateOrderProblemCode } from "./order-errors.js";
+import { currencyCodes, isCurrencyCode, money, type CurrencyCode, type Money } from "./money.js";
+import { isOrderSortField } from "./order-query.js";
+import type { PaymentErrorCode } from "./payments.js";
+import type { RefundErrorCode } from "./refunds.js";
+import { isReportGranularity } from "./sales-report.js";
+import { toOrderView } from "./renderers.js";
+import { isWebhookDeliveryStatus, type WebhookSubscriptionErrorCode } from "./webhooks.js";
+
+// --- ROUTES ---
+
+// `as const` keeps the literal paths, so params are parsed at the type level
+const orderRoutes = {
+  health: { path: "/health", method: "GET" },
+  listUsers: { path: "/users", method: "GET" },
+  getUser: { path: "/users/:userId", method: "GET" },
+  listProducts: { path: "/products", method: "GET" },
+  getProduct: { path: "/products/:productId", method: "GET" },
+  listOrders: { path: "/orders", method: "GET" },
+  createOrder: { path: "/orders", method: "POST" },
+  getOrder: { path: "/orders/:orderId", method: "GET" },
+  listOrderEvents: { path: "/orders/:orderId/events", method: "GET" },
+  setOrderStatus: { path: "/orders/:orderId/status", method: "POST" },
+  capturePayment: { path: "/orders/:orderId/payment/capture", method: "POST" },
+  refundPayment: { path: "/orders/:orderId/payment/refund", method: "POST" },
+  refundOrderItems: { path: "/orders/:orderId/refunds", method: "POST" },
+  getCart: { path: "/users/:userId/cart", method: "GET" },
+  setCartOptions: { path: "/users/:userId/cart", method: "PATCH" },
+  addCartItem: { path: "/users/:userId/cart/items", method: "POST" },
+  updateCartItem: { path: "/users/:userId/cart/items/:productId", method: "PUT" },
+  removeCartItem: { path: "/users/:userId/cart/items/:productId", method: "DELETE" },
+  checkoutCart: { path: "/users/:userId/cart/checkout", method: "POST" },
+  salesReport: { path: "/reports/sales", method: "GET" },
+  ordersByStatus: { path: "/reports/orders-by-status", method: "GET" },
+  listWebhooks: { path: "/webhooks", method: "GET" },
+  createWebhook: { path: "/webhooks", method: "POST" },
+  deleteWebhook: { path: "/webhooks/:webhookId", method: "DELETE" },
+  listWebhookDeliveries: { path: "/webhooks/:webhookId/deliveries", method: "GET" },
+} as const;
+
+type OrderRoutes = typeof orderRoutes;
+type OrderRouteName = keyof OrderRoutes;
+type OrderRouteParams<Name extends OrderRouteName> = PathParams<OrderRoutes[Name]["path"]>;
+
+type _Test1 = OrderRouteParams<"setOrderStatus">;
+//   ^? { orderId: string }
+
+type _Test2 = OrderRouteParams<"updateCartItem">;
+//   ^? { userId: string; productId: string }
+
+// --- HANDLERS ---
+
+interface RequestContext<Params> {
+  params: Params;
+  query: URLSearchParams;
+  body: unknown;
+  headers: IncomingMessage["headers"];
+}
+
+interface HttpResponse {
+  status: number;
+  body: unknown;
+}
+
+type Handler<Params> = (ctx: RequestContext<Params>) => Promise<HttpResponse>;
+
+// One handler per route, with params typed from that route's path.
+// Forgetting a route here is a compile error.
+type OrderHandlers = { [Name in OrderRouteName]: Handler<OrderRouteParams<Name>> };
+
+// --- ERROR → STATUS CODE MAPPING ---
+
+const createOrderStatusCodes: Record<CreateOrderProblemCode, number> = {
+  USER_NOT_FOUND: 422,
+  PRODUCT_NOT_FOUND: 422,
+  INVALID_QUANTITY: 422,
+  EMPTY_ORDER: 422,
+  UNKNOWN_JURISDICTION: 422,
+  OUT_OF_STOCK: 409,
+  IDEMPOTENCY_CONFLICT: 409,
+  ADDRESS_NOT_FOUND: 422,
+  SHIPPING_METHOD_NOT_FOUND: 422,
+  SHIPPING_UNAVAILABLE: 422,
+  TOTAL_CHANGED: 409,
+  PAYMENT_DECLINED: 402,
+  PAYMENT_TIMEOUT: 504,
+};
+
+const orderStatusErrorCodes: Record<OrderStatusError["code"], number> = {
+  ORDER_NOT_FOUND: 404,
+  INVALID_TRANSITION: 409,
+  VERSION_CONFLICT: 409,
+  PAYMENT_NOT_CAPTURED: 409,
+};
+
+const refundErrorCodes: Record<RefundErrorCode, number> = {
+  ORDER_NOT_FOUND: 404,
+  VERSION_CONFLICT: 409,
+  ORDER_NOT_REFUNDABLE: 409,
+  CANCELS_WHOLE_ORDER: 409,
+  EMPTY_REFUND: 422,
+  ITEM_NOT_ON_ORDER: 422,
+  INVALID_QUANTITY: 422,
+  REFUND_EXCEEDS_QUANTITY: 422,
+  UNKNOWN_JURISDICTION: 409,
+  REFUND_RAISES_TOTAL: 422,
+};
+
+const paymentErrorCodes: Record<PaymentErrorCode, number> = {
+  ORDER_NOT_FOUND: 404,
+  PAYMENT_DECLINED: 402,
+  PAYMENT_TIMEOUT: 504,
+  INVALID_PAYMENT_STATE: 409,
+  INVALID_PAYMENT_AMOUNT: 422,
+};
+
+const webhookErrorCodes: Record<WebhookSubscriptionErrorCode, number> = {
+  INVALID_WEBHOOK_URL: 422,
+  NO_WEBHOOK_EVENTS: 422,
+  UNKNOWN_WEBHOOK_EVENT: 422,
+};
+
+const cartErrorCodes: Record<CartErrorCode, number> = {
+  USER_NOT_FOUND: 404,
+  CART_NOT_FOUND: 404,
+  CART_EXPIRED: 410,
+  CART_ITEM_NOT_FOUND: 404,
+  PRODUCT_NOT_FOUND: 422,
+  INVALID_QUANTITY: 422,
+  CART_LOCKED: 409,
+  CART_VERSION_CONFLICT: 409,
+  CHECKOUT_FAILED: 422,
+};
+
+class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly code: string = "BAD_REQUEST"
+  ) {
+    super(message);
+  }
+}
+
+function notFound(message: string): HttpResponse {
+  return { status: 404, body: { error: { code: "NOT_FOUND", message } } };
+}
+
+// --- INPUT VALIDATION ---
+
+function parseId(value: string, name: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new HttpError(400, `${name} must be a positive whole number`);
+  }
+  return Number(value);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+function optionalString(body: Record<string, unknown>, field: string): string | undefined {
+  const value = body[field];
+  if (value !== undefined && typeof value !== "string") {
+    throw new HttpError(400, `${field} must be a string`);
+  }
+  return value;
+}
+
+function optionalDate(query: URLSearchParams, name: string): Date | undefined {
+  const value = query.get(name);
+  if (value === null) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new HttpError(400, `?${name} must be an ISO date`);
+  }
+  return date;
+}
+
+function optionalCurrency(body: Record<string, unknown>): CurrencyCode | undefined {
+  const value = body.currency;
+  if (value !== undefined && (typeof value !== "string" || !isCurrencyCode(value))) {
+    throw new HttpError(400, `currency must be one of ${currencyCodes.join(", ")}`);
+  }
+  return value;
+}
+
+function optionalCouponCodes(body: Record<string, unknown>): string[] | undefined {
+  const value = body.couponCodes;
+  if (value !== undefined && !isStringArray(value)) {
+    throw new HttpError(400, "couponCodes must be an array of strings");
+  }
+  return value;
+}
+
+// Money travels as integer cents, like everywhere else in the API
+function optionalCents(body: Record<string, unknown>, field: string): Money | undefined {
+  const value = body[field];
+  if (value !== undefined && (typeof value !== "number" || !Number.isInteger(value))) {
+    throw new HttpError(400, `${field} must be a whole number of cents`);
+  }
+  return value === undefined ? undefined : money(value);
+}
+
+interface CreateOrderBody {
+  userId: number;
+  items: CreateOrderItem[];
+  couponCodes?: string[];
+  shippingAddressId?: string;
+  shippingMethodId?: string;
+  jurisdiction?: string;
+  currency?: CurrencyCode;
+  expectedTotal?: Money;
+}
+
+// Quantity rules (positive, whole) are left to createOrder / refundOrderItems
+function parseItems(items: unknown[]): CreateOrderItem[] {
+  return items.map((item: unknown): CreateOrderItem => {
+    if (!isRecord(item) || typeof item.productId !== "number" || typeof item.quantity !== "number") {
+      throw new HttpError(400, "Each item must be { productId: number, quantity: number }");
+    }
+    return { productId: item.productId, quantity: item.quantity };
+  });
+}
+
+function parseCreateOrderBody(body: unknown): CreateOrderBody {
+  if (!isRecord(body) || typeof body.userId !== "number" || !Array.isArray(body.items)) {
+    throw new HttpError(400, "Body must be { userId: number, items: { productId, quantity }[] }");
+  }
+  return {
+    userId: body.userId,
+    items: parseItems(body.items),
+    couponCodes: optionalCouponCodes(body),
+    shippingAddressId: optionalString(body, "shippingAddressId"),
+    shippingMethodId: optionalString(body, "shippingMethodId"),
+    jurisdiction: optionalString(body, "jurisdiction"),
+    currency: optionalCurrency(body),
+    expectedTotal: optionalCents(body, "expectedTotal"),
+  };
+}
+
+function parseQuantityBody(body: unknown): number {
+  if (!isRecord(body) || typeof body.quantity !== "number") {
+    throw new HttpError(400, "Body must be { quantity: number }");
+  }
+  return body.quantity;
+}
+
+function cartResponse(result: CartResult, successStatus = 200): HttpResponse {
+  return result.success
+    ? { status: successStatus, body: result.view }
+    : { status: cartErrorCodes[result.error.code], body: { error: result.error } };
+}
+
+function paymentResponse(result: PaymentResult): HttpResponse {
+  return result.success
+    ? { status: 200, body: toOrderView(result.order) }
+    : { status: paymentErrorCodes[result.error.code], body: { error: result.error } };
+}
+
+// --- HANDLER IMPLEMENTATIONS ---
+
+const handlers: OrderHandlers = {
+  health: async () => ({ status: 200, body: { status: "ok" } }),
+
+  listUsers: async () => ({ status: 200, body: await listUsers() }),
+
+  getUser: async ({ params }) => {
+    const user = await fetchUser(parseId(params.userId, "userId"));
+    return user ? { status: 200, body: user } : notFound(`User ${params.userId} not found`);
+  },
+
+  listProducts: async () => ({ status: 200, body: await listProducts() }),
+
+  getProduct: async ({ params }) => {
+    const product = await fetchProduct(parseId(params.productId, "productId"));
+    return product ? { status: 200, body: product } : notFound(`Product ${params.productId} not found`);
+  },
+
+  listOrders: async ({ query }) => {
+    const statuses = query.getAll("status");
+    const sort = query.get("sort");
+    const limit = query.get("limit");
+    const userId = query.get("userId");
+
+    if (!statuses.every(isOrderStatus)) {
+      throw new HttpError(400, "Unknown status in ?status");
+    }
+    if (sort !== null && !isOrderSortField(sort)) {
+      throw new HttpError(400, `Cannot sort by "${sort}"`);
+    }
+
+    const result = await findOrders({
+      statuses: statuses.length > 0 ? statuses : undefined,
+      userId: userId === null ? undefined : parseId(userId, "userId"),
+      sort: sort === null ? undefined : { field: sort, direction: query.get("direction") === "desc" ? "desc" : "asc" },
+      limit: limit === null ? undefined : parseId(limit, "limit"),
+      cursor: query.get("cursor") ?? undefined,
+    });
+
+    if (!result.success) {
+      return { status: 400, body: { error: result.error } };
+    }
+    const { orders, nextCursor, total } = result.page;
+    return { status: 200, body: { orders: orders.map(toOrderView), nextCursor, total } };
+  },
+
+  createOrder: async ({ body, headers }) => {
+    const input = parseCreateOrderBody(body);
+    const idempotencyKey = headers["idempotency-key"];
+
+    const result = await createOrder(input.userId, input.items, {
+      couponCodes: input.couponCodes,
+      shippingAddressId: input.shippingAddressId,
+      shippingMethodId: input.shippingMethodId,
+      jurisdiction: input.jurisdiction,
+      currency: input.currency,
+      expectedTotal: input.expectedTotal,
+      idempotencyKey: typeof idempotencyKey === "string" ? idempotencyKey : undefined,
+      validation: "collect-all",  // API clients want every problem at once
+    });
+
+    if (!result.success) {
+      return { status: createOrderStatusCodes[result.errors[0].code], body: { errors: result.errors } };
+    }
+    return { status: 201, body: toOrderView(result.order) };
+  },
+
+  // ?version=N replays the order's events up to that version
+  getOrder: async ({ params, query }) => {
+    const version = query.get("version");
+    const order = version === null
+      ? await fetchOrder(params.orderId)
+      : await getOrderAtVersion(params.orderId, parseId(version, "version"));
+    return order ? { status: 200, body: toOrderView(order) } : notFound(`Order ${params.orderId} not found`);
+  },
+
+  listOrderEvents: async ({ params }) => {
+    const history = await getOrderHistory(params.orderId);
+    return history.length > 0 ? { status: 200, body: history } : notFound(`Order ${params.orderId} not found`);
+  },
+
+  setOrderStatus: async ({ params, body }) => {
+    if (!isRecord(body) || typeof body.status !== "string" || !isOrderStatus(body.status)) {
+      throw new HttpError(400, "Body must be { status: OrderStatus, reason?: string, expectedVersion?: number }");
+    }
+    if (body.expectedVersion !== undefined && typeof body.expectedVersion !== "number") {
+      throw new HttpError(400, "expectedVersion must be a number");
+    }
+
+    const result = await updateOrderStatus(params.orderId, body.status, {
+      reason: typeof body.reason === "string" ? body.reason : undefined,
+      expectedVersion: body.expectedVersion,
+    });
+    if (!result.success) {
+      return { status: orderStatusErrorCodes[result.error.code], body: { error: result.error } };
+    }
+    return { status: 200, body: toOrderView(result.order) };
+  },
+
+  // Body: { amount?: cents } - everything still capturable/refundable by default
+  capturePayment: async ({ params, body }) =>
+    paymentResponse(await capturePayment(params.orderId, isRecord(body) ? optionalCents(body, "amount") : undefined)),
+
+  refundPayment: async ({ params, body }) =>
+    paymentResponse(await refundPayment(params.orderId, isRecord(body) ? optionalCents(body, "amount") : undefined)),
+
+  refundOrderItems: async ({ params, body }) => {
+    if (!isRecord(body) || !Array.isArray(body.items)) {
+      throw new HttpError(400, "Body must be { items: { productId, quantity }[], reason?: string, expectedVersion?: number }");
+    }
+    if (body.expectedVersion !== undefined && typeof body.expectedVersion !== "number") {
+      throw new HttpError(400, "expectedVersion must be a number");
+    }
+
+    const result = await refundOrderItems(params.orderId, parseItems(body.items), {
+      reason: optionalString(body, "reason"),
+      expectedVersion: body.expectedVersion,
+    });
+    if (!result.success) {
+      return { status: refundErrorCodes[result.error.code], body: { error: result.error } };
+    }
+    return { status: 201, body: { refund: result.refund, order: toOrderView(result.order) } };
+  },
+
+  getCart: async ({ params }) => cartResponse(await getCart(parseId(params.userId, "userId"))),
+
+  setCartOptions: async ({ params, body }) => {
+    if (!isRecord(body)) {
+      throw new HttpError(400, "Body must be { couponCodes?, shippingAddressId?, shippingMethodId?, currency? }");
+    }
+    return cartResponse(
+      await setCartOptions(parseId(params.userId, "userId"), {
+        couponCodes: optionalCouponCodes(body),
+        shippingAddressId: optionalString(body, "shippingAddressId"),
+        shippingMethodId: optionalString(body, "shippingMethodId"),
+        currency: optionalCurrency(body),
+      })
+    );
+  },
+
+  addCartItem: async ({ params, body }) => {
+    if (!isRecord(body) || typeof body.productId !== "number") {
+      throw new HttpError(400, "Body must be { productId: number, quantity: number }");
+    }
+    const result = await addToCart(parseId(params.userId, "userId"), body.productId, parseQuantityBody(body));
+    return cartResponse(result, 201);
+  },
+
+  updateCartItem: async ({ params, body }) =>
+    cartResponse(
+      await updateCartItem(
+        parseId(params.userId, "userId"),
+        parseId(params.productId, "productId"),
+        parseQuantityBody(body)
+      )
+    ),
+
+  removeCartItem: async ({ params }) =>
+    cartResponse(
+      await removeFromCart(parseId(params.userId, "userId"), parseId(params.productId, "productId"))
+    ),
+
+  checkoutCart: async ({ params, body }) => {
+    const result = await checkoutCart(parseId(params.userId, "userId"), {
+      expectedTotal: isRecord(body) ? optionalCents(body, "expectedTotal") : undefined,
+    });
+    if (!result.success) {
+      return { status: cartErrorCodes[result.error.code], body: { error: result.error } };
+    }
+    return { status: 201, body: toOrderView(result.order) };
+  },
+
+  // JSON only here; the CLI also renders text and CSV
+  salesReport: async ({ query }) => {
+    const by = query.get("by");
+    const currency = query.get("currency");
+    const statuses = query.getAll("status");
+    if (by !== null && !isReportGranularity(by)) {
+      throw new HttpError(400, "?by must be day, week or month");
+    }
+    if (currency !== null && !isCurrencyCode(currency)) {
+      throw new HttpError(400, `?currency must be one of ${currencyCodes.join(", ")}`);
+    }
+    if (!statuses.every(isOrderStatus)) {
+      throw new HttpError(400, "Unknown status in ?status");
+    }
+    const report = await getSalesReport({
+      from: optionalDate(query, "from"),
+      to: optionalDate(query, "to"),
+      granularity: by ?? undefined,
+      currency: currency ?? undefined,
+      statuses: statuses.length > 0 ? statuses : undefined,
+    });
+    return { status: 200, body: report };
+  },
+
+  ordersByStatus: async () => ({ status: 200, body: await getOrdersByStatus() }),
+
+  listWebhooks: async () => ({ status: 200, body: await webhooks.listSubscriptions() }),
+
+  // The response is the only place the signing secret is ever returned
+  createWebhook: async ({ body }) => {
+    if (!isRecord(body) || typeof body.url !== "string" || !Array.isArray(body.events)) {
+      throw new HttpError(400, "Body must be { url: string, events: string[], secret?: string }");
+    }
+    if (!body.events.every((event): event is string => typeof event === "string")) {
+      throw new HttpError(400, "events must be strings");
+    }
+    const result = await webhooks.subscribe({ url: body.url, events: body.events, secret: optionalString(body, "secret") });
+    if (!result.success) {
+      return { status: webhookErrorCodes[result.error.code], body: { error: result.error } };
+    }
+    return { status: 201, body: result.subscription };
+  },
+
+  deleteWebhook: async ({ params }) =>
+    (await webhooks.unsubscribe(params.webhookId))
+      ? { status: 200, body: { removed: params.webhookId } }
+      : notFound(`Webhook ${params.webhookId} not found`),
+
+  // The delivery log: every attempt with its time, duration and response
+  listWebhookDeliveries: async ({ params, query }) => {
+    const status = query.get("status");
+    if (status !== null && !isWebhookDeliveryStatus(status)) {
+      throw new HttpError(400, "?status must be pending, delivered or dead");
+    }
+    const deliveries = await webhooks.listDeliveries({ subscriptionId: params.webhookId, status: status ?? undefined });
+    return { status: 200, body: deliveries };
+  },
+};
+
+// --- ROUTING ---
+
+interface CompiledRoute {
+  name: OrderRouteName;
+  method: string;
+  pattern: RegExp;
+  paramNames: string[];
+}
+
+// "/orders/:orderId/status" → /^\/orders\/([^/]+)\/status$/ with paramNames ["orderId"]
+function compileRoute(name: OrderRouteName): CompiledRoute {
+  const { path, method } = orderRoutes[name];
+  const paramNames: string[] = [];
+  const source = path.replace(/:([A-Za-z0-9_]+)/g, (_, param: string) => {
+    paramNames.push(param);
+    return "([^/]+)";
+  });
+  return { name, method, pattern: new RegExp(`^${source}$`), paramNames };
+}
+
+const compiledRoutes = (Object.keys(orderRoutes) as OrderRouteName[]).map(compileRoute);
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, "Request body too large", "PAYLOAD_TOO_LARGE");
+    }
+    chunks.push(chunk as Buffer);
+  }
+  if (size === 0) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON");
+  }
+}
+
+async function dispatch(req: IncomingMessage): Promise<HttpResponse> {
+  const url = new URL(req.url ?? "/", "http://localhost");
+  const pathMatches = compiledRoutes
+    .map((route) => ({ route, match: route.pattern.exec(url.pathname) }))
+    .filter((candidate) => candidate.match !== null);
+
+  if (pathMatches.length === 0) {
+    return notFound(`No route for ${url.pathname}`);
+  }
+
+  const found = pathMatches.find(({ route }) => route.method === req.method);
+  if (!found) {
+    const allowed = pathMatches.map(({ route }) => route.method).join(", ");
+    return { status: 405, body: { error: { code: "METHOD_NOT_ALLOWED", allowed } } };
+  }
+
+  const params: Record<string, string> = {};
+  found.route.paramNames.forEach((param, index) => {
+    params[param] = decodeURIComponent(found.match![index + 1]);
+  });
+
+  const body = req.method === "GET" ? undefined : await readJsonBody(req);
+  const handler = handlers[found.route.name] as Handler<Record<string, string>>;
+  return handler({ params, query: url.searchParams, body, headers: req.headers });
+}
+
+async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  let response: HttpResponse;
+  try {
+    response = await dispatch(req);
+  } catch (error) {
+    response =
+      error instanceof HttpError
+        ? { status: error.status, body: { error: { code: error.code, message: error.message } } }
+        : { status: 500, body: { error: { code: "INTERNAL_ERROR" } } };
+    if (!(error instanceof HttpError)) {
+      console.error(error);
+    }
+  }
+
+  res.writeHead(response.status, { "Content-Type": "application/json; charset=utf-8" });
+  res.end(JSON.stringify(response.body));
+}
+
+// --- LIFECYCLE ---
+
+interface RunningServer {
+  url: string;
+  server: Server;
+  close(): Promise<void>;
+}
+
+interface StartOptions {
+  port?: number;           // 0 = any free port (handy for tests)
+  host?: string;           // default 127.0.0.1 - localhost only
+  shutdownTimeoutMs?: number;
+}
+
+async function startOrderServer(options: StartOptions = {}): Promise<RunningServer> {
+  const server = createServer((req, res) => {
+    void handleRequest(req, res);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, options.host ?? "127.0.0.1", () => resolve());
+  });
+
+  const { address, port } = server.address() as AddressInfo;
+
+  /** Stop accepting, let in-flight requests finish, then force-close stragglers. */
+  const close = (): Promise<void> =>
+    new Promise((resolve, reject) => {
+      const timer = setTimeout(() => server.closeAllConnections(), options.shutdownTimeoutMs ?? 5000);
+      server.close((error) => {
+        clearTimeout(timer);
+        if (error) reject(error);
+        else resolve();
+      });
+      server.closeIdleConnections();
+    });
+
+  return { url: `http://${address}:${port}`, server, close };
+}
+
+if (process.argv[1] !== undefined && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const running = await startOrderServer({ port: Number(process.env.PORT ?? 3000) });
+  await startNotifications();  // customer emails go out in the background
+  pendingOrders.start();  // ...and unpaid orders are reminded, then cancelled
+  webhooks.start();  // ...and partners hear about order changes
+  console.log(`Order API listening on ${running.url}`);
+
+  const shutdown = (): void => {
+    console.log("Shutting down...");
+    Promise.all([running.close(), notificationOutbox.stop(), pendingOrders.stop(), webhooks.stop()]).then(
+      () => process.exit(0),
+      () => process.exit(1)
+    );
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+}
+
+export {
+  orderRoutes,
+  startOrderServer,
+  createOrderStatusCodes,
+  orderStatusErrorCodes,
+  paymentErrorCodes,
+  refundErrorCodes,
+  webhookErrorCodes,
+  cartErrorCodes,
+  type OrderRouteName,
+  type OrderRouteParams,
+  type RunningServer,
+};
@@ -0,0 +1,93 @@
+// ============================================================================
+// 12-END-TO-END / SHIPPING TESTS: Unavailable Methods and Free Shipping
+// ============================================================================
+// Run with `npm test`. Widgets weigh 250 g and gadgets 1200 g; everything is
+// in USD, so `convert` is the identity.
+// ============================================================================
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { money, type Money } from "./money.js";
+import { ShippingCalculator, type ShippingContext } from "./shipping.js";
+import { alice, gadget, widget } from "./test-fixtures.js";
+
+const calculator = new ShippingCalculator(
+  [
+    {
+      id: "standard",
+      label: "Standard",
+      currency: "USD",
+      kind: "weight",
+      bands: [
+        { maxGrams: 500, price: money(499) },
+        { maxGrams: 1000, price: money(899) },
+      ],
+      freeShippingEligible: true,
+    },
+    {
+      id: "courier",
+      label: "Courier",
+      currency: "USD",
+      countries: ["GB"],
+      kind: "per-item",
+      firstItem: money(999),
+      additionalItem: money(200),
+      freeShippingEligible: false,
+    },
+  ],
+  { basic: { minimum: money(5000), currency: "USD" } }
+);
+
+function context(changes: Partial<ShippingContext> = {}): ShippingContext {
+  return {
+    lines: [{ product: widget, quantity: 2 }],
+    address: alice.addresses[0],
+    tier: alice.tier,
+    merchandiseTotal: money(2 * 2999),
+    convert: (amount: Money) => amount,
+    ...changes,
+  };
+}
+
+// --- AVAILABILITY ---
+
+test("an unknown method, a country it doesn't serve, or a parcel too heavy is refused", () => {
+  assert.deepEqual(calculator.quote("teleport", context()), {
+    success: false,
+    error: { code: "SHIPPING_METHOD_NOT_FOUND", shippingMethodId: "teleport" },
+  });
+  assert.deepEqual(calculator.quote("courier", context()), {
+    success: false,
+    error: { code: "SHIPPING_UNAVAILABLE", shippingMethodId: "courier", reason: "COUNTRY_NOT_SERVED" },
+  });
+  assert.deepEqual(calculator.quote("standard", context({ lines: [{ product: gadget, quantity: 1 }] })), {
+    success: false,
+    error: { code: "SHIPPING_UNAVAILABLE", shippingMethodId: "standard", reason: "TOO_HEAVY" },
+  });
+});
+
+test("per-item methods charge the first unit and each one after it", () => {
+  const address = { ...alice.addresses[0], country: "GB" };
+  const result = calculator.quote("courier", context({ address, lines: [{ product: widget, quantity: 3 }] }));
+
+  assert.equal(result.success && result.quote.cost, money(999 + 2 * 200));
+});
+
+// --- FREE SHIPPING ---
+
+test("shipping is free from the tier's minimum, not a cent below it", () => {
+  const below = calculator.quote("standard", context({ merchandiseTotal: money(4999) }));
+  const at = calculator.quote("standard", context({ merchandiseTotal: money(5000) }));
+
+  assert.deepEqual(below.success && [below.quote.cost, below.quote.freeShipping], [money(499), false]);
+  assert.deepEqual(at.success && [at.quote.cost, at.quote.freeShipping], [money(0), true]);
+});
+
+test("a method that isn't eligible is never free, and a tier without a threshold pays", () => {
+  const address = { ...alice.addresses[0], country: "GB" };
+  const courier = calculator.quote("courier", context({ address, merchandiseTotal: money(100000) }));
+  const premium = calculator.quote("standard", context({ tier: "premium", merchandiseTotal: money(100000) }));
+
+  assert.equal(courier.success && courier.quote.freeShipping, false);
+  assert.equal(premium.success && premium.quote.freeShipping, false);
+});
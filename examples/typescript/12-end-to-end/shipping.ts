@@ -0,0 +1,177 @@
+// ============================================================================
+// 12-END-TO-END / SHIPPING: Pluggable Shipping Methods and Free Shipping
+// ============================================================================
+// DEMO: Another discriminated union of "rules as data", priced by a switch
+// ============================================================================
+
+import type { Address, Product, UserTier } from "../12-end-to-end.js";
+import { zero, multiplyMoney, addMoney, type CurrencyCode, type Money } from "./money.js";
+
+// --- METHOD DEFINITIONS ---
+
+interface BaseShippingMethod {
+  id: string;
+  label: string;
+  currency: CurrencyCode;  // prices below are in this currency
+  countries?: string[];  // ISO country codes served; default: everywhere
+  freeShippingEligible: boolean;  // can a tier threshold make it free?
+}
+
+// Priced by total parcel weight
+interface WeightShippingMethod extends BaseShippingMethod {
+  kind: "weight";
+  bands: { maxGrams: number; price: Money }[];  // ascending; heavier than the last → unavailable
+}
+
+// Priced by number of units
+interface PerItemShippingMethod extends BaseShippingMethod {
+  kind: "per-item";
+  firstItem: Money;
+  additionalItem: Money;
+}
+
+type ShippingMethod = WeightShippingMethod | PerItemShippingMethod;
+
+// Spend at least `minimum` (after discounts, before tax) to ship free
+interface FreeShippingThreshold {
+  minimum: Money;
+  currency: CurrencyCode;
+}
+
+type FreeShippingThresholds = Partial<Record<UserTier, FreeShippingThreshold>>;
+
+// --- INPUT / OUTPUT ---
+
+interface ShippingLine {
+  product: Product;
+  quantity: number;
+}
+
+interface ShippingContext {
+  lines: ShippingLine[];
+  address: Address;
+  tier: UserTier;
+  merchandiseTotal: Money;  // after discounts, in the order's currency
+  convert: (amount: Money, from: CurrencyCode) => Money;  // into the order's currency
+}
+
+interface ShippingQuote {
+  methodId: string;
+  label: string;
+  weightGrams: number;
+  cost: Money;  // in the order's currency; zero when free
+  freeShipping: boolean;
+}
+
+type ShippingQuoteResult =
+  | { success: true; quote: ShippingQuote }
+  | { success: false; error: { code: "SHIPPING_METHOD_NOT_FOUND"; shippingMethodId: string } }
+  | {
+      success: false;
+      error: { code: "SHIPPING_UNAVAILABLE"; shippingMethodId: string; reason: "COUNTRY_NOT_SERVED" | "TOO_HEAVY" };
+    };
+
+// --- PRICING ---
+
+function parcelWeight(lines: ShippingLine[]): number {
+  return lines.reduce((sum, line) => sum + line.product.weightGrams * line.quantity, 0);
+}
+
+/** Cost in the method's own currency, or null if the parcel is too heavy. */
+function priceMethod(method: ShippingMethod, lines: ShippingLine[], weightGrams: number): Money | null {
+  switch (method.kind) {
+    case "weight": {
+      const band = method.bands.find((b) => weightGrams <= b.maxGrams);
+      return band ? band.price : null;
+    }
+    case "per-item": {
+      const units = lines.reduce((sum, line) => sum + line.quantity, 0);
+      if (units === 0) return zero();
+      return addMoney(method.firstItem, multiplyMoney(method.additionalItem, units - 1));
+    }
+  }
+}
+
+// --- CALCULATOR ---
+
+class ShippingCalculator {
+  private methods: ShippingMethod[];
+
+  constructor(
+    methods: ShippingMethod[] = [],
+    private readonly freeShipping: FreeShippingThresholds = {}
+  ) {
+    this.methods = [...methods];
+  }
+
+  addMethod(method: ShippingMethod): void {
+    this.methods = [...this.methods.filter((m) => m.id !== method.id), method];
+  }
+
+  removeMethod(methodId: string): boolean {
+    const before = this.methods.length;
+    this.methods = this.methods.filter((m) => m.id !== methodId);
+    return this.methods.length !== before;
+  }
+
+  listMethods(): readonly ShippingMethod[] {
+    return this.methods;
+  }
+
+  getMethod(methodId: string): ShippingMethod | undefined {
+    return this.methods.find((m) => m.id === methodId);
+  }
+
+  quote(methodId: string, ctx: ShippingContext): ShippingQuoteResult {
+    const method = this.getMethod(methodId);
+    if (method === undefined) {
+      return { success: false, error: { code: "SHIPPING_METHOD_NOT_FOUND", shippingMethodId: methodId } };
+    }
+    if (method.countries && !method.countries.includes(ctx.address.country)) {
+      return {
+        success: false,
+        error: { code: "SHIPPING_UNAVAILABLE", shippingMethodId: methodId, reason: "COUNTRY_NOT_SERVED" },
+      };
+    }
+
+    const weightGrams = parcelWeight(ctx.lines);
+    const price = priceMethod(method, ctx.lines, weightGrams);
+    if (price === null) {
+      return {
+        success: false,
+        error: { code: "SHIPPING_UNAVAILABLE", shippingMethodId: methodId, reason: "TOO_HEAVY" },
+      };
+    }
+
+    const threshold = this.freeShipping[ctx.tier];
+    const freeShipping =
+      method.freeShippingEligible &&
+      threshold !== undefined &&
+      ctx.merchandiseTotal >= ctx.convert(threshold.minimum, threshold.currency);
+
+    return {
+      success: true,
+      quote: {
+        methodId: method.id,
+        label: method.label,
+        weightGrams,
+        cost: freeShipping ? zero() : ctx.convert(price, method.currency),
+        freeShipping,
+      },
+    };
+  }
+}
+
+export {
+  ShippingCalculator,
+  parcelWeight,
+  type ShippingMethod,
+  type WeightShippingMethod,
+  type PerItemShippingMethod,
+  type FreeShippingThreshold,
+  type FreeShippingThresholds,
+  type ShippingLine,
+  type ShippingContext,
+  type ShippingQuote,
+  type ShippingQuoteResult,
+};
@@ -0,0 +1,74 @@
+// ============================================================================
+// 12-END-TO-END / TAX TESTS: Rate Tables, Inclusive Prices and Shipping
+// ============================================================================
+// Run with `npm test`. The tables are built here rather than read from
+// data/tax-rates.json, so the numbers stay put when the rates change.
+// ============================================================================
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { money } from "./money.js";
+import { calculateTax, parseTaxRateTable, type TaxBreakdown, type TaxResult } from "./tax.js";
+
+const table = parseTaxRateTable({
+  jurisdictions: {
+    US: { name: "Sales tax", pricesIncludeTax: false, rates: { standard: 0.1, reduced: 0.05, exempt: 0 }, shippingTax: "proportional" },
+    EU: { name: "VAT", pricesIncludeTax: true, rates: { standard: 0.2, reduced: 0.1, exempt: 0 }, shippingTax: "standard" },
+  },
+});
+
+function breakdown(result: TaxResult): TaxBreakdown {
+  assert.ok(result.success);
+  return result.breakdown;
+}
+
+// --- RATE TABLES ---
+
+test("a table with a bad rate or shipping rule is refused when it's loaded", () => {
+  const entry = { name: "Bad", pricesIncludeTax: false, rates: { standard: 0.1, reduced: 0.05, exempt: 0 }, shippingTax: "standard" };
+
+  assert.throws(() => parseTaxRateTable({}), /'jurisdictions' object/);
+  assert.throws(
+    () => parseTaxRateTable({ jurisdictions: { XX: { ...entry, rates: { ...entry.rates, standard: 1 } } } }),
+    /Invalid 'standard' rate for jurisdiction 'XX'/
+  );
+  assert.throws(
+    () => parseTaxRateTable({ jurisdictions: { XX: { ...entry, shippingTax: "free" } } }),
+    /Invalid shipping tax rule 'free'/
+  );
+});
+
+test("an unknown jurisdiction is an error, not zero tax", () => {
+  assert.deepEqual(calculateTax(table, "MARS", []), {
+    success: false,
+    error: { code: "UNKNOWN_JURISDICTION", jurisdiction: "MARS" },
+  });
+});
+
+// --- LINES ---
+
+test("inclusive prices have their tax taken out, not added on", () => {
+  const { lines, totalTax } = breakdown(calculateTax(table, "EU", [{ productId: 1, category: "standard", amount: money(1200) }]));
+
+  assert.deepEqual(lines, [{ productId: 1, category: "standard", rate: 0.2, net: money(1000), tax: money(200) }]);
+  assert.equal(totalTax, money(200));
+});
+
+// --- SHIPPING ---
+
+test("proportional shipping is taxed at each line's rate, by the line's share", () => {
+  const lines = [
+    { productId: 1, category: "standard" as const, amount: money(1000) },
+    { productId: 2, category: "reduced" as const, amount: money(1000) },
+  ];
+  const { shipping, totalTax } = breakdown(calculateTax(table, "US", lines, money(1000)));
+
+  assert.deepEqual(shipping, { rule: "proportional", rate: 0.075, net: money(1000), tax: money(75) });
+  assert.equal(totalTax, money(100 + 50 + 75));
+});
+
+test("with nothing left to be proportional to, shipping falls back to the standard rate", () => {
+  const { shipping } = breakdown(calculateTax(table, "US", [{ productId: 1, category: "reduced", amount: money(0) }], money(1000)));
+
+  assert.deepEqual(shipping, { rule: "standard", rate: 0.1, net: money(1000), tax: money(100) });
+});
@@ -0,0 +1,204 @@
+// ============================================================================
+// 12-END-TO-END / TAX: Jurisdiction-Aware Tax with a Per-Line Breakdown
+// ============================================================================
+// DEMO: Validating untyped JSON data at the boundary, then trusting the types
+// ============================================================================
+
+import { readFileSync } from "node:fs";
+import defaultRateData from "./data/tax-rates.json" with { type: "json" };
+import { zero, addMoney, subtractMoney, applyRate, allocate, type Money } from "./money.js";
+
+// --- TYPES ---
+
+type TaxCategory = "standard" | "reduced" | "exempt";
+
+const taxCategories: readonly TaxCategory[] = ["standard", "reduced", "exempt"];
+
+// Shipping is taxed like a product of one category, or (EU style) split over
+// the order's lines in proportion to their amounts and taxed at each line's rate
+type ShippingTaxRule = TaxCategory | "proportional";
+
+const shippingTaxRules: readonly ShippingTaxRule[] = [...taxCategories, "proportional"];
+
+interface JurisdictionRates {
+  name: string;
+  pricesIncludeTax: boolean;  // true: shelf prices already contain tax (VAT style)
+  rates: Record<TaxCategory, number>;
+  shippingTax: ShippingTaxRule;
+}
+
+interface TaxRateTable {
+  jurisdictions: Record<string, JurisdictionRates>;
+}
+
+interface TaxableLine {
+  productId: number;
+  category: TaxCategory;
+  amount: Money;  // line amount after discounts, as charged to the customer
+}
+
+interface TaxLine {
+  productId: number;
+  category: TaxCategory;
+  rate: number;
+  net: Money;  // amount excluding tax
+  tax: Money;
+}
+
+interface ShippingTaxLine {
+  rule: ShippingTaxRule;
+  rate: number;  // effective rate - a blend of line rates for "proportional"
+  net: Money;
+  tax: Money;
+}
+
+interface TaxBreakdown {
+  jurisdiction: string;
+  pricesIncludeTax: boolean;
+  lines: TaxLine[];
+  shipping: ShippingTaxLine;
+  totalTax: Money;  // lines + shipping
+}
+
+type TaxResult =
+  | { success: true; breakdown: TaxBreakdown }
+  | { success: false; error: { code: "UNKNOWN_JURISDICTION"; jurisdiction: string } };
+
+// --- LOADING RATE TABLES ---
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isRate(value: unknown): value is number {
+  return typeof value === "number" && value >= 0 && value < 1;
+}
+
+/** Validate raw JSON (typed as unknown!) into a TaxRateTable. */
+function parseTaxRateTable(raw: unknown): TaxRateTable {
+  if (!isRecord(raw) || !isRecord(raw.jurisdictions)) {
+    throw new TypeError("Tax rate table must have a 'jurisdictions' object");
+  }
+
+  const jurisdictions: Record<string, JurisdictionRates> = {};
+  for (const [code, entry] of Object.entries(raw.jurisdictions)) {
+    if (
+      !isRecord(entry) ||
+      typeof entry.name !== "string" ||
+      typeof entry.pricesIncludeTax !== "boolean" ||
+      !isRecord(entry.rates) ||
+      typeof entry.shippingTax !== "string"
+    ) {
+      throw new TypeError(`Invalid tax jurisdiction '${code}'`);
+    }
+    const rates = entry.rates;
+    for (const category of taxCategories) {
+      if (!isRate(rates[category])) {
+        throw new TypeError(`Invalid '${category}' rate for jurisdiction '${code}'`);
+      }
+    }
+    const shippingTax = shippingTaxRules.find((rule) => rule === entry.shippingTax);
+    if (shippingTax === undefined) {
+      throw new TypeError(`Invalid shipping tax rule '${String(entry.shippingTax)}' for jurisdiction '${code}'`);
+    }
+    jurisdictions[code] = {
+      name: entry.name,
+      pricesIncludeTax: entry.pricesIncludeTax,
+      rates: rates as Record<TaxCategory, number>,
+      shippingTax,
+    };
+  }
+
+  return { jurisdictions };
+}
+
+/** Load a rate table from a local JSON file - no network needed. */
+function loadTaxRateTable(path: string | URL): TaxRateTable {
+  return parseTaxRateTable(JSON.parse(readFileSync(path, "utf8")));
+}
+
+const defaultTaxRates = parseTaxRateTable(defaultRateData);
+
+// --- CALCULATION ---
+
+function taxAmount(amount: Money, rate: number, pricesIncludeTax: boolean): Money {
+  // Inclusive: the tax is already inside the amount, so extract it
+  return pricesIncludeTax
+    ? applyRate(amount, rate / (1 + rate), "half-up")
+    : applyRate(amount, rate, "half-up");
+}
+
+function calculateLineTax(line: TaxableLine, rate: number, pricesIncludeTax: boolean): TaxLine {
+  const tax = taxAmount(line.amount, rate, pricesIncludeTax);
+  const net = pricesIncludeTax ? subtractMoney(line.amount, tax) : line.amount;
+  return { productId: line.productId, category: line.category, rate, net, tax };
+}
+
+function calculateShippingTax(
+  shipping: Money,
+  rates: JurisdictionRates,
+  lines: TaxableLine[]
+): ShippingTaxLine {
+  const weights = lines.map((line) => Math.max(0, line.amount));
+  // Nothing left to be proportional to (fully discounted order): use the standard rate
+  const rule =
+    rates.shippingTax === "proportional" && !weights.some((w) => w > 0) ? "standard" : rates.shippingTax;
+
+  const tax =
+    rule === "proportional"
+      ? addMoney(
+          ...allocate(shipping, weights).map((share, index) =>
+            taxAmount(share, rates.rates[lines[index].category], rates.pricesIncludeTax)
+          )
+        )
+      : taxAmount(shipping, rates.rates[rule], rates.pricesIncludeTax);
+
+  const net = rates.pricesIncludeTax ? subtractMoney(shipping, tax) : shipping;
+  const rate = rule === "proportional" ? (net > 0 ? Number((tax / net).toFixed(4)) : 0) : rates.rates[rule];
+  return { rule, rate, net, tax };
+}
+
+/** `shipping` is taxed by the jurisdiction's shippingTax rule. */
+function calculateTax(
+  table: TaxRateTable,
+  jurisdiction: string,
+  lines: TaxableLine[],
+  shipping: Money = zero()
+): TaxResult {
+  const rates = table.jurisdictions[jurisdiction];
+  if (rates === undefined) {
+    return { success: false, error: { code: "UNKNOWN_JURISDICTION", jurisdiction } };
+  }
+
+  const taxLines = lines.map((line) =>
+    calculateLineTax(line, rates.rates[line.category], rates.pricesIncludeTax)
+  );
+  const shippingTax = calculateShippingTax(shipping, rates, lines);
+
+  return {
+    success: true,
+    breakdown: {
+      jurisdiction,
+      pricesIncludeTax: rates.pricesIncludeTax,
+      lines: taxLines,
+      shipping: shippingTax,
+      totalTax: addMoney(...taxLines.map((l) => l.tax), shippingTax.tax),
+    },
+  };
+}
+
+export {
+  defaultTaxRates,
+  parseTaxRateTable,
+  loadTaxRateTable,
+  calculateTax,
+  type TaxCategory,
+  type ShippingTaxRule,
+  type ShippingTaxLine,
+  type JurisdictionRates,
+  type TaxRateTable,
+  type TaxableLine,
+  type TaxLine,
+  type TaxBreakdown,
+  type TaxResult,
+};
@@ -0,0 +1,87 @@
+// ============================================================================
+// 12-END-TO-END / TEST FIXTURES: Small, Valid Orders for the Tests
+// ============================================================================
+// Only imported by *.test.ts. Amounts are USD cents with no tax, shipping
+// or discounts unless a test says otherwise.
+// ============================================================================
+
+import type { Address, Order, OrderItem, Product, User } from "../12-end-to-end.js";
+import { addMoney, money, multiplyMoney, subtractMoney, zero, type Money } from "./money.js";
+import { unpaid } from "./payments.js";
+
+const placedAt = new Date("2026-01-05T10:00:00Z");
+
+const address: Address = {
+  id: "home",
+  recipient: "Alice",
+  line1: "1 Main St",
+  city: "Springfield",
+  postalCode: "12345",
+  country: "US",
+  jurisdiction: "US-NY",
+};
+
+const alice: User = {
+  id: 1,
+  name: "Alice",
+  email: "alice@example.com",
+  tier: "basic",
+  addresses: [address],
+  defaultAddressId: "home",
+  currency: "USD",
+  locale: "en-US",
+};
+
+const widget: Product = { id: 101, name: "Widget", price: money(2999), currency: "USD", taxCategory: "standard", weightGrams: 250 };
+const gadget: Product = { id: 102, name: "Gadget", price: money(4999), currency: "USD", taxCategory: "standard", weightGrams: 1200 };
+
+function item(product: Product, quantity: number, discount: Money = zero()): OrderItem {
+  return {
+    product,
+    quantity,
+    unitPrice: product.price,
+    total: multiplyMoney(product.price, quantity),
+    discount,
+    discounts: [],
+  };
+}
+
+/** A pending, unpaid order; `changes` go on top, with the totals following `items`. */
+function order(id: string, changes: Partial<Order> = {}): Order {
+  const items = changes.items ?? [];
+  const subtotal = addMoney(...items.map((line) => line.total));
+  const discount = addMoney(...items.map((line) => line.discount));
+  return {
+    id,
+    version: 1,
+    user: alice,
+    items,
+    currency: "USD",
+    locale: "en-US",
+    exchangeRates: [],
+    subtotal,
+    discount,
+    discounts: [],
+    shippingAddress: address,
+    shipping: { methodId: "standard", label: "Standard", weightGrams: 0, cost: zero(), freeShipping: true },
+    jurisdiction: "US-NY",
+    tax: zero(),
+    taxBreakdown: {
+      jurisdiction: "US-NY",
+      pricesIncludeTax: false,
+      lines: [],
+      shipping: { rule: "proportional", rate: 0, net: zero(), tax: zero() },
+      totalTax: zero(),
+    },
+    total: subtractMoney(subtotal, discount),
+    pricedWith: { rules: [], taxRates: null },
+    status: "pending",
+    statusHistory: [{ from: null, to: "pending", at: placedAt, reason: "Order created" }],
+    payment: unpaid("USD"),
+    refunds: [],
+    createdAt: placedAt,
+    ...changes,
+  };
+}
+
+export { placedAt, alice, widget, gadget, item, order };
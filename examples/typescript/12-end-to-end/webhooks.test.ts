@@ -0,0 +1,227 @@
+// ============================================================================
+// 12-END-TO-END / WEBHOOKS TESTS: Real HTTP, Fake Time
+// ============================================================================
+// Run with `npm test`. Each test starts a receiver on a free port and
+// steps a FakeClock, so backoff is checked without waiting for it.
+// ============================================================================
+
+import assert from "node:assert/strict";
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import { afterEach, test } from "node:test";
+import { InMemoryRepository } from "../05-base-repository.js";
+import { FakeClock } from "./clock.js";
+import {
+  WebhookDispatcher,
+  verifyWebhook,
+  WEBHOOK_ID_HEADER,
+  type WebhookDelivery,
+  type WebhookDispatcherOptions,
+  type WebhookEvent,
+  type WebhookRequest,
+  type WebhookSubscription,
+} from "./webhooks.js";
+
+// --- RECEIVER ---
+
+interface Receiver {
+  url: string;
+  requests: WebhookRequest[];
+  close(): Promise<void>;
+}
+
+// `answer` gets the request number (1, 2, ...) and returns a status code,
+// or "hang" to never answer at all
+async function startReceiver(answer: (attempt: number) => number | "hang"): Promise<Receiver> {
+  const requests: WebhookRequest[] = [];
+  const server = createServer(async (request: IncomingMessage, response: ServerResponse) => {
+    let body = "";
+    for await (const chunk of request) body += chunk;
+    requests.push({ body, headers: request.headers });
+    const status = answer(requests.length);
+    if (status !== "hang") {
+      response.writeHead(status).end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const address = server.address();
+  const port = typeof address === "object" && address !== null ? address.port : 0;
+
+  return {
+    url: `http://127.0.0.1:${port}/hooks`,
+    requests,
+    close: () =>
+      new Promise((resolve) => {
+        server.closeAllConnections();  // a hanging request would keep it open
+        server.close(() => resolve());
+      }),
+  };
+}
+
+const receivers: Receiver[] = [];
+
+afterEach(async () => {
+  await Promise.all(receivers.splice(0).map((receiver) => receiver.close()));
+});
+
+// --- SETUP ---
+
+const SECRET = "whsec_test";
+
+const event: WebhookEvent = {
+  id: "order-1-v1-order.created",
+  type: "order.created",
+  occurredAt: new Date("2026-01-05T10:00:00Z"),
+  data: { order: { id: "1", status: "pending", total: 1000 } },
+};
+
+async function setup(answer: (attempt: number) => number | "hang", options: WebhookDispatcherOptions = {}) {
+  const receiver = await startReceiver(answer);
+  receivers.push(receiver);
+  const clock = new FakeClock(new Date("2026-01-05T10:00:00Z"));
+  const deliveries = new InMemoryRepository<WebhookDelivery>();
+  const dispatcher = new WebhookDispatcher(new InMemoryRepository<WebhookSubscription>(), deliveries, {
+    baseDelayMs: 1000,
+    clock,
+    ...options,
+  });
+  await dispatcher.subscribe({ url: receiver.url, events: ["order.created"], secret: SECRET });
+  await dispatcher.publish(event);
+  const [delivery] = await dispatcher.listDeliveries();
+  assert.ok(delivery);
+  return { receiver, clock, dispatcher, deliveries, deliveryId: delivery.id };
+}
+
+// --- SIGNATURES ---
+
+test("a delivered request verifies with the subscription's secret", async () => {
+  const { receiver, clock, dispatcher, deliveryId } = await setup(() => 204);
+  await dispatcher.deliverDue();
+
+  const [request] = receiver.requests;
+  assert.ok(request);
+  assert.deepEqual(JSON.parse(request.body), { ...event, occurredAt: event.occurredAt.toISOString() });
+  const verified = verifyWebhook(request, SECRET, { now: clock.now() });
+  assert.deepEqual(verified, { valid: true, id: deliveryId, timestamp: clock.now() });
+});
+
+test("a request with another id, body or secret is refused", async () => {
+  const { receiver, clock, dispatcher } = await setup(() => 204);
+  await dispatcher.deliverDue();
+  const [request] = receiver.requests;
+  assert.ok(request);
+  const now = clock.now();
+
+  const otherId = { ...request, headers: { ...request.headers, [WEBHOOK_ID_HEADER]: "order-2-v1-order.created" } };
+  assert.deepEqual(verifyWebhook(otherId, SECRET, { now }), { valid: false, reason: "BAD_SIGNATURE" });
+
+  const otherBody = { ...request, body: request.body.replace("pending", "delivered") };
+  assert.deepEqual(verifyWebhook(otherBody, SECRET, { now }), { valid: false, reason: "BAD_SIGNATURE" });
+
+  assert.deepEqual(verifyWebhook(request, "whsec_other", { now }), { valid: false, reason: "BAD_SIGNATURE" });
+  assert.deepEqual(verifyWebhook({ body: request.body, headers: {} }, SECRET, { now }), {
+    valid: false,
+    reason: "MISSING_HEADERS",
+  });
+});
+
+test("a request replayed after the tolerance window is refused", async () => {
+  const { receiver, clock, dispatcher } = await setup(() => 204);
+  await dispatcher.deliverDue();
+  const [request] = receiver.requests;
+  assert.ok(request);
+
+  const later = new Date(clock.now().getTime() + 6 * 60 * 1000);
+  assert.deepEqual(verifyWebhook(request, SECRET, { now: later }), { valid: false, reason: "STALE_TIMESTAMP" });
+});
+
+// --- RETRIES ---
+
+test("a 5xx is retried after 1s, then 2s, with a fresh signature each time", async () => {
+  const { receiver, clock, dispatcher } = await setup((attempt) => (attempt <= 2 ? 503 : 204));
+
+  assert.deepEqual(await dispatcher.deliverDue(), { delivered: 0, retried: 1, dead: 0 });
+  clock.advance(999);
+  assert.deepEqual(await dispatcher.deliverDue(), { delivered: 0, retried: 0, dead: 0 });
+  clock.advance(1);
+  assert.deepEqual(await dispatcher.deliverDue(), { delivered: 0, retried: 1, dead: 0 });
+  clock.advance(1999);
+  assert.deepEqual(await dispatcher.deliverDue(), { delivered: 0, retried: 0, dead: 0 });
+  clock.advance(1);
+  assert.deepEqual(await dispatcher.deliverDue(), { delivered: 1, retried: 0, dead: 0 });
+
+  assert.equal(receiver.requests.length, 3);
+  const bodies = new Set(receiver.requests.map((request) => request.body));
+  assert.equal(bodies.size, 1);  // every attempt sends the same bytes
+  for (const request of receiver.requests) {
+    assert.equal(verifyWebhook(request, SECRET, { now: clock.now() }).valid, true);
+  }
+});
+
+test("a request that times out is retried", async () => {
+  const { receiver, clock, dispatcher, deliveries, deliveryId } = await setup(
+    (attempt) => (attempt === 1 ? "hang" : 204),
+    { timeoutMs: 100 }
+  );
+
+  assert.deepEqual(await dispatcher.deliverDue(), { delivered: 0, retried: 1, dead: 0 });
+  const waiting = await deliveries.findByIdOrFail(deliveryId);
+  assert.equal(waiting.status, "pending");
+  assert.equal(waiting.log[0]?.statusCode, undefined);
+  assert.match(waiting.log[0]?.error ?? "", /abort|timeout/i);
+
+  clock.advance(1000);
+  assert.deepEqual(await dispatcher.deliverDue(), { delivered: 1, retried: 0, dead: 0 });
+  assert.equal(receiver.requests.length, 2);
+});
+
+test("after maxAttempts the delivery is dead until retried", async () => {
+  const { clock, dispatcher, deliveries, deliveryId } = await setup(() => 500, { maxAttempts: 2 });
+
+  await dispatcher.deliverDue();
+  clock.advance(1000);
+  assert.deepEqual(await dispatcher.deliverDue(), { delivered: 0, retried: 0, dead: 1 });
+  clock.advance(60_000);
+  assert.deepEqual(await dispatcher.deliverDue(), { delivered: 0, retried: 0, dead: 0 });
+
+  assert.equal(await dispatcher.retry(deliveryId), true);
+  const revived = await deliveries.findByIdOrFail(deliveryId);
+  assert.equal(revived.status, "pending");
+  assert.equal(revived.attempts, 0);
+  assert.equal(revived.log.length, 2);  // the history is kept
+});
+
+// --- DELIVERY LOG ---
+
+test("every attempt is logged with its time, status and outcome", async () => {
+  const { clock, dispatcher, deliveries, deliveryId } = await setup((attempt) => (attempt === 1 ? 503 : 200));
+  const first = clock.now();
+
+  await dispatcher.deliverDue();
+  const second = clock.advance(1000);
+  await dispatcher.deliverDue();
+
+  const delivery = await deliveries.findByIdOrFail(deliveryId);
+  assert.equal(delivery.status, "delivered");
+  assert.equal(delivery.attempts, 2);
+  assert.deepEqual(delivery.deliveredAt, second);
+  assert.deepEqual(
+    delivery.log.map(({ at, statusCode, error }) => ({ at, statusCode, error })),
+    [
+      { at: first, statusCode: 503, error: undefined },
+      { at: second, statusCode: 200, error: undefined },
+    ]
+  );
+  assert.ok(delivery.log.every((attempt) => attempt.durationMs >= 0));
+});
+
+test("a delivery whose subscription was removed is logged and parked", async () => {
+  const { receiver, dispatcher, deliveries, deliveryId } = await setup(() => 204);
+  const [subscription] = await dispatcher.listSubscriptions();
+  assert.ok(subscription);
+  await dispatcher.unsubscribe(subscription.id);
+
+  assert.deepEqual(await dispatcher.deliverDue(), { delivered: 0, retried: 0, dead: 1 });
+  const delivery = await deliveries.findByIdOrFail(deliveryId);
+  assert.equal(delivery.log[0]?.error, "Subscription was removed");
+  assert.equal(receiver.requests.length, 0);
+});
@@ -0,0 +1,444 @@
+// ============================================================================
+// 12-END-TO-END / WEBHOOKS: Signed, Retried HTTP Callbacks for Partners
+// ============================================================================
+// DEMO: A const tuple of event types drives subscriptions, validation and
+//       the payload type - and a typed result for "is this request ours?"
+// ============================================================================
+
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "node:crypto";
+import type { BaseRepository } from "../05-base-repository.js";
+import { systemClock, type Clock } from "./clock.js";
+
+// --- EVENT TYPES ---
+
+const webhookEventTypes = [
+  "order.created",
+  "order.status_changed",
+  "order.shipped",
+  "order.delivered",
+  "order.cancelled",
+  "order.items_refunded",
+] as const;
+
+type WebhookEventType = (typeof webhookEventTypes)[number];
+
+function isWebhookEventType(value: string): value is WebhookEventType {
+  return (webhookEventTypes as readonly string[]).includes(value);
+}
+
+/** What a partner receives as the request body. */
+interface WebhookEvent {
+  id: string;  // deterministic - the same change always produces the same id
+  type: WebhookEventType;
+  occurredAt: Date;
+  data: Record<string, unknown>;
+}
+
+// --- SUBSCRIPTIONS ---
+
+interface WebhookSubscription {
+  id: string;
+  url: string;
+  events: WebhookEventType[];
+  secret: string;  // shared with the partner, who checks signatures with it
+  createdAt: Date;
+}
+
+// What listings show: the secret is only ever returned by subscribe()
+type PublicWebhookSubscription = Omit<WebhookSubscription, "secret">;
+
+function withoutSecret({ secret: _secret, ...subscription }: WebhookSubscription): PublicWebhookSubscription {
+  return subscription;
+}
+
+interface NewWebhookSubscription {
+  url: string;
+  events: string[];  // checked against webhookEventTypes
+  secret?: string;   // generated if missing
+}
+
+type WebhookSubscriptionError =
+  | { code: "INVALID_WEBHOOK_URL"; url: string }
+  | { code: "NO_WEBHOOK_EVENTS" }
+  | { code: "UNKNOWN_WEBHOOK_EVENT"; event: string };
+
+type WebhookSubscriptionErrorCode = WebhookSubscriptionError["code"];
+
+type WebhookSubscriptionResult =
+  | { success: true; subscription: WebhookSubscription }
+  | { success: false; error: WebhookSubscriptionError };
+
+function checkSubscription(input: NewWebhookSubscription): WebhookSubscriptionError | null {
+  let url: URL;
+  try {
+    url = new URL(input.url);
+  } catch {
+    return { code: "INVALID_WEBHOOK_URL", url: input.url };
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return { code: "INVALID_WEBHOOK_URL", url: input.url };
+  }
+  if (input.events.length === 0) {
+    return { code: "NO_WEBHOOK_EVENTS" };
+  }
+  const unknown = input.events.find((event) => !isWebhookEventType(event));
+  return unknown === undefined ? null : { code: "UNKNOWN_WEBHOOK_EVENT", event: unknown };
+}
+
+function describeWebhookSubscriptionError(error: WebhookSubscriptionError): string {
+  switch (error.code) {
+    case "INVALID_WEBHOOK_URL":
+      return `"${error.url}" is not an http(s) URL`;
+    case "NO_WEBHOOK_EVENTS":
+      return "Subscribe to at least one event type";
+    case "UNKNOWN_WEBHOOK_EVENT":
+      return `Unknown event type "${error.event}" (expected one of: ${webhookEventTypes.join(", ")})`;
+  }
+}
+
+// --- SIGNATURES ---
+
+// The id and timestamp are signed along with the body, so an old request
+// can't be replayed with a fresh timestamp or passed off as a new delivery
+// under another id, and a receiver can refuse stale ones
+const WEBHOOK_ID_HEADER = "webhook-id";
+const WEBHOOK_TIMESTAMP_HEADER = "webhook-timestamp";
+const WEBHOOK_SIGNATURE_HEADER = "webhook-signature";
+
+/** "v1=<hex HMAC-SHA256 of `${id}.${timestamp}.${body}`>", timestamp in Unix seconds. */
+function signWebhook(secret: string, id: string, timestamp: number, body: string): string {
+  const digest = createHmac("sha256", secret).update(`${id}.${timestamp}.${body}`).digest("hex");
+  return `v1=${digest}`;
+}
+
+interface WebhookRequest {
+  body: string;  // the raw body, exactly as received - not re-serialized JSON
+  headers: Record<string, string | string[] | undefined>;
+}
+
+type WebhookVerification =
+  | { valid: true; id: string; timestamp: Date }
+  | { valid: false; reason: "MISSING_HEADERS" | "STALE_TIMESTAMP" | "BAD_SIGNATURE" };
+
+function header(request: WebhookRequest, name: string): string | undefined {
+  const value = request.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * For receivers: is this request from us, and recent? A request older (or
+ * newer) than `toleranceMs` is refused even with a good signature.
+ * Receivers should also remember `id` to drop retried duplicates.
+ */
+function verifyWebhook(
+  request: WebhookRequest,
+  secret: string,
+  options: { now?: Date; toleranceMs?: number } = {}
+): WebhookVerification {
+  const id = header(request, WEBHOOK_ID_HEADER);
+  const timestamp = Number(header(request, WEBHOOK_TIMESTAMP_HEADER));
+  const signature = header(request, WEBHOOK_SIGNATURE_HEADER);
+  if (id === undefined || signature === undefined || !Number.isInteger(timestamp)) {
+    return { valid: false, reason: "MISSING_HEADERS" };
+  }
+
+  const now = options.now ?? new Date();
+  if (Math.abs(now.getTime() - timestamp * 1000) > (options.toleranceMs ?? 5 * 60 * 1000)) {
+    return { valid: false, reason: "STALE_TIMESTAMP" };
+  }
+
+  // Constant-time compare, so response timing doesn't leak the signature
+  const expected = Buffer.from(signWebhook(secret, id, timestamp, request.body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { valid: false, reason: "BAD_SIGNATURE" };
+  }
+  return { valid: true, id, timestamp: new Date(timestamp * 1000) };
+}
+
+// --- DELIVERIES ---
+
+const webhookDeliveryStatuses = ["pending", "delivered", "dead"] as const;
+
+type WebhookDeliveryStatus = (typeof webhookDeliveryStatuses)[number];
+
+function isWebhookDeliveryStatus(value: string): value is WebhookDeliveryStatus {
+  return (webhookDeliveryStatuses as readonly string[]).includes(value);
+}
+
+/** One POST, kept on the delivery whether it worked or not. */
+interface WebhookAttempt {
+  at: Date;
+  durationMs: number;
+  statusCode?: number;  // missing if no response came back
+  error?: string;
+}
+
+/** One event for one subscription, with its full attempt log. */
+interface WebhookDelivery {
+  id: string;  // `${eventId}:${subscriptionId}`, so an event is queued once per subscription
+  subscriptionId: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  url: string;
+  body: string;  // rendered when queued; every attempt sends the same bytes
+  status: WebhookDeliveryStatus;
+  attempts: number;        // since queued or last retry(); decides when to give up
+  log: WebhookAttempt[];   // every attempt ever made, oldest first
+  nextAttemptAt: Date;
+  createdAt: Date;
+  deliveredAt?: Date;
+}
+
+// --- DISPATCHER ---
+
+interface WebhookDispatcherOptions {
+  maxAttempts?: number;     // then the delivery is parked as "dead"; default 6
+  baseDelayMs?: number;     // retry delays double from here; default 1000
+  timeoutMs?: number;       // per request; default 10000
+  pollIntervalMs?: number;  // how often start() looks for due deliveries; default 1000
+  batchSize?: number;       // deliveries per pass; default 20
+  clock?: Clock;            // default: the system clock
+  onError?: (error: unknown) => void;  // a pass itself failed (e.g. the store is unreadable)
+}
+
+interface WebhookDeliveryReport {
+  delivered: number;
+  retried: number;
+  dead: number;
+}
+
+/**
+ * Queues a delivery per matching subscription and POSTs them, signed, in
+ * creation order. Anything but a 2xx is retried with exponential backoff
+ * until `maxAttempts`. Every attempt is appended to the delivery, so the
+ * log shows exactly what a partner was sent and what it answered.
+ */
+class WebhookDispatcher {
+  private readonly options: Required<Omit<WebhookDispatcherOptions, "onError">> &
+    Pick<WebhookDispatcherOptions, "onError">;
+  private timer: NodeJS.Timeout | null = null;
+  private pass: Promise<WebhookDeliveryReport> | null = null;
+
+  constructor(
+    private readonly subscriptions: BaseRepository<WebhookSubscription>,
+    private readonly deliveries: BaseRepository<WebhookDelivery>,
+    options: WebhookDispatcherOptions = {}
+  ) {
+    this.options = {
+      maxAttempts: options.maxAttempts ?? 6,
+      baseDelayMs: options.baseDelayMs ?? 1000,
+      timeoutMs: options.timeoutMs ?? 10000,
+      pollIntervalMs: options.pollIntervalMs ?? 1000,
+      batchSize: options.batchSize ?? 20,
+      clock: options.clock ?? systemClock,
+      onError: options.onError,
+    };
+  }
+
+  // --- subscriptions ---
+
+  async subscribe(input: NewWebhookSubscription): Promise<WebhookSubscriptionResult> {
+    const error = checkSubscription(input);
+    if (error !== null) {
+      return { success: false, error };
+    }
+    const subscription: WebhookSubscription = {
+      id: `wh_${randomUUID()}`,
+      url: input.url,
+      events: [...new Set(input.events.filter(isWebhookEventType))],
+      secret: input.secret ?? `whsec_${randomBytes(24).toString("hex")}`,
+      createdAt: this.options.clock.now(),
+    };
+    await this.subscriptions.save(subscription);
+    return { success: true, subscription };
+  }
+
+  /** Deliveries already queued for it are still attempted. */
+  async unsubscribe(subscriptionId: string): Promise<boolean> {
+    return this.subscriptions.delete(subscriptionId);
+  }
+
+  async listSubscriptions(): Promise<PublicWebhookSubscription[]> {
+    const all = await this.subscriptions.findAll();
+    return all.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()).map(withoutSecret);
+  }
+
+  // --- deliveries ---
+
+  /** Queue the event for every subscription that wants it. Returns how many were new. */
+  async publish(event: WebhookEvent): Promise<number> {
+    const now = this.options.clock.now();
+    const body = JSON.stringify(event);
+    const subscribers = await this.subscriptions.findWhere((subscription) => subscription.events.includes(event.type));
+
+    let queued = 0;
+    for (const subscription of subscribers) {
+      const delivery: WebhookDelivery = {
+        id: `${event.id}:${subscription.id}`,
+        subscriptionId: subscription.id,
+        eventId: event.id,
+        eventType: event.type,
+        url: subscription.url,
+        body,
+        status: "pending",
+        attempts: 0,
+        log: [],
+        nextAttemptAt: now,
+        createdAt: now,
+      };
+      if (await this.deliveries.saveIf(delivery, (current) => current === null)) {
+        queued += 1;
+      }
+    }
+    return queued;
+  }
+
+  /** One pass over the due deliveries. A call during a pass joins that pass. */
+  deliverDue(): Promise<WebhookDeliveryReport> {
+    this.pass ??= this.runPass().finally(() => {
+      this.pass = null;
+    });
+    return this.pass;
+  }
+
+  private async runPass(): Promise<WebhookDeliveryReport> {
+    const { batchSize, maxAttempts, baseDelayMs, clock } = this.options;
+    const now = clock.now().getTime();
+    const due = (
+      await this.deliveries.findWhere(
+        (delivery) => delivery.status === "pending" && delivery.nextAttemptAt.getTime() <= now
+      )
+    )
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(0, batchSize);
+
+    const report: WebhookDeliveryReport = { delivered: 0, retried: 0, dead: 0 };
+    for (const delivery of due) {
+      // A deleted subscription takes its secret with it: nothing left to sign with
+      const subscription = await this.subscriptions.findById(delivery.subscriptionId);
+      const attempt: WebhookAttempt =
+        subscription === null
+          ? { at: clock.now(), durationMs: 0, error: "Subscription was removed" }
+          : await this.attempt(delivery, subscription.secret);
+      delivery.attempts += 1;
+      delivery.log = [...delivery.log, attempt];
+
+      const ok = attempt.statusCode !== undefined && attempt.statusCode >= 200 && attempt.statusCode < 300;
+      if (ok) {
+        delivery.status = "delivered";
+        delivery.deliveredAt = attempt.at;
+        report.delivered += 1;
+      } else if (subscription === null || delivery.attempts >= maxAttempts) {
+        delivery.status = "dead";
+        report.dead += 1;
+      } else {
+        // 1s, 2s, 4s, 8s, ...
+        const delay = baseDelayMs * 2 ** (delivery.attempts - 1);
+        delivery.nextAttemptAt = new Date(clock.now().getTime() + delay);
+        report.retried += 1;
+      }
+      await this.deliveries.save(delivery);
+    }
+    return report;
+  }
+
+  // Signed at send time: a retry carries a fresh timestamp, so it passes
+  // the receiver's replay window however late it is
+  private async attempt(delivery: WebhookDelivery, secret: string): Promise<WebhookAttempt> {
+    const at = this.options.clock.now();
+    const timestamp = Math.floor(at.getTime() / 1000);
+    const started = Date.now();
+    try {
+      const response = await fetch(delivery.url, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          [WEBHOOK_ID_HEADER]: delivery.id,
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhook(secret, delivery.id, timestamp, delivery.body),
+        },
+        body: delivery.body,
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+      });
+      await response.body?.cancel();  // only the status matters
+      return { at, durationMs: Date.now() - started, statusCode: response.status };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { at, durationMs: Date.now() - started, error: message };
+    }
+  }
+
+  /** Poll in the background until stop(). Doesn't keep the process alive. */
+  start(): void {
+    if (this.timer !== null) return;
+    this.timer = setInterval(() => {
+      this.deliverDue().catch((error: unknown) => {
+        (this.options.onError ?? console.error)(error);
+      });
+    }, this.options.pollIntervalMs);
+    this.timer.unref();
+  }
+
+  /** Stop polling and wait for a pass in progress to finish. */
+  async stop(): Promise<void> {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.pass?.catch(() => undefined);
+  }
+
+  async listDeliveries(filter: { status?: WebhookDeliveryStatus; subscriptionId?: string } = {}): Promise<WebhookDelivery[]> {
+    const deliveries = await this.deliveries.findWhere(
+      (delivery) =>
+        (filter.status === undefined || delivery.status === filter.status) &&
+        (filter.subscriptionId === undefined || delivery.subscriptionId === filter.subscriptionId)
+    );
+    return deliveries.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  /** Give a dead (or waiting) delivery another set of attempts, due now. The log is kept. */
+  async retry(deliveryId: string): Promise<boolean> {
+    const delivery = await this.deliveries.findById(deliveryId);
+    if (delivery === null || delivery.status === "delivered") {
+      return false;
+    }
+    await this.deliveries.save({
+      ...delivery,
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: this.options.clock.now(),
+    });
+    return true;
+  }
+}
+
+export {
+  WebhookDispatcher,
+  webhookEventTypes,
+  isWebhookEventType,
+  webhookDeliveryStatuses,
+  isWebhookDeliveryStatus,
+  describeWebhookSubscriptionError,
+  signWebhook,
+  verifyWebhook,
+  WEBHOOK_ID_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  type WebhookEventType,
+  type WebhookEvent,
+  type WebhookSubscription,
+  type PublicWebhookSubscription,
+  type NewWebhookSubscription,
+  type WebhookSubscriptionError,
+  type WebhookSubscriptionErrorCode,
+  type WebhookSubscriptionResult,
+  type WebhookRequest,
+  type WebhookVerification,
+  type WebhookDeliveryStatus,
+  type WebhookAttempt,
+  type WebhookDelivery,
+  type WebhookDispatcherOptions,
+  type WebhookDeliveryReport,
+};
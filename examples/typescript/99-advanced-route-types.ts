@@ -265,4 +265,12 @@ void bad2;
 void bad3;
 void bad4;
 
-export { routes, makeUrl, registerHandler, type RouteParams, type RouteName };
+export {
+  routes,
+  makeUrl,
+  registerHandler,
+  type RouteParams,
+  type RouteName,
+  type PathParams,
+  type ExtractParamNames,
+};